@@ -4,6 +4,14 @@ import { TooltipProvider } from "@/components/ui/tooltip";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route } from "react-router-dom";
 import Index from "./pages/Index";
+import Clients from "./pages/Clients";
+import Invoices from "./pages/Invoices";
+import InvoiceDetail from "./pages/InvoiceDetail";
+import Reports from "./pages/Reports";
+import Quotes from "./pages/Quotes";
+import PrintWeek from "./pages/PrintWeek";
+import PrintTimesheet from "./pages/PrintTimesheet";
+import PrintInvoice from "./pages/PrintInvoice";
 import NotFound from "./pages/NotFound";
 
 const queryClient = new QueryClient();
@@ -16,6 +24,19 @@ const App = () => (
       <BrowserRouter>
         <Routes>
           <Route path="/" element={<Index />} />
+          <Route path="/semaine/:period" element={<Index />} />
+          <Route path="/jour/:period" element={<Index />} />
+          <Route path="/mois/:period" element={<Index />} />
+          <Route path="/agenda/:period" element={<Index />} />
+          <Route path="/tache/:id" element={<Index />} />
+          <Route path="/clients" element={<Clients />} />
+          <Route path="/factures" element={<Invoices />} />
+          <Route path="/factures/:id" element={<InvoiceDetail />} />
+          <Route path="/rapports" element={<Reports />} />
+          <Route path="/devis" element={<Quotes />} />
+          <Route path="/impression/semaine/:date" element={<PrintWeek />} />
+          <Route path="/impression/releve/:clientKey/:month" element={<PrintTimesheet />} />
+          <Route path="/impression/facture/:id" element={<PrintInvoice />} />
           {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
           <Route path="*" element={<NotFound />} />
         </Routes>
@@ -0,0 +1,202 @@
+import { useMemo, useState } from 'react';
+import { Pencil, Repeat, Trash2 } from 'lucide-react';
+import { Task, Client } from '@/types';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { getClientHex } from '@/utils/clients';
+import { deriveColors } from '@/utils/color';
+import { formatHours, formatTime, parseISODate } from '@/utils/date';
+import { Settings, slotStep, timeSlots } from '@/utils/settings';
+import { activityLabel, countHours } from '@/utils/totals';
+import { detachOccurrence } from '@/utils/recurrence';
+
+export interface AgendaViewProps {
+  fromISO: string;
+  toISO: string;
+  settings: Settings;
+  tasks: Task[]; // filtres appliqués
+  clients: Client[];
+  projectsByClient: Record<string, string[]>;
+  types: string[];
+  onUpsert: (task: Task, title?: string) => { ok: true } | { ok: false; error: string };
+  onDelete: (id: string) => void;
+}
+
+// Liste des tâches de la période regroupées par jour, modifiables sur place.
+export default function AgendaView({ fromISO, toISO, settings, tasks, clients, projectsByClient, types, onUpsert, onDelete }: AgendaViewProps) {
+  const [draft, setDraft] = useState<Task | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const days = useMemo(() => {
+    const map = new Map<string, Task[]>();
+    tasks
+      .filter(t => t.dateISO >= fromISO && t.dateISO <= toISO)
+      .sort((a, b) => a.dateISO.localeCompare(b.dateISO) || a.startHour - b.startHour)
+      .forEach(t => map.set(t.dateISO, [...(map.get(t.dateISO) ?? []), t]));
+    return Array.from(map.entries());
+  }, [tasks, fromISO, toISO]);
+
+  const starts = useMemo(() => timeSlots(settings), [settings]);
+  const ends = useMemo(() => starts.map(h => h + slotStep(settings)), [starts, settings]);
+  const clientNames = useMemo(() => clients.filter(c => !c.archived).map(c => c.name), [clients]);
+
+  const edit = (t: Task) => {
+    setDraft({ ...t });
+    setError(null);
+  };
+
+  const cancel = () => {
+    setDraft(null);
+    setError(null);
+  };
+
+  const save = () => {
+    if (!draft) return;
+    const billable = draft.category === 'FACTURABLE';
+    const task: Task = {
+      ...detachOccurrence(draft),
+      client: billable ? draft.client?.trim() || undefined : undefined,
+      project: billable ? draft.project?.trim() || undefined : undefined,
+      type: billable ? undefined : draft.type?.trim() || undefined,
+      description: draft.description?.trim() || undefined,
+    };
+    if (billable && !task.client) return setError('Client requis.');
+    if (!billable && !task.type) return setError('Type requis.');
+    const res = onUpsert(task);
+    if ('error' in res) return setError(res.error);
+    cancel();
+  };
+
+  const onKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'Enter') save();
+    else if (e.key === 'Escape') cancel();
+  };
+
+  const timeOptions = (values: number[], current: number) =>
+    (values.includes(current) ? values : [...values, current].sort((a, b) => a - b))
+      .map(h => <option key={h} value={h}>{formatTime(h)}</option>);
+
+  if (days.length === 0) {
+    return <div className="border rounded-md p-6 text-center text-muted-foreground">Aucune tâche sur cette période.</div>;
+  }
+
+  return (
+    <div className="border rounded-md max-h-[75vh] overflow-y-auto">
+      {days.map(([dateISO, list]) => (
+        <section key={dateISO}>
+          <div className="sticky top-0 z-10 flex items-center justify-between px-4 py-2 border-b bg-muted">
+            <div className="font-medium capitalize">
+              {parseISODate(dateISO).toLocaleDateString('fr-FR', { weekday: 'long', day: 'numeric', month: 'long' })}
+            </div>
+            <div className="text-sm text-muted-foreground">{formatHours(countHours(list, settings.hoursMode))}</div>
+          </div>
+          <ul className="divide-y">
+            {list.map(t => {
+              const isBillable = t.category === 'FACTURABLE';
+              const hex = isBillable ? getClientHex(clients, t.client) : undefined;
+              if (draft?.id === t.id) {
+                const billable = draft.category === 'FACTURABLE';
+                return (
+                  <li key={t.id} className="px-4 py-2 space-y-2 bg-accent/30" onKeyDown={onKeyDown}>
+                    <div className="flex items-center gap-2 flex-wrap">
+                      <select
+                        className="h-9 border rounded-md px-2 text-sm"
+                        value={draft.startHour}
+                        onChange={(e) => {
+                          const start = Number(e.target.value);
+                          setDraft({ ...draft, startHour: start, endHour: start + (draft.endHour - draft.startHour) });
+                        }}
+                        disabled={!!draft.invoiceId}
+                        aria-label="Début"
+                      >
+                        {timeOptions(starts, draft.startHour)}
+                      </select>
+                      <span>→</span>
+                      <select
+                        className="h-9 border rounded-md px-2 text-sm"
+                        value={draft.endHour}
+                        onChange={(e) => setDraft({ ...draft, endHour: Number(e.target.value) })}
+                        disabled={!!draft.invoiceId}
+                        aria-label="Fin"
+                      >
+                        {timeOptions(ends.filter(h => h > draft.startHour), draft.endHour)}
+                      </select>
+                      <Input
+                        className="h-9 w-44"
+                        value={(billable ? draft.client : draft.type) ?? ''}
+                        list={billable ? 'agenda-clients-dl' : 'agenda-types-dl'}
+                        onChange={(e) => setDraft(billable ? { ...draft, client: e.target.value } : { ...draft, type: e.target.value })}
+                        placeholder={billable ? 'Client' : 'Type'}
+                        aria-label={billable ? 'Client' : 'Type'}
+                        autoFocus
+                      />
+                      {billable && (
+                        <Input
+                          className="h-9 w-44"
+                          value={draft.project ?? ''}
+                          list="agenda-projects-dl"
+                          onChange={(e) => setDraft({ ...draft, project: e.target.value })}
+                          placeholder="Projet"
+                          aria-label="Projet"
+                        />
+                      )}
+                      {billable && (
+                        <label className="flex items-center gap-2 text-sm">
+                          <Checkbox checked={!!draft.billed} onCheckedChange={(v) => setDraft({ ...draft, billed: Boolean(v) })} disabled={!!draft.invoiceId} />
+                          Facturée
+                        </label>
+                      )}
+                    </div>
+                    <Input
+                      value={draft.description ?? ''}
+                      onChange={(e) => setDraft({ ...draft, description: e.target.value })}
+                      placeholder="Description"
+                      aria-label="Description"
+                    />
+                    <datalist id="agenda-projects-dl">{(projectsByClient[draft.client ?? ''] ?? []).map(p => <option key={p} value={p} />)}</datalist>
+                    <div className="flex items-center gap-2">
+                      <Button size="sm" onClick={save}>Enregistrer</Button>
+                      <Button size="sm" variant="secondary" onClick={cancel}>Annuler</Button>
+                      {error && <span className="text-sm text-destructive">{error}</span>}
+                    </div>
+                  </li>
+                );
+              }
+              return (
+                <li key={t.id} className="group flex items-start gap-3 px-4 py-2 hover:bg-accent/30 cursor-pointer" onClick={() => edit(t)}>
+                  <span className="mt-1.5 h-3 w-3 shrink-0 rounded-full border" style={hex ? { backgroundColor: deriveColors(hex).border } : undefined} />
+                  <div className="w-28 shrink-0 text-sm tabular-nums">{formatTime(t.startHour)} → {formatTime(t.endHour)}</div>
+                  <div className="flex-1 min-w-0">
+                    <div className="font-medium">
+                      {t.seriesId && <Repeat className="inline w-3 h-3 mr-1 -mt-0.5" aria-label="Tâche récurrente" />}
+                      {activityLabel(t)}
+                      {t.quote && <span className="text-muted-foreground font-normal">{' — '}Devis {t.quote}</span>}
+                    </div>
+                    {t.description && <div className="text-sm text-muted-foreground whitespace-pre-wrap break-words">{t.description}</div>}
+                  </div>
+                  {isBillable && (
+                    <Badge variant="secondary" className={`${t.billed ? 'bg-[hsl(var(--success))] text-[hsl(var(--success-foreground))]' : 'bg-[hsl(var(--warning))] text-[hsl(var(--warning-foreground))]'}`}>
+                      {t.billed ? 'F' : 'AF'}
+                    </Badge>
+                  )}
+                  <div className="flex gap-1 opacity-0 group-hover:opacity-100">
+                    <Button size="icon" variant="ghost" className="h-7 w-7" onClick={(e) => { e.stopPropagation(); edit(t); }} aria-label="Modifier">
+                      <Pencil className="w-4 h-4" />
+                    </Button>
+                    <Button size="icon" variant="ghost" className="h-7 w-7" onClick={(e) => { e.stopPropagation(); onDelete(t.id); }} disabled={!!t.invoiceId} aria-label="Supprimer">
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </div>
+                </li>
+              );
+            })}
+          </ul>
+        </section>
+      ))}
+      <datalist id="agenda-clients-dl">{clientNames.map(c => <option key={c} value={c} />)}</datalist>
+      <datalist id="agenda-types-dl">{types.map(t => <option key={t} value={t} />)}</datalist>
+    </div>
+  );
+}
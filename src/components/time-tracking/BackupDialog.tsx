@@ -0,0 +1,158 @@
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Label } from '@/components/ui/label';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { toast } from '@/hooks/use-toast';
+import { ENTITY_LABELS, createBackup, diffWorkspace, parseBackup } from '@/utils/backup';
+import { isoDate } from '@/utils/date';
+import { RestoreMode, Workspace, loadWorkspace, restoreWorkspace } from '@/utils/storage';
+
+export interface BackupDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const MODE_LABELS: Record<RestoreMode, string> = {
+  replace: 'Tout remplacer par la sauvegarde',
+  merge: 'Fusionner par identifiant (les données absentes de la sauvegarde sont conservées)',
+};
+
+// Sauvegarde complète en JSON et restauration avec aperçu des différences
+export default function BackupDialog({ open, onOpenChange }: BackupDialogProps) {
+  const [restore, setRestore] = useState<{ fileName: string; exportedAt: string; incoming: Workspace; current: Workspace } | null>(null);
+  const [mode, setMode] = useState<RestoreMode>('merge');
+  const [errors, setErrors] = useState<string[]>([]);
+  const [busy, setBusy] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+    setRestore(null);
+    setMode('merge');
+    setErrors([]);
+  }, [open]);
+
+  const download = async () => {
+    try {
+      const blob = new Blob([createBackup(await loadWorkspace())], { type: 'application/json' });
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url; a.download = `sauvegarde_${isoDate(new Date())}.json`; a.click();
+      URL.revokeObjectURL(url);
+    } catch (e) {
+      toast({ title: 'Sauvegarde impossible', description: e instanceof Error ? e.message : String(e), variant: 'destructive' });
+    }
+  };
+
+  const onFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const { exportedAt, ...incoming } = parseBackup(await file.text());
+      setRestore({ fileName: file.name, exportedAt, incoming, current: await loadWorkspace() });
+      setErrors([]);
+    } catch (err) {
+      setRestore(null);
+      setErrors(err instanceof Error ? err.message.split('\n') : ['Sauvegarde illisible.']);
+    }
+  };
+
+  const apply = async () => {
+    if (!restore) return;
+    setBusy(true);
+    try {
+      await restoreWorkspace(restore.incoming, mode);
+      // Toutes les vues relisent la base : le plus sûr est de recharger l'application
+      window.location.reload();
+    } catch (e) {
+      setBusy(false);
+      setErrors([e instanceof Error ? e.message : String(e)]);
+    }
+  };
+
+  const diff = restore && diffWorkspace(restore.current, restore.incoming, mode);
+  const exportedLabel = restore && !Number.isNaN(Date.parse(restore.exportedAt)) ? new Date(restore.exportedAt).toLocaleString('fr-FR') : restore?.exportedAt;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Sauvegarde et restauration</DialogTitle>
+          <DialogDescription>Tâches, clients et couleurs, factures, devis, modèles et réglages dans un seul fichier JSON.</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="flex items-center gap-3 flex-wrap">
+            <Button onClick={download}>Télécharger une sauvegarde</Button>
+            <Label className="cursor-pointer inline-flex items-center h-10 px-4 border rounded-md text-sm">
+              Restaurer depuis un fichier…
+              <input type="file" accept="application/json,.json" onChange={onFile} className="hidden" />
+            </Label>
+          </div>
+
+          {restore && diff && (
+            <div className="space-y-3">
+              <div className="text-sm text-muted-foreground">{restore.fileName} — sauvegarde du {exportedLabel}</div>
+              <RadioGroup value={mode} onValueChange={(v) => setMode(v as RestoreMode)} className="space-y-1">
+                {(Object.keys(MODE_LABELS) as RestoreMode[]).map(m => (
+                  <div key={m} className="flex items-center space-x-2">
+                    <RadioGroupItem value={m} id={`restore-${m}`} />
+                    <Label htmlFor={`restore-${m}`}>{MODE_LABELS[m]}</Label>
+                  </div>
+                ))}
+              </RadioGroup>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead />
+                    <TableHead className="text-right">Ajoutés</TableHead>
+                    <TableHead className="text-right">Modifiés</TableHead>
+                    <TableHead className="text-right">Identiques</TableHead>
+                    <TableHead className="text-right">Supprimés</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {(Object.keys(ENTITY_LABELS) as (keyof typeof ENTITY_LABELS)[]).map(k => (
+                    <TableRow key={k}>
+                      <TableCell className="font-medium">{ENTITY_LABELS[k]}</TableCell>
+                      <TableCell className="text-right">{diff.entities[k].added}</TableCell>
+                      <TableCell className="text-right">{diff.entities[k].updated}</TableCell>
+                      <TableCell className="text-right">{diff.entities[k].unchanged}</TableCell>
+                      <TableCell className={`text-right ${diff.entities[k].removed > 0 ? 'text-destructive font-medium' : ''}`}>{diff.entities[k].removed}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+              <div className="text-sm text-muted-foreground">
+                Réglages : {mode === 'merge' ? 'conservés' : diff.settingsChanged ? 'remplacés' : 'identiques'}.
+              </div>
+            </div>
+          )}
+
+          {errors.length > 0 && (
+            <Alert variant="destructive">
+              <AlertTitle>Restauration impossible</AlertTitle>
+              <AlertDescription>
+                <ul className="list-disc pl-4 max-h-32 overflow-y-auto">
+                  {errors.map((e, i) => <li key={i}>{e}</li>)}
+                </ul>
+              </AlertDescription>
+            </Alert>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="secondary" onClick={() => onOpenChange(false)}>Fermer</Button>
+          {restore && (
+            <Button variant={mode === 'replace' ? 'destructive' : 'default'} onClick={apply} disabled={busy}>
+              {mode === 'replace' ? 'Tout remplacer' : 'Fusionner'}
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,143 @@
+import { useMemo, useState } from 'react';
+import { Task } from '@/types';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { formatHours } from '@/utils/date';
+import { sumHours } from '@/utils/totals';
+import { copyTask, shiftDateISO } from '@/utils/tasks';
+import { detachOccurrence } from '@/utils/recurrence';
+
+type Field = 'client' | 'project' | 'quote' | 'type';
+
+const FIELD_LABELS: Record<Field, string> = {
+  client: 'Client',
+  project: 'Projet',
+  quote: 'Devis',
+  type: 'Type',
+};
+
+export type BatchResult = { ok: true } | { ok: false; errors: string[] };
+
+export interface BulkActionBarProps {
+  selected: Task[];
+  clients: string[];
+  projectsByClient: Record<string, string[]>;
+  quotesByClient: Record<string, string[]>;
+  types: string[];
+  onBatch: (before: Task[], after: Task[], label: string, title: string) => BatchResult;
+  onClear: () => void;
+}
+
+// Barre d'actions groupées sur la sélection de la grille ; chaque action est une seule étape d'annulation.
+export default function BulkActionBar({ selected, clients, projectsByClient, quotesByClient, types, onBatch, onClear }: BulkActionBarProps) {
+  const [field, setField] = useState<Field>('client');
+  const [value, setValue] = useState('');
+  const [days, setDays] = useState(1);
+  const [errors, setErrors] = useState<string[]>([]);
+
+  const billable = useMemo(() => selected.filter(t => t.category === 'FACTURABLE'), [selected]);
+  const nonBillable = useMemo(() => selected.filter(t => t.category === 'NON_FACTURABLE'), [selected]);
+  // Le champ ne s'applique qu'aux tâches de la bonne catégorie
+  const targets = field === 'type' ? nonBillable : billable;
+
+  const suggestions = useMemo(() => {
+    if (field === 'client') return clients;
+    if (field === 'type') return types;
+    const byClient = field === 'project' ? projectsByClient : quotesByClient;
+    return Array.from(new Set(billable.flatMap(t => (t.client ? byClient[t.client] ?? [] : [])))).sort();
+  }, [field, clients, types, projectsByClient, quotesByClient, billable]);
+
+  // Les tâches figurant sur une facture ne sont ni modifiées, ni déplacées, ni supprimées : `skipped` les compte
+  const run = (before: Task[], after: Task[], label: string, title: string, skipped = 0) => {
+    if (before.length === 0 && after.length === 0) {
+      if (skipped > 0) setErrors([`${skipped} tâche(s) figurant sur une facture ignorée(s).`]);
+      return;
+    }
+    const res = onBatch(before, after, skipped > 0 ? `${label} · ${skipped} ignorée(s) (sur facture)` : label, title);
+    if ('errors' in res) {
+      setErrors(res.errors);
+      return;
+    }
+    setErrors([]);
+    return res;
+  };
+
+  const notInvoiced = (list: Task[]) => list.filter(t => !t.invoiceId);
+
+  const setBilled = (billed: boolean) => {
+    const changed = billable.filter(t => !!t.billed !== billed);
+    // Une tâche portée par une facture ne peut pas redevenir non facturée : elle serait facturée deux fois
+    const before = billed ? changed : notInvoiced(changed);
+    run(before, before.map(t => ({ ...t, billed, invoiceId: billed ? t.invoiceId : undefined })),
+      `${before.length} tâche(s) marquée(s) ${billed ? 'facturée(s)' : 'non facturée(s)'}`, 'Facturation modifiée', changed.length - before.length);
+  };
+
+  const applyField = () => {
+    const v = value.trim();
+    if ((field === 'client' || field === 'type') && !v) {
+      setErrors([`${FIELD_LABELS[field]} requis.`]);
+      return;
+    }
+    const before = notInvoiced(targets);
+    run(before, before.map(t => ({ ...detachOccurrence(t), [field]: v || undefined })),
+      `${FIELD_LABELS[field]} « ${v || '—'} » sur ${before.length} tâche(s)`, 'Tâches modifiées', targets.length - before.length);
+  };
+
+  const move = () => {
+    if (!Number.isInteger(days) || days === 0) return;
+    const before = notInvoiced(selected);
+    run(before, before.map(t => ({ ...detachOccurrence(t), dateISO: shiftDateISO(t.dateISO, days) })),
+      `${before.length} tâche(s) déplacée(s) de ${days} jour(s)`, 'Tâches déplacées', selected.length - before.length);
+  };
+
+  const duplicateNextWeek = () => {
+    const copies = selected.map(t => copyTask(t, shiftDateISO(t.dateISO, 7)));
+    if (run([], copies, `${copies.length} tâche(s) dupliquée(s) sur la semaine suivante`, 'Tâches dupliquées')) onClear();
+  };
+
+  const remove = () => {
+    const before = notInvoiced(selected);
+    if (run(before, [], `Suppression de ${before.length} tâche(s)`, 'Supprimé', selected.length - before.length)) onClear();
+  };
+
+  return (
+    <div className="mb-3 rounded-md border bg-background shadow-sm p-3 space-y-2">
+      <div className="flex items-center gap-3 flex-wrap">
+        <span className="text-sm font-medium">
+          {selected.length} tâche(s) sélectionnée(s) · {formatHours(sumHours(selected))}
+        </span>
+        <Button size="sm" variant="outline" disabled={billable.length === 0} onClick={() => setBilled(true)}>Facturée</Button>
+        <Button size="sm" variant="outline" disabled={billable.length === 0} onClick={() => setBilled(false)}>Non facturée</Button>
+        <Button size="sm" variant="outline" onClick={duplicateNextWeek}>Dupliquer → semaine suivante</Button>
+        <Button size="sm" variant="destructive" onClick={remove}>Supprimer</Button>
+        <Button size="sm" variant="ghost" onClick={onClear} title="Échap">Désélectionner</Button>
+      </div>
+      <div className="flex items-center gap-2 flex-wrap">
+        <select className="h-9 border rounded-md px-2 text-sm" value={field} onChange={(e) => { setField(e.target.value as Field); setValue(''); }} aria-label="Champ à modifier">
+          {(Object.keys(FIELD_LABELS) as Field[]).map(f => <option key={f} value={f}>{FIELD_LABELS[f]}</option>)}
+        </select>
+        <Input className="h-9 w-48" value={value} list="bulk-values-dl" onChange={(e) => setValue(e.target.value)} placeholder={field === 'project' || field === 'quote' ? 'Vide = retirer' : 'Valeur'} />
+        <datalist id="bulk-values-dl">
+          {suggestions.map(s => <option key={s} value={s} />)}
+        </datalist>
+        <Button size="sm" variant="secondary" disabled={targets.length === 0} onClick={applyField}>
+          Appliquer ({targets.length})
+        </Button>
+        <span className="mx-2 h-6 border-l" aria-hidden />
+        <Input className="h-9 w-20" type="number" value={days} onChange={(e) => setDays(parseInt(e.target.value, 10) || 0)} aria-label="Nombre de jours" />
+        <Button size="sm" variant="secondary" onClick={move}>Déplacer de {days} jour(s)</Button>
+      </div>
+      {errors.length > 0 && (
+        <Alert variant="destructive">
+          <AlertTitle>Action refusée ({errors.length} problème(s))</AlertTitle>
+          <AlertDescription>
+            <ul className="list-disc pl-4 max-h-32 overflow-y-auto">
+              {errors.map((e, i) => <li key={i}>{e}</li>)}
+            </ul>
+          </AlertDescription>
+        </Alert>
+      )}
+    </div>
+  );
+}
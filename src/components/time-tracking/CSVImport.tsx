@@ -1,217 +1,162 @@
-import { useState, useRef } from 'react';
+import { useMemo, useRef, useState } from 'react';
 import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Label } from '@/components/ui/label';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
 import { useToast } from '@/hooks/use-toast';
-import { Task, Category } from '@/types';
+import { Task } from '@/types';
 import { Upload } from 'lucide-react';
+import { Settings } from '@/utils/settings';
+import { formatDateFR, formatTime } from '@/utils/date';
+import { activityLabel } from '@/utils/totals';
+import { Resolution, RESOLUTION_LABELS, RowOutcome, describeSlot, planImport } from '@/utils/import-plan';
+import {
+  CSVEncoding, DELIMITERS, ENCODINGS, FIELD_LABELS, ImportField,
+  decodeBytes, detectDelimiter, detectEncoding, guessMapping, missingRequiredFields, parseCSV, rowToTask,
+} from '@/utils/csv';
+import { FORMAT_LABELS, ImportFormat, detectFormat, missingColumns, trackerRows } from '@/utils/trackers';
+import { BatchResult } from './BulkActionBar';
 
 interface CSVImportProps {
-  onImport: (tasks: Task[]) => void;
+  tasks: Task[];
+  settings: Settings;
+  onImport: (before: Task[], after: Task[], label: string, title: string) => BatchResult;
 }
 
-function generateTaskId() {
-  return Date.now().toString(36) + Math.random().toString(36).substr(2);
+interface Source {
+  fileName: string;
+  bytes: Uint8Array;
+  encoding: CSVEncoding;
+  delimiter: string;
+  hasHeader: boolean;
+  format: ImportFormat;
 }
 
-function parseTimeToHour(time: string): number {
-  const match = time.match(/^(\d{1,2}):(\d{2})$/);
-  if (!match) throw new Error(`Format d'heure invalide: ${time}`);
-  const hours = parseInt(match[1], 10);
-  const minutes = parseInt(match[2], 10);
-  if (hours < 0 || hours > 23 || (minutes !== 0 && minutes !== 30)) {
-    throw new Error(`Heure invalide: ${time} (seules les heures pleines et demi-heures sont supportées)`);
-  }
-  return hours + (minutes === 30 ? 0.5 : 0);
-}
+const PREVIEW_LIMIT = 500;
 
-function parseCSVLine(line: string): string[] {
-  const result: string[] = [];
-  let current = '';
-  let inQuotes = false;
-  let i = 0;
-
-  while (i < line.length) {
-    const char = line[i];
-    
-    if (char === '"') {
-      if (inQuotes && line[i + 1] === '"') {
-        // Double quote inside quoted field
-        current += '"';
-        i += 2;
-      } else {
-        // Toggle quote state
-        inQuotes = !inQuotes;
-        i++;
-      }
-    } else if (char === ';' && !inQuotes) {
-      // Field separator
-      result.push(current);
-      current = '';
-      i++;
-    } else {
-      current += char;
-      i++;
-    }
-  }
-  
-  result.push(current);
-  return result;
+function readRows(source: Source) {
+  const rows = parseCSV(decodeBytes(source.bytes, source.encoding), source.delimiter);
+  const width = Math.max(0, ...rows.map(r => r.length));
+  const headers = source.hasHeader && rows.length > 0
+    ? Array.from({ length: width }, (_, i) => rows[0][i]?.trim() || `Colonne ${i + 1}`)
+    : Array.from({ length: width }, (_, i) => `Colonne ${i + 1}`);
+  return { headers, data: source.hasHeader ? rows.slice(1) : rows };
 }
 
-export default function CSVImport({ onImport }: CSVImportProps) {
+// Assistant d'import : fichier (CSV libre ou export Toggl, Clockify, Harvest) → correspondance des colonnes
+// → aperçu ligne par ligne avec résolution des conflits.
+export default function CSVImport({ tasks, settings, onImport }: CSVImportProps) {
   const { toast } = useToast();
   const fileInputRef = useRef<HTMLInputElement>(null);
-  const [isProcessing, setIsProcessing] = useState(false);
+  const [source, setSource] = useState<Source | null>(null);
+  const [mapping, setMapping] = useState<ImportField[]>([]);
+  const [defaultResolution, setDefaultResolution] = useState<Resolution>('skip');
+  const [overrides, setOverrides] = useState<Record<number, Resolution>>({});
+  const [errors, setErrors] = useState<string[]>([]);
+
+  const parsed = useMemo(() => (source ? readRows(source) : { headers: [], data: [] }), [source]);
+  const format = source?.format ?? 'generic';
+  const preview = useMemo(() => {
+    const firstLine = source?.hasHeader ? 2 : 1;
+    if (format !== 'generic') return trackerRows(format, parsed.headers, parsed.data, firstLine, settings);
+    return parsed.data.map((cells, i) => rowToTask(cells, firstLine + i, mapping, settings));
+  }, [parsed, format, mapping, settings, source?.hasHeader]);
+
+  const missing = format === 'generic' ? missingRequiredFields(mapping) : missingColumns(format, parsed.headers);
+  // Index dans l'aperçu des lignes valides : une entrée découpée donne plusieurs lignes
+  const validRows = useMemo(
+    () => (missing.length > 0 ? [] : preview.flatMap((r, index) => (r.task ? [{ task: r.task, index }] : []))),
+    [preview, missing.length],
+  );
+  const invalidCount = missing.length > 0 ? 0 : preview.length - validRows.length;
+
+  const plan = useMemo(() => planImport(
+    validRows.map(r => r.task),
+    tasks,
+    (i) => overrides[validRows[i].index] ?? defaultResolution,
+    settings,
+  ), [validRows, tasks, overrides, defaultResolution, settings]);
+  const outcomeByIndex = new Map<number, RowOutcome>(validRows.map((r, i) => [r.index, plan.outcomes[i]]));
+  const duplicates = plan.outcomes.filter(o => o.status === 'duplicate').length;
+  const conflicts = plan.outcomes.filter(o => o.status === 'conflict');
+
+  // Tout changement de lecture (encodage, séparateur, en-tête) repropose une correspondance
+  const updateSource = (next: Source) => {
+    setSource(next);
+    setMapping(next.hasHeader ? guessMapping(readRows(next).headers) : readRows(next).headers.map(() => 'ignore'));
+    setOverrides({});
+  };
 
   const handleFileSelect = async (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
+    event.target.value = '';
     if (!file) return;
-
-    if (!file.name.toLowerCase().endsWith('.csv')) {
+    try {
+      const bytes = new Uint8Array(await file.arrayBuffer());
+      const encoding = detectEncoding(bytes);
+      const text = decodeBytes(bytes, encoding);
+      if (!text.trim()) throw new Error('Le fichier est vide');
+      const next: Source = { fileName: file.name, bytes, encoding, delimiter: detectDelimiter(text), hasHeader: true, format: 'generic' };
+      updateSource({ ...next, format: detectFormat(readRows(next).headers) });
+    } catch (error) {
       toast({
-        title: 'Erreur',
-        description: 'Veuillez sélectionner un fichier CSV',
+        title: 'Erreur d\'import',
+        description: error instanceof Error ? error.message : 'Fichier illisible',
         variant: 'destructive'
       });
-      return;
     }
+  };
 
-    setIsProcessing(true);
+  // Un champ n'est associé qu'à une seule colonne
+  const assign = (col: number, field: ImportField) => {
+    setMapping(prev => prev.map((f, i) => (i === col ? field : f === field && field !== 'ignore' ? 'ignore' : f)));
+    setOverrides({});
+  };
 
-    try {
-      const text = await file.text();
-      const lines = text.split('\n').map(line => line.trim()).filter(line => line);
-      
-      if (lines.length === 0) {
-        throw new Error('Le fichier CSV est vide');
-      }
-
-      // Parse header
-      const headerLine = lines[0];
-      const expectedHeader = 'date;heure_debut;heure_fin;categorie;client;projet;devis;type;description;duree_h;facturee';
-      
-      if (headerLine !== expectedHeader) {
-        throw new Error(
-          `En-tête CSV incorrect. Attendu:\n${expectedHeader}\n\nReçu:\n${headerLine}`
-        );
-      }
-
-      const tasks: Task[] = [];
-      const errors: string[] = [];
-
-      // Parse data lines
-      for (let i = 1; i < lines.length; i++) {
-        const lineNum = i + 1;
-        try {
-          const fields = parseCSVLine(lines[i]);
-          
-          if (fields.length !== 11) {
-            throw new Error(`Ligne ${lineNum}: Nombre de colonnes incorrect (${fields.length}/11)`);
-          }
-
-          const [
-            dateISO,
-            heureDebut,
-            heureFin,
-            categorie,
-            client,
-            projet,
-            devis,
-            type,
-            description,
-            dureeH,
-            facturee
-          ] = fields;
-
-          // Validate date format
-          if (!/^\d{4}-\d{2}-\d{2}$/.test(dateISO)) {
-            throw new Error(`Ligne ${lineNum}: Format de date invalide (attendu: YYYY-MM-DD)`);
-          }
-
-          // Parse hours
-          const startHour = parseTimeToHour(heureDebut);
-          const endHour = parseTimeToHour(heureFin);
-
-          if (startHour >= endHour) {
-            throw new Error(`Ligne ${lineNum}: L'heure de fin doit être supérieure à l'heure de début`);
-          }
-
-          // Validate category
-          if (categorie !== 'FACTURABLE' && categorie !== 'NON_FACTURABLE') {
-            throw new Error(`Ligne ${lineNum}: Catégorie invalide (${categorie}). Attendu: FACTURABLE ou NON_FACTURABLE`);
-          }
-
-          // Parse billed status for billable tasks
-          let billed = false;
-          if (categorie === 'FACTURABLE' && facturee) {
-            if (facturee.toLowerCase() === 'oui') {
-              billed = true;
-            } else if (facturee.toLowerCase() === 'non') {
-              billed = false;
-            } else {
-              throw new Error(`Ligne ${lineNum}: Valeur 'facturee' invalide (${facturee}). Attendu: 'oui' ou 'non'`);
-            }
-          }
-
-          const task: Task = {
-            id: generateTaskId(),
-            dateISO,
-            startHour,
-            endHour,
-            category: categorie as Category,
-            client: client || undefined,
-            project: projet || undefined,
-            quote: devis || undefined,
-            type: type || undefined,
-            description: description || undefined,
-            billed
-          };
-
-          tasks.push(task);
-
-        } catch (error) {
-          errors.push(`Ligne ${lineNum}: ${error instanceof Error ? error.message : 'Erreur inconnue'}`);
-        }
-      }
-
-      if (errors.length > 0) {
-        toast({
-          title: 'Erreurs d\'import',
-          description: `${errors.length} erreur(s) détectée(s). Voir la console pour les détails.`,
-          variant: 'destructive'
-        });
-        console.error('Erreurs d\'import CSV:', errors);
-        return;
-      }
-
-      if (tasks.length === 0) {
-        toast({
-          title: 'Aucune tâche',
-          description: 'Aucune tâche valide trouvée dans le fichier CSV',
-          variant: 'destructive'
-        });
-        return;
-      }
-
-      onImport(tasks);
-      
-      toast({
-        title: 'Import réussi',
-        description: `${tasks.length} tâche(s) importée(s) avec succès`,
-      });
+  const close = () => {
+    setSource(null);
+    setMapping([]);
+    setOverrides({});
+    setErrors([]);
+  };
 
-    } catch (error) {
-      toast({
-        title: 'Erreur d\'import',
-        description: error instanceof Error ? error.message : 'Erreur inconnue lors de l\'import',
-        variant: 'destructive'
-      });
-    } finally {
-      setIsProcessing(false);
-      // Reset file input
-      if (fileInputRef.current) {
-        fileInputRef.current.value = '';
-      }
+  const handleImport = () => {
+    if (plan.after.length === 0) return;
+    const label = `Import ${source?.fileName} (${plan.after.length} tâche(s)${plan.before.length > 0 ? `, ${plan.before.length} remplacée(s)` : ''})`;
+    const res = onImport(plan.before, plan.after, label, 'Import terminé');
+    if ('errors' in res) {
+      setErrors(res.errors);
+      return;
     }
+    close();
+  };
+
+  const renderOutcome = (index: number) => {
+    const outcome = outcomeByIndex.get(index);
+    if (!outcome) return null;
+    if (outcome.status === 'new') return <span className="text-sm">Nouvelle</span>;
+    if (outcome.status === 'duplicate') return <span className="text-sm text-muted-foreground">Déjà présente</span>;
+    return (
+      <div className="space-y-1 text-sm">
+        {outcome.conflicts.map(c => (
+          <div key={c.id} className="text-destructive">
+            Chevauche {activityLabel(c)} {describeSlot(c)}{c.billed ? ' (facturée)' : ''}
+          </div>
+        ))}
+        <select
+          className="h-8 border rounded-md px-2 text-sm"
+          value={outcome.resolution}
+          onChange={(e) => setOverrides(prev => ({ ...prev, [index]: e.target.value as Resolution }))}
+          aria-label={`Résolution ligne ${preview[index].line}`}
+        >
+          {(Object.keys(RESOLUTION_LABELS) as Resolution[]).map(r => <option key={r} value={r}>{RESOLUTION_LABELS[r]}</option>)}
+        </select>
+        {outcome.result && outcome.resolution === 'shift' && <div className="text-muted-foreground">→ {describeSlot(outcome.result)}</div>}
+        {outcome.note && <div className="text-destructive">{outcome.note} : ligne ignorée</div>}
+      </div>
+    );
   };
 
   return (
@@ -219,19 +164,158 @@ export default function CSVImport({ onImport }: CSVImportProps) {
       <input
         ref={fileInputRef}
         type="file"
-        accept=".csv"
+        accept=".csv,.tsv,.txt,text/csv"
         onChange={handleFileSelect}
         className="hidden"
       />
       <Button
         variant="outline"
         onClick={() => fileInputRef.current?.click()}
-        disabled={isProcessing}
+        title="CSV libre ou export Toggl Track, Clockify, Harvest"
         className="font-poppins"
       >
         <Upload className="w-4 h-4 mr-2" />
-        {isProcessing ? 'Import en cours...' : 'Importer CSV'}
+        Importer CSV
       </Button>
+
+      <Dialog open={!!source} onOpenChange={(o) => !o && close()}>
+        <DialogContent className="max-w-5xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Importer un CSV</DialogTitle>
+            <DialogDescription>
+              {source?.fileName} — {parsed.data.length} ligne(s) de données.
+              {format === 'generic' ? ' Associez les colonnes aux champs des tâches.' : ' Colonnes reconnues automatiquement.'}
+            </DialogDescription>
+          </DialogHeader>
+
+          {source && (
+            <div className="space-y-4">
+              <div className="flex items-end gap-4 flex-wrap">
+                <div className="space-y-1">
+                  <Label htmlFor="csv-format">Format</Label>
+                  <select id="csv-format" className="h-9 border rounded-md px-2 text-sm block" value={source.format} onChange={(e) => updateSource({ ...source, format: e.target.value as ImportFormat })}>
+                    {(Object.keys(FORMAT_LABELS) as ImportFormat[]).map(f => <option key={f} value={f}>{FORMAT_LABELS[f]}</option>)}
+                  </select>
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="csv-delimiter">Séparateur</Label>
+                  <select id="csv-delimiter" className="h-9 border rounded-md px-2 text-sm block" value={source.delimiter} onChange={(e) => updateSource({ ...source, delimiter: e.target.value })}>
+                    {DELIMITERS.map(d => <option key={d.label} value={d.value}>{d.label}</option>)}
+                  </select>
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="csv-encoding">Encodage</Label>
+                  <select id="csv-encoding" className="h-9 border rounded-md px-2 text-sm block" value={source.encoding} onChange={(e) => updateSource({ ...source, encoding: e.target.value as CSVEncoding })}>
+                    {ENCODINGS.map(enc => <option key={enc} value={enc}>{enc}</option>)}
+                  </select>
+                </div>
+                <div className="flex items-center space-x-2 h-9">
+                  <Checkbox id="csv-header" checked={source.hasHeader} onCheckedChange={(v) => updateSource({ ...source, hasHeader: Boolean(v) })} />
+                  <Label htmlFor="csv-header">Première ligne = en-têtes</Label>
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="csv-resolution">En cas de conflit</Label>
+                  <select id="csv-resolution" className="h-9 border rounded-md px-2 text-sm block" value={defaultResolution} onChange={(e) => { setDefaultResolution(e.target.value as Resolution); setOverrides({}); }}>
+                    {(Object.keys(RESOLUTION_LABELS) as Resolution[]).map(r => <option key={r} value={r}>{RESOLUTION_LABELS[r]}</option>)}
+                  </select>
+                </div>
+              </div>
+
+              {format === 'generic' && <div className="grid gap-2 sm:grid-cols-2 lg:grid-cols-3">
+                {parsed.headers.map((header, col) => (
+                  <div key={col} className="border rounded-md p-2 space-y-1">
+                    <div className="text-sm font-medium truncate" title={header}>{header}</div>
+                    <div className="text-xs text-muted-foreground truncate">
+                      {parsed.data.slice(0, 3).map(r => r[col]?.trim()).filter(Boolean).join(' · ') || '—'}
+                    </div>
+                    <select className="h-8 w-full border rounded-md px-2 text-sm" value={mapping[col] ?? 'ignore'} onChange={(e) => assign(col, e.target.value as ImportField)} aria-label={`Champ pour ${header}`}>
+                      {(Object.keys(FIELD_LABELS) as ImportField[]).map(f => <option key={f} value={f}>{FIELD_LABELS[f]}</option>)}
+                    </select>
+                  </div>
+                ))}
+              </div>}
+
+              {missing.length > 0 ? (
+                <Alert variant="destructive">
+                  <AlertDescription>
+                    {format === 'generic' ? 'Colonnes à associer' : 'Colonnes absentes de l\'export'} : {missing.join(', ')}.
+                  </AlertDescription>
+                </Alert>
+              ) : (
+                <div className="border rounded-md max-h-80 overflow-y-auto">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead className="w-16">Ligne</TableHead>
+                        <TableHead>Date</TableHead>
+                        <TableHead>Horaire</TableHead>
+                        <TableHead>Activité</TableHead>
+                        <TableHead>Description</TableHead>
+                        <TableHead>Import</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {preview.slice(0, PREVIEW_LIMIT).map((row, index) => (
+                        <TableRow key={index} className={row.task ? undefined : 'bg-destructive/10'}>
+                          <TableCell className="text-muted-foreground">{row.line}</TableCell>
+                          {row.task ? (
+                            <>
+                              <TableCell>{formatDateFR(row.task.dateISO)}</TableCell>
+                              <TableCell>{formatTime(row.task.startHour)} → {formatTime(row.task.endHour)}</TableCell>
+                              <TableCell>{activityLabel(row.task)}{row.task.billed ? ' (facturée)' : ''}</TableCell>
+                              <TableCell className="max-w-xs truncate">{row.task.description}</TableCell>
+                              <TableCell>
+                                {renderOutcome(index)}
+                                {row.note && <div className="text-xs text-muted-foreground">{row.note}</div>}
+                              </TableCell>
+                            </>
+                          ) : (
+                            <TableCell colSpan={5}>
+                              <div className="text-xs text-muted-foreground truncate">{row.cells.join(' · ')}</div>
+                              <ul className="text-destructive text-sm">
+                                {row.errors.map((e, i) => <li key={i}>{e}</li>)}
+                              </ul>
+                              {row.note && <div className="text-xs text-muted-foreground">{row.note}</div>}
+                            </TableCell>
+                          )}
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                  {preview.length > PREVIEW_LIMIT && (
+                    <div className="p-2 text-sm text-muted-foreground">… {preview.length - PREVIEW_LIMIT} ligne(s) supplémentaire(s) non affichée(s).</div>
+                  )}
+                </div>
+              )}
+
+              {missing.length === 0 && (
+                <div className="text-sm text-muted-foreground">
+                  {plan.after.length} tâche(s) à importer
+                  {plan.before.length > 0 && `, ${plan.before.length} tâche(s) existante(s) remplacée(s)`}
+                  {duplicates > 0 && `, ${duplicates} doublon(s) ignoré(s)`}
+                  {conflicts.length > 0 && `, ${conflicts.length} conflit(s) dont ${conflicts.filter(c => !c.result).length} non importé(s)`}
+                  {invalidCount > 0 && `, ${invalidCount} ligne(s) en erreur ignorée(s)`}.
+                </div>
+              )}
+
+              {errors.length > 0 && (
+                <Alert variant="destructive">
+                  <AlertDescription>
+                    <ul className="list-disc pl-4 max-h-32 overflow-y-auto">
+                      {errors.map((e, i) => <li key={i}>{e}</li>)}
+                    </ul>
+                  </AlertDescription>
+                </Alert>
+              )}
+            </div>
+          )}
+
+          <DialogFooter>
+            <Button variant="secondary" onClick={close}>Annuler</Button>
+            <Button onClick={handleImport} disabled={plan.after.length === 0}>Importer {plan.after.length} tâche(s)</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
     </div>
   );
-}
\ No newline at end of file
+}
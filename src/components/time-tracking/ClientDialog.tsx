@@ -0,0 +1,135 @@
+import { useEffect, useState } from 'react';
+import { Client } from '@/types';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Label } from '@/components/ui/label';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Checkbox } from '@/components/ui/checkbox';
+import { normalizeClient, getDefaultColorForClient } from '@/utils/color';
+import { createClient, CURRENCIES, DEFAULT_CURRENCY } from '@/utils/clients';
+
+export interface ClientDialogProps {
+  open: boolean;
+  client?: Client; // absent = création
+  clients: Client[];
+  onClose: () => void;
+  onSave: (client: Client, previousKey?: string) => void;
+}
+
+export default function ClientDialog({ open, client, clients, onClose, onSave }: ClientDialogProps) {
+  const [name, setName] = useState('');
+  const [hourlyRate, setHourlyRate] = useState('');
+  const [currency, setCurrency] = useState(DEFAULT_CURRENCY);
+  const [address, setAddress] = useState('');
+  const [vatNumber, setVatNumber] = useState('');
+  const [archived, setArchived] = useState(false);
+  const [color, setColor] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    setName(client?.name ?? '');
+    setHourlyRate(client?.hourlyRate !== undefined ? String(client.hourlyRate) : '');
+    setCurrency(client?.currency ?? DEFAULT_CURRENCY);
+    setAddress(client?.address ?? '');
+    setVatNumber(client?.vatNumber ?? '');
+    setArchived(client?.archived ?? false);
+    setColor(client?.color ?? '');
+    setError(null);
+  }, [open, client]);
+
+  const handleSave = () => {
+    setError(null);
+    const key = normalizeClient(name);
+    if (!key) {
+      setError('Nom requis.');
+      return;
+    }
+    if (key !== client?.key && clients.some(c => c.key === key)) {
+      setError('Un client porte déjà ce nom.');
+      return;
+    }
+    const rate = hourlyRate.trim() ? parseFloat(hourlyRate.replace(',', '.')) : undefined;
+    if (rate !== undefined && (!Number.isFinite(rate) || rate < 0)) {
+      setError('Taux horaire invalide.');
+      return;
+    }
+    onSave(createClient(name, {
+      hourlyRate: rate,
+      currency,
+      address: address.trim() || undefined,
+      vatNumber: vatNumber.trim() || undefined,
+      archived,
+      color: color || getDefaultColorForClient(name),
+    }), client?.key);
+    onClose();
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(o) => !o && onClose()}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{client ? 'Éditer le client' : 'Nouveau client'}</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="client-name">Nom (obligatoire)</Label>
+            <Input id="client-name" value={name} onChange={(e) => setName(e.target.value)} placeholder="Ex: ACME" />
+            {client && normalizeClient(name) !== client.key && (
+              <p className="text-xs text-muted-foreground">Les tâches de « {client.name} » seront renommées.</p>
+            )}
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="client-rate">Taux horaire HT</Label>
+              <Input id="client-rate" inputMode="decimal" value={hourlyRate} onChange={(e) => setHourlyRate(e.target.value)} placeholder="Ex: 85" />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="client-currency">Devise</Label>
+              <select id="client-currency" className="w-full h-10 border rounded-md px-3" value={currency} onChange={(e) => setCurrency(e.target.value)}>
+                {CURRENCIES.map((c) => <option key={c} value={c}>{c}</option>)}
+              </select>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="client-address">Adresse</Label>
+            <Textarea id="client-address" rows={3} value={address} onChange={(e) => setAddress(e.target.value)} />
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="client-vat">N° TVA</Label>
+              <Input id="client-vat" value={vatNumber} onChange={(e) => setVatNumber(e.target.value)} placeholder="Ex: FR12345678901" />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="client-color">Couleur</Label>
+              <input
+                id="client-color"
+                type="color"
+                className="h-10 w-full border rounded-md px-1"
+                value={color || getDefaultColorForClient(name)}
+                onChange={(e) => setColor(e.target.value)}
+              />
+            </div>
+          </div>
+
+          <div className="flex items-center space-x-2">
+            <Checkbox id="client-archived" checked={archived} onCheckedChange={(v) => setArchived(Boolean(v))} />
+            <Label htmlFor="client-archived">Archivé (masqué à la saisie)</Label>
+          </div>
+
+          {error && <div className="text-sm text-destructive-foreground bg-destructive/15 rounded px-3 py-2">{error}</div>}
+        </div>
+
+        <DialogFooter>
+          <Button variant="secondary" onClick={onClose}>Annuler</Button>
+          <Button onClick={handleSave}>Enregistrer</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
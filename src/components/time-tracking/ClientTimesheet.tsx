@@ -0,0 +1,112 @@
+import { Fragment, useMemo } from 'react';
+import { Task, Client } from '@/types';
+import { formatMoney } from '@/utils/clients';
+import { formatDateFR, formatHours, formatTime } from '@/utils/date';
+import { sumHours, totalsBy } from '@/utils/totals';
+
+export interface ClientTimesheetProps {
+  clientName: string;
+  client?: Client;
+  title: string;         // « Relevé d'heures — mars 2025 », « Facture F-2025-0003 »
+  periodLabel: string;
+  tasks: Task[];
+  rate?: number;         // absent = relevé sans montants
+  currency?: string;
+}
+
+// Relevé d'heures d'un client : détail par jour avec sous-totaux, puis totaux par projet.
+export default function ClientTimesheet({ clientName, client, title, periodLabel, tasks, rate, currency }: ClientTimesheetProps) {
+  const sorted = useMemo(
+    () => tasks.slice().sort((a, b) => a.dateISO.localeCompare(b.dateISO) || a.startHour - b.startHour),
+    [tasks],
+  );
+  const days = useMemo(() => Array.from(new Set(sorted.map(t => t.dateISO))), [sorted]);
+  const byProject = useMemo(
+    () => totalsBy(tasks, t => [t.project || 'Sans projet', t.quote].filter(Boolean).join(' · ')),
+    [tasks],
+  );
+  const total = sumHours(tasks);
+  const money = (h: number) => (rate !== undefined ? formatMoney(h * rate, currency) : null);
+
+  return (
+    <div className="text-sm">
+      <div className="flex items-start justify-between gap-6">
+        <div>
+          <div className="text-xl font-bold">{title}</div>
+          <div className="text-gray-600">{periodLabel}</div>
+        </div>
+        <div className="text-right">
+          <div className="font-semibold">{clientName}</div>
+          {client?.address && <div className="whitespace-pre-line text-gray-600">{client.address}</div>}
+          {client?.vatNumber && <div className="text-gray-600">TVA : {client.vatNumber}</div>}
+        </div>
+      </div>
+
+      <table className="w-full border-collapse mt-6">
+        <thead>
+          <tr className="border-b border-gray-400 text-left">
+            <th className="py-1">Date</th>
+            <th className="py-1">Horaire</th>
+            <th className="py-1">Projet</th>
+            <th className="py-1">Devis</th>
+            <th className="py-1">Description</th>
+            <th className="py-1 text-right">Durée</th>
+          </tr>
+        </thead>
+        <tbody>
+          {days.map(day => {
+            const dayTasks = sorted.filter(t => t.dateISO === day);
+            return (
+              <Fragment key={day}>
+                {dayTasks.map((t, i) => (
+                  <tr key={t.id} className="border-b border-gray-100 align-top">
+                    <td className="py-0.5">{i === 0 ? formatDateFR(day) : ''}</td>
+                    <td className="py-0.5 whitespace-nowrap">{formatTime(t.startHour)}–{formatTime(t.endHour)}</td>
+                    <td className="py-0.5">{t.project ?? ''}</td>
+                    <td className="py-0.5">{t.quote ?? ''}</td>
+                    <td className="py-0.5 text-gray-600">{t.description ?? ''}</td>
+                    <td className="py-0.5 text-right">{formatHours(t.endHour - t.startHour)}</td>
+                  </tr>
+                ))}
+                <tr className="border-b border-gray-300 bg-gray-50">
+                  <td colSpan={5} className="py-0.5 text-right text-gray-600">Total du {formatDateFR(day)}</td>
+                  <td className="py-0.5 text-right font-medium">{formatHours(sumHours(dayTasks))}</td>
+                </tr>
+              </Fragment>
+            );
+          })}
+          {days.length === 0 && (
+            <tr><td colSpan={6} className="py-2 text-gray-500">Aucune tâche sur la période.</td></tr>
+          )}
+        </tbody>
+      </table>
+
+      <table className="w-1/2 ml-auto border-collapse mt-6 print-avoid-break">
+        <thead>
+          <tr className="border-b border-gray-400 text-left">
+            <th className="py-1">Projet · Devis</th>
+            <th className="py-1 text-right">Heures</th>
+            {rate !== undefined && <th className="py-1 text-right">Montant HT</th>}
+          </tr>
+        </thead>
+        <tbody>
+          {byProject.map(r => (
+            <tr key={r.key} className="border-b border-gray-100">
+              <td className="py-0.5">{r.key}</td>
+              <td className="py-0.5 text-right">{formatHours(r.hours)}</td>
+              {rate !== undefined && <td className="py-0.5 text-right">{money(r.hours)}</td>}
+            </tr>
+          ))}
+          <tr className="font-semibold">
+            <td className="py-1">Total</td>
+            <td className="py-1 text-right">{formatHours(total)}</td>
+            {rate !== undefined && <td className="py-1 text-right">{money(total)}</td>}
+          </tr>
+        </tbody>
+      </table>
+      {rate !== undefined && (
+        <div className="text-right text-gray-600 mt-1">Taux horaire : {formatMoney(rate, currency)} HT</div>
+      )}
+    </div>
+  );
+}
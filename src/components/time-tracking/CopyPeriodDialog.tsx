@@ -0,0 +1,174 @@
+import { useEffect, useMemo, useState } from 'react';
+import { Task } from '@/types';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { formatDateFR, formatTime, getMonday, isoDate, parseISODate } from '@/utils/date';
+import { findConflicts } from '@/utils/overlap';
+import { activityLabel } from '@/utils/totals';
+import { copyTask, shiftDateISO } from '@/utils/tasks';
+import { BatchResult } from './BulkActionBar';
+
+export type CopySource = { kind: 'day'; dateISO: string } | { kind: 'week'; weekStartISO: string };
+
+type Strategy = 'skip' | 'overwrite' | 'report';
+
+const STRATEGY_LABELS: Record<Strategy, string> = {
+  skip: 'Ignorer les tâches en conflit',
+  overwrite: 'Remplacer les tâches existantes',
+  report: 'Ne rien copier en cas de conflit',
+};
+
+export interface CopyPeriodDialogProps {
+  source: CopySource | null;
+  tasks: Task[];
+  onClose: () => void;
+  onApply: (before: Task[], after: Task[], label: string, title: string) => BatchResult;
+}
+
+const dayDiff = (fromISO: string, toISO: string) =>
+  Math.round((parseISODate(toISO).getTime() - parseISODate(fromISO).getTime()) / 86400000);
+
+const slot = (t: Task) => `${formatDateFR(t.dateISO)} ${formatTime(t.startHour)} → ${formatTime(t.endHour)}`;
+
+// Duplique une journée ou une semaine : aperçu des copies et choix du traitement des conflits.
+export default function CopyPeriodDialog({ source, tasks, onClose, onApply }: CopyPeriodDialogProps) {
+  const [target, setTarget] = useState('');
+  const [strategy, setStrategy] = useState<Strategy>('skip');
+  const [errors, setErrors] = useState<string[]>([]);
+
+  useEffect(() => {
+    if (!source) return;
+    setTarget(source.kind === 'day' ? shiftDateISO(source.dateISO, 1) : shiftDateISO(source.weekStartISO, 7));
+    setStrategy('skip');
+    setErrors([]);
+  }, [source]);
+
+  const sourceFrom = source ? (source.kind === 'day' ? source.dateISO : source.weekStartISO) : '';
+  const sourceTo = source ? (source.kind === 'day' ? source.dateISO : shiftDateISO(source.weekStartISO, 6)) : '';
+  // Une semaine cible est ramenée à son lundi
+  const targetFrom = source?.kind === 'week' && target ? isoDate(getMonday(parseISODate(target))) : target;
+  const offset = source && targetFrom ? dayDiff(sourceFrom, targetFrom) : 0;
+
+  const preview = useMemo(() => {
+    if (!source || offset === 0) return [];
+    return tasks
+      .filter(t => t.dateISO >= sourceFrom && t.dateISO <= sourceTo)
+      .sort((a, b) => a.dateISO.localeCompare(b.dateISO) || a.startHour - b.startHour)
+      .map(t => {
+        const copy = copyTask(t, shiftDateISO(t.dateISO, offset));
+        return { copy, conflicts: findConflicts(copy, tasks) };
+      });
+  }, [source, tasks, sourceFrom, sourceTo, offset]);
+
+  const conflicting = preview.filter(p => p.conflicts.length > 0);
+  // Les tâches déjà facturées ne sont jamais écrasées
+  const locked = strategy === 'overwrite' ? conflicting.filter(p => p.conflicts.some(c => c.billed)) : [];
+
+  const plan = useMemo(() => {
+    if (strategy === 'report') return conflicting.length > 0 ? null : { before: [], after: preview.map(p => p.copy) };
+    if (strategy === 'skip') return { before: [], after: preview.filter(p => p.conflicts.length === 0).map(p => p.copy) };
+    const kept = preview.filter(p => !p.conflicts.some(c => c.billed));
+    const replaced = new Map<string, Task>();
+    kept.forEach(p => p.conflicts.forEach(c => replaced.set(c.id, c)));
+    return { before: Array.from(replaced.values()), after: kept.map(p => p.copy) };
+  }, [strategy, preview, conflicting.length]);
+
+  const handleApply = () => {
+    if (!source || !plan || plan.after.length === 0) return;
+    const what = source.kind === 'day' ? `journée du ${formatDateFR(source.dateISO)}` : `semaine du ${formatDateFR(source.weekStartISO)}`;
+    const label = `Copie de la ${what} vers le ${formatDateFR(targetFrom)} (${plan.after.length} tâche(s))`;
+    const res = onApply(plan.before, plan.after, label, 'Copie effectuée');
+    if ('errors' in res) {
+      setErrors(res.errors);
+      return;
+    }
+    onClose();
+  };
+
+  return (
+    <Dialog open={!!source} onOpenChange={(o) => !o && onClose()}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>{source?.kind === 'week' ? 'Dupliquer la semaine' : 'Dupliquer la journée'}</DialogTitle>
+          <DialogDescription>
+            {source?.kind === 'week'
+              ? `Semaine du ${formatDateFR(sourceFrom)} au ${formatDateFR(sourceTo)}`
+              : source && `Journée du ${formatDateFR(sourceFrom)}`}
+            {' '}— les copies reçoivent de nouveaux identifiants et ne sont pas facturées.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="flex items-end gap-3 flex-wrap">
+            <div className="space-y-2">
+              <Label htmlFor="copy-target">{source?.kind === 'week' ? 'Vers la semaine du' : 'Vers le'}</Label>
+              <Input id="copy-target" type="date" value={target} onChange={(e) => setTarget(e.target.value)} className="w-44" />
+            </div>
+            {source?.kind === 'week' ? (
+              <Button variant="outline" onClick={() => setTarget(shiftDateISO(source.weekStartISO, 7))}>Semaine suivante</Button>
+            ) : source && (
+              <Button variant="outline" onClick={() => setTarget(shiftDateISO(source.dateISO, 1))}>Lendemain</Button>
+            )}
+            {source?.kind === 'week' && targetFrom !== target && (
+              <span className="text-sm text-muted-foreground">Semaine du {formatDateFR(targetFrom)}</span>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <Label>En cas de conflit</Label>
+            <RadioGroup value={strategy} onValueChange={(v) => setStrategy(v as Strategy)} className="space-y-1">
+              {(Object.keys(STRATEGY_LABELS) as Strategy[]).map(s => (
+                <div key={s} className="flex items-center space-x-2">
+                  <RadioGroupItem value={s} id={`copy-${s}`} />
+                  <Label htmlFor={`copy-${s}`}>{STRATEGY_LABELS[s]}</Label>
+                </div>
+              ))}
+            </RadioGroup>
+          </div>
+
+          <div className="max-h-64 overflow-y-auto border rounded-md divide-y text-sm">
+            {offset === 0 && <div className="p-2 text-muted-foreground">Choisissez une autre période que la source.</div>}
+            {offset !== 0 && preview.length === 0 && <div className="p-2 text-muted-foreground">Aucune tâche à copier.</div>}
+            {preview.map(({ copy, conflicts }) => (
+              <div key={copy.id} className="p-2 flex items-start justify-between gap-3">
+                <div>
+                  <div className="font-medium">{activityLabel(copy)}</div>
+                  <div className="text-muted-foreground">{slot(copy)}</div>
+                </div>
+                {conflicts.length > 0 && (
+                  <div className="text-right text-destructive">
+                    {conflicts.map(c => (
+                      <div key={c.id}>Conflit : {activityLabel(c)} {formatTime(c.startHour)}–{formatTime(c.endHour)}{c.billed ? ' (facturée)' : ''}</div>
+                    ))}
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+
+          <div className="text-sm text-muted-foreground">
+            {preview.length} tâche(s), dont {conflicting.length} en conflit.
+            {plan ? ` ${plan.after.length} seront copiées` : ' Copie bloquée par les conflits.'}
+            {plan && plan.before.length > 0 && `, ${plan.before.length} tâche(s) existante(s) remplacée(s)`}
+            {locked.length > 0 && ` ; ${locked.length} ignorée(s) car elles recouvrent des tâches facturées`}
+            {plan && '.'}
+          </div>
+
+          {errors.length > 0 && (
+            <ul className="text-sm text-destructive-foreground bg-destructive/15 rounded px-3 py-2 list-disc pl-6 max-h-32 overflow-y-auto">
+              {errors.map((e, i) => <li key={i}>{e}</li>)}
+            </ul>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="secondary" onClick={onClose}>Annuler</Button>
+          <Button onClick={handleApply} disabled={!plan || plan.after.length === 0}>Copier</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
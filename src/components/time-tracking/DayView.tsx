@@ -0,0 +1,140 @@
+import { useMemo, useState } from 'react';
+import { Repeat } from 'lucide-react';
+import { Task, Client, TaskTemplate } from '@/types';
+import TaskModal from './TaskModal';
+import { BatchResult } from './BulkActionBar';
+import { Badge } from '@/components/ui/badge';
+import { toast } from '@/components/ui/use-toast';
+import { deriveColors } from '@/utils/color';
+import { getClientHex } from '@/utils/clients';
+import { formatHours, formatTime, parseISODate } from '@/utils/date';
+import { findConflicts, layoutLanes } from '@/utils/overlap';
+import { SeriesScope } from '@/utils/recurrence';
+import { Settings, slotStep, timeSlots, visibleSpan } from '@/utils/settings';
+import { countHours } from '@/utils/totals';
+
+const HOUR_H = 96; // px, plus haut que la grille hebdo pour lire les descriptions
+
+export interface DayViewProps {
+  dateISO: string;
+  settings: Settings;
+  tasks: Task[];
+  dayTasks: Task[]; // tâches du jour, filtres appliqués
+  clients: Client[];
+  projectsByClient: Record<string, string[]>;
+  quotesByClient: Record<string, string[]>;
+  types: string[];
+  onUpsert: (task: Task, title?: string) => { ok: true } | { ok: false; error: string };
+  onDelete: (id: string) => void;
+  onSaveSeries: (original: Task | undefined, edited: Task, scope: SeriesScope) => BatchResult;
+  onDeleteSeries: (task: Task, scope: SeriesScope) => BatchResult;
+  onSaveTemplates: (templates: TaskTemplate[]) => void;
+  onCheckQuote?: (task: Task) => string | null;
+}
+
+// Vue d'une journée : blocs larges avec la description complète ; clic sur un créneau pour créer.
+export default function DayView(props: DayViewProps) {
+  const { dateISO, settings, tasks, dayTasks, clients, projectsByClient, quotesByClient, types, onUpsert, onDelete, onSaveSeries, onDeleteSeries, onSaveTemplates, onCheckQuote } = props;
+  const step = slotStep(settings);
+  const slotH = HOUR_H * step;
+  const slots = useMemo(() => timeSlots(settings), [settings]);
+  const lanes = useMemo(() => layoutLanes(dayTasks), [dayTasks]);
+  const clientNames = useMemo(() => clients.filter(c => !c.archived).map(c => c.name), [clients]);
+
+  const [modal, setModal] = useState<{ startHour: number; task?: Task } | null>(null);
+
+  const date = parseISODate(dateISO);
+  const title = date.toLocaleDateString('fr-FR', { weekday: 'long', day: 'numeric', month: 'long', year: 'numeric' });
+
+  return (
+    <div className="border rounded-md">
+      <div className="flex items-center justify-between px-4 py-2 border-b bg-muted/40">
+        <div className="font-medium capitalize">{title}</div>
+        <div className="text-sm text-muted-foreground">{dayTasks.length} tâche(s) · {formatHours(countHours(dayTasks, settings.hoursMode))}</div>
+      </div>
+      <div className="flex">
+        <div className="w-16 shrink-0 border-r">
+          {slots.map(h => (
+            <div key={h} className="text-xs text-muted-foreground text-right pr-2" style={{ height: slotH }}>
+              {Number.isInteger(h) ? formatTime(h) : ''}
+            </div>
+          ))}
+        </div>
+        <div className="relative flex-1">
+          {slots.map(h => (
+            <div
+              key={h}
+              className={`${Number.isInteger(h) ? 'border-t' : 'border-t border-dashed border-muted'} hover:bg-accent/40 cursor-pointer`}
+              style={{ height: slotH }}
+              onClick={() => setModal({ startHour: h })}
+            />
+          ))}
+          {dayTasks.map(t => {
+            const { lane, lanes: laneCount } = lanes.get(t.id) ?? { lane: 0, lanes: 1 };
+            const isBillable = t.category === 'FACTURABLE';
+            const hex = isBillable ? getClientHex(clients, t.client) : undefined;
+            const colors = hex ? deriveColors(hex) : undefined;
+            const overlapping = findConflicts(t, tasks).length > 0;
+            // Outside the configured hours: pinned to the visible range and flagged
+            const span = visibleSpan(t.startHour, t.endHour, settings);
+            const clipped = span.clippedStart || span.clippedEnd;
+            return (
+              <div
+                key={t.id}
+                className={`absolute rounded-md border shadow-sm overflow-hidden cursor-pointer hover:shadow-md p-2 text-sm space-y-1 ${overlapping ? 'ring-2 ring-[hsl(var(--warning))]' : ''} ${clipped ? 'border-dashed' : ''} ${isBillable ? '' : 'bg-gray-100 border-gray-300'}`}
+                style={{
+                  top: (span.start - settings.startHour) * HOUR_H,
+                  height: (span.end - span.start) * HOUR_H,
+                  left: `calc(${(lane / laneCount) * 100}% + 4px)`,
+                  width: `calc(${100 / laneCount}% - 8px)`,
+                  ...(colors ? { backgroundColor: colors.bg, borderColor: colors.border, color: colors.text } : {}),
+                }}
+                onClick={() => setModal({ startHour: t.startHour, task: t })}
+              >
+                <div className="flex items-center justify-between gap-2">
+                  <div className="font-medium truncate">
+                    {t.seriesId && <Repeat className="inline w-3 h-3 mr-1 -mt-0.5" aria-label="Tâche récurrente" />}
+                    {isBillable ? [t.client, t.project].filter(Boolean).join(' — ') : t.type}
+                  </div>
+                  {isBillable && (
+                    <Badge variant="secondary" className={`${t.billed ? 'bg-[hsl(var(--success))] text-[hsl(var(--success-foreground))]' : 'bg-[hsl(var(--warning))] text-[hsl(var(--warning-foreground))]'}`}>
+                      {t.billed ? 'Facturée' : 'À facturer'}
+                    </Badge>
+                  )}
+                </div>
+                <div className={`text-xs ${clipped ? 'text-destructive font-medium' : 'opacity-80'}`} title={clipped ? 'Hors des heures affichées' : undefined}>
+                  {span.clippedStart && '▲ '}{formatTime(t.startHour)} → {formatTime(t.endHour)} · {formatHours(t.endHour - t.startHour)}{span.clippedEnd && ' ▼'}
+                  {t.quote && <span>{' — '}Devis {t.quote}</span>}
+                </div>
+                {t.description && <div className="whitespace-pre-wrap break-words">{t.description}</div>}
+              </div>
+            );
+          })}
+        </div>
+      </div>
+
+      <TaskModal
+        open={!!modal}
+        mode={modal?.task ? 'edit' : 'create'}
+        dateISO={dateISO}
+        startHour={modal?.startHour ?? settings.startHour}
+        settings={settings}
+        existingTask={modal?.task}
+        clients={clientNames}
+        projectsByClient={projectsByClient}
+        quotesByClient={quotesByClient}
+        types={types}
+        onClose={() => setModal(null)}
+        onSave={onUpsert}
+        onSaveSeries={onSaveSeries}
+        onDelete={(id) => { onDelete(id); setModal(null); }}
+        onDeleteSeries={onDeleteSeries}
+        onCheckQuote={onCheckQuote}
+        onSaveTemplate={(tpl) => {
+          onSaveTemplates([tpl]);
+          toast({ title: 'Modèle enregistré', description: `« ${tpl.name} »` });
+        }}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,86 @@
+import { useState } from 'react';
+import { Task } from '@/types';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { addDays, formatDateFR, isoDate } from '@/utils/date';
+import { tasksToICS } from '@/utils/ics';
+
+type Scope = 'week' | 'range' | 'all';
+
+export interface ICSExportProps {
+  tasks: Task[];
+  weekStart: Date;
+}
+
+// Export iCalendar : semaine affichée, période libre ou tout l'historique
+export default function ICSExport({ tasks, weekStart }: ICSExportProps) {
+  const [open, setOpen] = useState(false);
+  const [scope, setScope] = useState<Scope>('week');
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+
+  const weekFrom = isoDate(weekStart);
+  const weekTo = isoDate(addDays(weekStart, 6));
+  const selected = scope === 'all'
+    ? tasks
+    : tasks.filter(t => (scope === 'week' ? t.dateISO >= weekFrom && t.dateISO <= weekTo : t.dateISO >= from && t.dateISO <= to));
+
+  const openDialog = () => {
+    setFrom(weekFrom);
+    setTo(weekTo);
+    setOpen(true);
+  };
+
+  const download = () => {
+    const name = scope === 'all' ? 'agenda_complet' : scope === 'week' ? `agenda_semaine_${weekFrom}` : `agenda_${from}_${to}`;
+    const blob = new Blob([tasksToICS(selected)], { type: 'text/calendar;charset=utf-8' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url; a.download = `${name}.ics`; a.click();
+    URL.revokeObjectURL(url);
+    setOpen(false);
+  };
+
+  return (
+    <>
+      <Button variant="outline" onClick={openDialog}>Export .ics…</Button>
+      <Dialog open={open} onOpenChange={setOpen}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>Exporter vers un agenda</DialogTitle>
+            <DialogDescription>Fichier iCalendar (.ics) lisible par Google Agenda, Outlook ou Calendrier.</DialogDescription>
+          </DialogHeader>
+          <RadioGroup value={scope} onValueChange={(v) => setScope(v as Scope)} className="space-y-1">
+            <div className="flex items-center space-x-2">
+              <RadioGroupItem value="week" id="ics-week" />
+              <Label htmlFor="ics-week">Semaine du {formatDateFR(weekFrom)}</Label>
+            </div>
+            <div className="flex items-center space-x-2">
+              <RadioGroupItem value="range" id="ics-range" />
+              <Label htmlFor="ics-range">Période</Label>
+            </div>
+            <div className="flex items-center space-x-2">
+              <RadioGroupItem value="all" id="ics-all" />
+              <Label htmlFor="ics-all">Tout</Label>
+            </div>
+          </RadioGroup>
+          {scope === 'range' && (
+            <div className="flex items-center gap-2">
+              <Input type="date" value={from} onChange={(e) => setFrom(e.target.value)} aria-label="Du" />
+              <span className="text-sm">→</span>
+              <Input type="date" value={to} onChange={(e) => setTo(e.target.value)} aria-label="Au" />
+            </div>
+          )}
+          <div className="text-sm text-muted-foreground">{selected.length} tâche(s) exportée(s).</div>
+          <DialogFooter>
+            <Button variant="secondary" onClick={() => setOpen(false)}>Annuler</Button>
+            <Button onClick={download} disabled={selected.length === 0}>Télécharger</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
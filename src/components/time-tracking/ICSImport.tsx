@@ -0,0 +1,245 @@
+import { useMemo, useRef, useState } from 'react';
+import { Category, Task } from '@/types';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useToast } from '@/hooks/use-toast';
+import { CalendarPlus } from 'lucide-react';
+import { normalizeClient } from '@/utils/color';
+import { addDays, formatDateFR, formatTime, isoDate } from '@/utils/date';
+import { ICSEvent, eventSlot, parseICS } from '@/utils/ics';
+import { RowOutcome, describeSlot, planImport } from '@/utils/import-plan';
+import { Settings } from '@/utils/settings';
+import { activityLabel } from '@/utils/totals';
+import { newTaskId } from '@/utils/tasks';
+import { BatchResult } from './BulkActionBar';
+
+export interface ICSImportProps {
+  tasks: Task[];
+  settings: Settings;
+  clients: string[];
+  types: string[];
+  weekStart: Date;
+  onImport: (before: Task[], after: Task[], label: string, title: string) => BatchResult;
+}
+
+interface Choice {
+  selected: boolean;
+  category: Category;
+  value: string; // client pour le facturable, type sinon
+}
+
+const eventKey = (e: ICSEvent) => `${e.uid}|${e.start.getTime()}`;
+
+// Import des événements d'un agenda : choix des événements, de leur catégorie et de leur client ou type.
+export default function ICSImport({ tasks, settings, clients, types, weekStart, onImport }: ICSImportProps) {
+  const { toast } = useToast();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [file, setFile] = useState<{ name: string; text: string } | null>(null);
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+  const [choices, setChoices] = useState<Record<string, Choice>>({});
+  const [errors, setErrors] = useState<string[]>([]);
+
+  const parsed = useMemo(() => (file && from && to ? parseICS(file.text, from, to) : { events: [], allDay: 0 }), [file, from, to]);
+
+  // Un événement dont le titre cite un client connu lui est rattaché par défaut
+  const defaultChoice = (e: ICSEvent): Choice => {
+    const client = clients.find(c => normalizeClient(e.summary).includes(normalizeClient(c)));
+    return client ? { selected: false, category: 'FACTURABLE', value: client } : { selected: false, category: 'NON_FACTURABLE', value: 'Réunion' };
+  };
+  const choiceOf = (e: ICSEvent) => choices[eventKey(e)] ?? defaultChoice(e);
+  const update = (e: ICSEvent, patch: Partial<Choice>) => setChoices(prev => ({ ...prev, [eventKey(e)]: { ...choiceOf(e), ...patch } }));
+
+  const rows = parsed.events.map(event => {
+    const slot = eventSlot(event, settings);
+    const choice = choiceOf(event);
+    let task: Task | null = null;
+    if (!('error' in slot) && choice.value.trim()) {
+      const billable = choice.category === 'FACTURABLE';
+      task = {
+        id: newTaskId(),
+        ...slot,
+        category: choice.category,
+        client: billable ? choice.value.trim() : undefined,
+        type: billable ? undefined : choice.value.trim(),
+        description: [event.summary, event.location].filter(Boolean).join(' — ') || undefined,
+        billed: billable ? false : undefined,
+      };
+    }
+    return { event, slot, choice, task };
+  });
+
+  const picked = rows.filter(r => r.choice.selected && r.task);
+  // Doublons et chevauchements : les événements concernés sont ignorés
+  const plan = planImport(picked.map(r => r.task as Task), tasks, () => 'skip', settings);
+  const outcomeByKey = new Map<string, RowOutcome>(picked.map((r, i) => [eventKey(r.event), plan.outcomes[i]]));
+
+  const handleFileSelect = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = event.target.files?.[0];
+    event.target.value = '';
+    if (!selected) return;
+    const text = await selected.text();
+    if (!/BEGIN:VCALENDAR/i.test(text)) {
+      toast({ title: 'Erreur d\'import', description: 'Ce fichier n\'est pas un agenda iCalendar (.ics)', variant: 'destructive' });
+      return;
+    }
+    setFrom(isoDate(weekStart));
+    setTo(isoDate(addDays(weekStart, 6)));
+    setChoices({});
+    setErrors([]);
+    setFile({ name: selected.name, text });
+  };
+
+  const selectAll = (selected: boolean) => {
+    setChoices(prev => {
+      const next = { ...prev };
+      rows.forEach(r => { if (!('error' in r.slot)) next[eventKey(r.event)] = { ...r.choice, selected }; });
+      return next;
+    });
+  };
+
+  const handleImport = () => {
+    if (plan.after.length === 0) return;
+    const res = onImport([], plan.after, `Import ${file?.name} (${plan.after.length} événement(s))`, 'Import terminé');
+    if ('errors' in res) {
+      setErrors(res.errors);
+      return;
+    }
+    setFile(null);
+  };
+
+  const renderStatus = (row: typeof rows[number]) => {
+    if ('error' in row.slot) return <span className="text-destructive">{row.slot.error}</span>;
+    if (!row.choice.selected) return null;
+    if (!row.task) return <span className="text-destructive">{row.choice.category === 'FACTURABLE' ? 'Client' : 'Type'} requis</span>;
+    const outcome = outcomeByKey.get(eventKey(row.event));
+    if (outcome?.status === 'duplicate') return <span className="text-muted-foreground">Déjà présente</span>;
+    if (outcome?.status === 'conflict') {
+      const c = outcome.conflicts[0];
+      return <span className="text-destructive">Chevauche {activityLabel(c)} {describeSlot(c)} : ignoré</span>;
+    }
+    return <span>Nouvelle</span>;
+  };
+
+  return (
+    <div>
+      <input ref={fileInputRef} type="file" accept=".ics,text/calendar" onChange={handleFileSelect} className="hidden" />
+      <Button variant="outline" onClick={() => fileInputRef.current?.click()}>
+        <CalendarPlus className="w-4 h-4 mr-2" />
+        Importer .ics
+      </Button>
+
+      <Dialog open={!!file} onOpenChange={(o) => !o && setFile(null)}>
+        <DialogContent className="max-w-5xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Importer un agenda</DialogTitle>
+            <DialogDescription>
+              {file?.name} — cochez les événements à transformer en tâches. Les répétitions sont développées sur la période choisie.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            <div className="flex items-end gap-3 flex-wrap">
+              <div className="space-y-1">
+                <Label htmlFor="ics-from">Du</Label>
+                <Input id="ics-from" type="date" value={from} onChange={(e) => setFrom(e.target.value)} className="w-44" />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="ics-to">Au</Label>
+                <Input id="ics-to" type="date" value={to} onChange={(e) => setTo(e.target.value)} className="w-44" />
+              </div>
+              <Button variant="outline" onClick={() => selectAll(true)}>Tout cocher</Button>
+              <Button variant="ghost" onClick={() => selectAll(false)}>Tout décocher</Button>
+            </div>
+
+            <div className="border rounded-md max-h-96 overflow-y-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-10" />
+                    <TableHead>Événement</TableHead>
+                    <TableHead>Catégorie</TableHead>
+                    <TableHead>Client / type</TableHead>
+                    <TableHead>Import</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {rows.length === 0 && (
+                    <TableRow><TableCell colSpan={5} className="text-muted-foreground">Aucun événement minuté sur cette période.</TableCell></TableRow>
+                  )}
+                  {rows.map(row => {
+                    const disabled = 'error' in row.slot;
+                    return (
+                      <TableRow key={eventKey(row.event)} className={disabled ? 'opacity-60' : undefined}>
+                        <TableCell>
+                          <Checkbox checked={row.choice.selected} disabled={disabled} onCheckedChange={(v) => update(row.event, { selected: Boolean(v) })} aria-label={`Importer ${row.event.summary}`} />
+                        </TableCell>
+                        <TableCell>
+                          <div className="font-medium">{row.event.summary || 'Sans titre'}</div>
+                          <div className="text-xs text-muted-foreground">
+                            {formatDateFR(isoDate(row.event.start))} {formatTime(row.event.start.getHours() + row.event.start.getMinutes() / 60)}
+                            {' → '}{formatTime(row.event.end.getHours() + row.event.end.getMinutes() / 60)}
+                          </div>
+                        </TableCell>
+                        <TableCell>
+                          <select
+                            className="h-8 border rounded-md px-2 text-sm"
+                            value={row.choice.category}
+                            disabled={disabled}
+                            onChange={(e) => update(row.event, { category: e.target.value as Category, value: '' })}
+                            aria-label="Catégorie"
+                          >
+                            <option value="FACTURABLE">Facturable</option>
+                            <option value="NON_FACTURABLE">Non facturable</option>
+                          </select>
+                        </TableCell>
+                        <TableCell>
+                          <Input
+                            className="h-8 w-44"
+                            value={row.choice.value}
+                            disabled={disabled}
+                            list={row.choice.category === 'FACTURABLE' ? 'ics-clients-dl' : 'ics-types-dl'}
+                            onChange={(e) => update(row.event, { value: e.target.value })}
+                            aria-label={row.choice.category === 'FACTURABLE' ? 'Client' : 'Type'}
+                          />
+                        </TableCell>
+                        <TableCell className="text-sm">{renderStatus(row)}</TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+              <datalist id="ics-clients-dl">{clients.map(c => <option key={c} value={c} />)}</datalist>
+              <datalist id="ics-types-dl">{types.map(t => <option key={t} value={t} />)}</datalist>
+            </div>
+
+            <div className="text-sm text-muted-foreground">
+              {rows.length} événement(s) sur la période, {plan.after.length} à importer
+              {parsed.allDay > 0 && ` ; ${parsed.allDay} événement(s) sur la journée entière ignoré(s)`}.
+            </div>
+
+            {errors.length > 0 && (
+              <Alert variant="destructive">
+                <AlertDescription>
+                  <ul className="list-disc pl-4 max-h-32 overflow-y-auto">
+                    {errors.map((e, i) => <li key={i}>{e}</li>)}
+                  </ul>
+                </AlertDescription>
+              </Alert>
+            )}
+          </div>
+
+          <DialogFooter>
+            <Button variant="secondary" onClick={() => setFile(null)}>Annuler</Button>
+            <Button onClick={handleImport} disabled={plan.after.length === 0}>Importer {plan.after.length} tâche(s)</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,87 @@
+import { useMemo } from 'react';
+import { Task, Client } from '@/types';
+import { getClientHex } from '@/utils/clients';
+import { deriveColors } from '@/utils/color';
+import { addDays, endOfMonth, formatHours, getMonday, isoDate, startOfMonth } from '@/utils/date';
+import { Settings } from '@/utils/settings';
+import { countHours, totalsBy } from '@/utils/totals';
+
+const WEEKDAY_HEADERS = ['Lun', 'Mar', 'Mer', 'Jeu', 'Ven', 'Sam', 'Dim'];
+const NON_BILLABLE_HEX = '#d1d5db';
+
+export interface MonthViewProps {
+  month: Date; // n'importe quel jour du mois affiché
+  settings: Settings;
+  tasks: Task[]; // filtres appliqués
+  clients: Client[];
+  onOpenDay: (date: Date) => void;
+}
+
+// Calendrier mensuel : total du jour et une barre par client, proportionnelle aux heures.
+export default function MonthView({ month, settings, tasks, clients, onOpenDay }: MonthViewProps) {
+  const first = startOfMonth(month);
+  const last = endOfMonth(month);
+  const todayISO = isoDate(new Date());
+
+  // Semaines complètes du lundi précédant le 1er au dimanche suivant le dernier jour
+  const days: Date[] = [];
+  for (let d = getMonday(first); d <= last || days.length % 7 !== 0; d = addDays(d, 1)) days.push(d);
+
+  const byDay = useMemo(() => {
+    const map = new Map<string, Task[]>();
+    tasks.forEach(t => map.set(t.dateISO, [...(map.get(t.dateISO) ?? []), t]));
+    return map;
+  }, [tasks]);
+
+  const monthTasks = tasks.filter(t => t.dateISO >= isoDate(first) && t.dateISO <= isoDate(last));
+
+  return (
+    <div className="border rounded-md">
+      <div className="flex items-center justify-between px-4 py-2 border-b bg-muted/40">
+        <div className="font-medium capitalize">{first.toLocaleDateString('fr-FR', { month: 'long', year: 'numeric' })}</div>
+        <div className="text-sm text-muted-foreground">Total du mois : {formatHours(countHours(monthTasks, settings.hoursMode))}</div>
+      </div>
+      <div className="grid grid-cols-7 text-xs text-muted-foreground border-b">
+        {WEEKDAY_HEADERS.map(d => <div key={d} className="px-2 py-1">{d}</div>)}
+      </div>
+      <div className="grid grid-cols-7">
+        {days.map(d => {
+          const iso = isoDate(d);
+          const list = byDay.get(iso) ?? [];
+          const total = countHours(list, settings.hoursMode);
+          const outside = d.getMonth() !== first.getMonth();
+          const hidden = !settings.weekDays.includes(d.getDay());
+          const bars = totalsBy(list, t => (t.category === 'FACTURABLE' ? t.client || 'Sans client' : 'Non facturable'));
+          const barTotal = bars.reduce((s, b) => s + b.hours, 0);
+          return (
+            <button
+              key={iso}
+              type="button"
+              onClick={() => onOpenDay(d)}
+              title={bars.map(b => `${b.key} : ${formatHours(b.hours)}`).join('\n') || undefined}
+              className={`h-24 border-b border-r p-1 text-left flex flex-col gap-1 hover:bg-accent/40 ${outside || hidden ? 'bg-muted/30 text-muted-foreground' : ''}`}
+            >
+              <div className="flex items-center justify-between text-xs">
+                <span className={iso === todayISO ? 'rounded-full bg-primary text-primary-foreground px-1.5' : ''}>{d.getDate()}</span>
+                {list.length > 0 && <span className="font-medium">{formatHours(total)}</span>}
+              </div>
+              {barTotal > 0 && (
+                <div className="mt-auto flex h-2 w-full overflow-hidden rounded-sm">
+                  {bars.map(b => (
+                    <div
+                      key={b.key}
+                      style={{
+                        width: `${(b.hours / barTotal) * 100}%`,
+                        backgroundColor: b.key === 'Non facturable' ? NON_BILLABLE_HEX : deriveColors(getClientHex(clients, b.key) ?? '').border,
+                      }}
+                    />
+                  ))}
+                </div>
+              )}
+            </button>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,49 @@
+import { ReactNode, useEffect } from 'react';
+import { Link } from 'react-router-dom';
+import { Printer } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+
+export interface PrintLayoutProps {
+  documentTitle: string; // proposé comme nom de fichier par « Enregistrer au format PDF »
+  backTo: string;
+  landscape?: boolean;
+  toolbar?: ReactNode;   // contrôles écran supplémentaires (sélecteur de mois...)
+  children: ReactNode;
+}
+
+export default function PrintLayout({ documentTitle, backTo, landscape, toolbar, children }: PrintLayoutProps) {
+  useEffect(() => {
+    document.title = documentTitle;
+  }, [documentTitle]);
+
+  return (
+    <main className="min-h-screen bg-white text-black">
+      {landscape && <style>{'@media print { @page { size: A4 landscape; } }'}</style>}
+      <div className="no-print border-b bg-background">
+        <div className="container py-4 flex items-center gap-3 flex-wrap">
+          <Button variant="secondary" asChild><Link to={backTo}>← Retour</Link></Button>
+          {toolbar}
+          <Button onClick={() => window.print()}>
+            <Printer className="w-4 h-4 mr-2" />
+            Imprimer / PDF
+          </Button>
+          <span className="text-sm text-muted-foreground">Choisissez « Enregistrer au format PDF » comme imprimante.</span>
+        </div>
+      </div>
+      <div className="mx-auto max-w-[1100px] p-6 print:p-0 print:max-w-none">{children}</div>
+    </main>
+  );
+}
+
+export function SignatureBlock({ left = 'Le prestataire', right = 'Le client' }: { left?: string; right?: string }) {
+  return (
+    <div className="mt-8 grid grid-cols-2 gap-8 print-avoid-break">
+      {[left, right].map(label => (
+        <div key={label} className="border border-gray-400 rounded p-3 h-32 flex flex-col justify-between">
+          <div className="text-sm font-medium">{label}</div>
+          <div className="text-xs text-gray-500">Date et signature</div>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,71 @@
+import { useMemo, useState } from 'react';
+import { Task } from '@/types';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { formatDateFR, formatTime } from '@/utils/date';
+import { Settings } from '@/utils/settings';
+import { activityLabel } from '@/utils/totals';
+import { parseQuickEntry } from '@/utils/quick-entry';
+
+export interface QuickEntryBarProps {
+  weekStart: Date;
+  settings: Settings;
+  clients: string[];
+  types: string[];
+  projectsByClient: Record<string, string[]>;
+  onSave: (task: Task, title?: string) => { ok: true } | { ok: false; error: string };
+}
+
+export default function QuickEntryBar({ weekStart, settings, clients, types, projectsByClient, onSave }: QuickEntryBarProps) {
+  const [line, setLine] = useState('');
+  const [saveError, setSaveError] = useState<string | null>(null);
+
+  const result = useMemo(
+    () => (line.trim() ? parseQuickEntry(line, { weekStart, settings, clients, types, projectsByClient }) : null),
+    [line, weekStart, settings, clients, types, projectsByClient],
+  );
+  const task = result?.task;
+
+  const submit = () => {
+    if (!task) return;
+    const res = onSave(task, 'Saisie rapide');
+    if ('error' in res) {
+      setSaveError(res.error);
+      return;
+    }
+    setLine('');
+    setSaveError(null);
+  };
+
+  return (
+    <div className="space-y-1">
+      <div className="flex items-center gap-2">
+        <Input
+          value={line}
+          onChange={(e) => { setLine(e.target.value); setSaveError(null); }}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') { e.preventDefault(); submit(); }
+            if (e.key === 'Escape') setLine('');
+          }}
+          placeholder={'Saisie rapide : mar 9h-11h30 ACME / Refonte DV-2025-004 "atelier UX"  ·  ven 14:00 2h Formation'}
+          aria-label="Saisie rapide"
+        />
+        <Button onClick={submit} disabled={!task}>Ajouter</Button>
+      </div>
+      {result && (
+        <div className="text-sm space-y-0.5 px-1">
+          {task && (
+            <div className="text-muted-foreground">
+              → {formatDateFR(task.dateISO)} {formatTime(task.startHour)}–{formatTime(task.endHour)} · {activityLabel(task)}
+              {task.quote && ` · ${task.quote}`}
+              {task.description && ` · « ${task.description} »`}
+              {task.category === 'NON_FACTURABLE' ? ' (non facturable)' : ''}
+            </div>
+          )}
+          {result.warnings.map(w => <div key={w} className="text-[hsl(var(--warning))]">⚠ {w}</div>)}
+          {[...result.errors, ...(saveError ? [saveError] : [])].map(e => <div key={e} className="text-destructive">{e}</div>)}
+        </div>
+      )}
+    </div>
+  );
+}
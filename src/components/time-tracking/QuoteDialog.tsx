@@ -0,0 +1,151 @@
+import { useEffect, useState } from 'react';
+import { Client, Quote, QuoteStatus } from '@/types';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Label } from '@/components/ui/label';
+import { Input } from '@/components/ui/input';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { normalizeClient } from '@/utils/color';
+import { QUOTE_STATUS_LABELS } from '@/utils/quotes';
+import { newTaskId } from '@/utils/tasks';
+
+type BudgetKind = 'hours' | 'amount';
+
+export interface QuoteDialogProps {
+  open: boolean;
+  quote?: Quote; // absent = création
+  quotes: Quote[];
+  clients: Client[];
+  onClose: () => void;
+  onSave: (quote: Quote, previous?: Quote) => void;
+}
+
+export default function QuoteDialog({ open, quote, quotes, clients, onClose, onSave }: QuoteDialogProps) {
+  const [clientKey, setClientKey] = useState('');
+  const [reference, setReference] = useState('');
+  const [budgetKind, setBudgetKind] = useState<BudgetKind>('hours');
+  const [budget, setBudget] = useState('');
+  const [validUntil, setValidUntil] = useState('');
+  const [status, setStatus] = useState<QuoteStatus>('DRAFT');
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    setClientKey(quote?.clientKey ?? '');
+    setReference(quote?.reference ?? '');
+    setBudgetKind(quote?.budgetAmount && !quote.budgetHours ? 'amount' : 'hours');
+    setBudget(String(quote?.budgetHours ?? quote?.budgetAmount ?? ''));
+    setValidUntil(quote?.validUntil ?? '');
+    setStatus(quote?.status ?? 'DRAFT');
+    setError(null);
+  }, [open, quote]);
+
+  const client = clients.find(c => c.key === clientKey);
+  // Un client archivé reste sélectionnable pour ses devis existants
+  const clientOptions = clients.filter(c => !c.archived || c.key === quote?.clientKey);
+
+  const handleSave = () => {
+    setError(null);
+    if (!client) {
+      setError('Client requis.');
+      return;
+    }
+    const ref = reference.trim();
+    if (!ref) {
+      setError('Référence requise.');
+      return;
+    }
+    if (quotes.some(q => q.id !== quote?.id && q.clientKey === client.key && normalizeClient(q.reference) === normalizeClient(ref))) {
+      setError('Ce client a déjà un devis avec cette référence.');
+      return;
+    }
+    const value = parseFloat(budget.replace(',', '.'));
+    if (!Number.isFinite(value) || value <= 0) {
+      setError(budgetKind === 'hours' ? 'Nombre d\'heures vendues invalide.' : 'Montant invalide.');
+      return;
+    }
+    onSave({
+      id: quote?.id ?? newTaskId(),
+      clientKey: client.key,
+      clientName: client.name,
+      reference: ref,
+      budgetHours: budgetKind === 'hours' ? value : undefined,
+      budgetAmount: budgetKind === 'amount' ? value : undefined,
+      validUntil: validUntil || undefined,
+      status,
+      createdISO: quote?.createdISO ?? new Date().toISOString(),
+    }, quote);
+    onClose();
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(o) => !o && onClose()}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{quote ? 'Éditer le devis' : 'Nouveau devis'}</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="quote-client">Client</Label>
+              <select id="quote-client" className="w-full h-10 border rounded-md px-3" value={clientKey} onChange={(e) => setClientKey(e.target.value)} disabled={!!quote}>
+                <option value="">— Choisir —</option>
+                {clientOptions.map(c => <option key={c.key} value={c.key}>{c.name}</option>)}
+              </select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="quote-reference">Référence</Label>
+              <Input id="quote-reference" value={reference} onChange={(e) => setReference(e.target.value)} placeholder="Ex: D-2025-014" />
+            </div>
+          </div>
+          {quote && normalizeClient(reference) !== normalizeClient(quote.reference) && reference.trim() && (
+            <p className="text-xs text-muted-foreground">Les tâches portant « {quote.reference} » seront renommées.</p>
+          )}
+
+          <div className="space-y-2">
+            <Label>Budget vendu</Label>
+            <RadioGroup value={budgetKind} onValueChange={(v) => setBudgetKind(v as BudgetKind)} className="flex gap-6">
+              <div className="flex items-center space-x-2">
+                <RadioGroupItem value="hours" id="quote-kind-hours" />
+                <Label htmlFor="quote-kind-hours">En heures</Label>
+              </div>
+              <div className="flex items-center space-x-2">
+                <RadioGroupItem value="amount" id="quote-kind-amount" />
+                <Label htmlFor="quote-kind-amount">En montant HT{client ? ` (${client.currency})` : ''}</Label>
+              </div>
+            </RadioGroup>
+            <Input inputMode="decimal" value={budget} onChange={(e) => setBudget(e.target.value)} placeholder={budgetKind === 'hours' ? 'Ex: 40' : 'Ex: 3400'} aria-label="Budget" />
+            {budgetKind === 'amount' && client && (
+              <p className="text-xs text-muted-foreground">
+                {client.hourlyRate
+                  ? `Converti en heures au taux de ${client.hourlyRate} ${client.currency}/h.`
+                  : 'Sans taux horaire sur la fiche client, le montant ne peut pas être converti en heures.'}
+              </p>
+            )}
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="quote-valid">Valable jusqu'au</Label>
+              <Input id="quote-valid" type="date" value={validUntil} onChange={(e) => setValidUntil(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="quote-status">Statut</Label>
+              <select id="quote-status" className="w-full h-10 border rounded-md px-3" value={status} onChange={(e) => setStatus(e.target.value as QuoteStatus)}>
+                {(Object.keys(QUOTE_STATUS_LABELS) as QuoteStatus[]).map(s => <option key={s} value={s}>{QUOTE_STATUS_LABELS[s]}</option>)}
+              </select>
+            </div>
+          </div>
+
+          {error && <div className="text-sm text-destructive-foreground bg-destructive/15 rounded px-3 py-2">{error}</div>}
+        </div>
+
+        <DialogFooter>
+          <Button variant="secondary" onClick={onClose}>Annuler</Button>
+          <Button onClick={handleSave}>Enregistrer</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,126 @@
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { HoursMode, HOURS_MODE_LABELS, Settings, SlotMinutes, SLOT_OPTIONS, WEEKDAY_LABELS, WEEKDAY_ORDER, normalizeSettings } from '@/utils/settings';
+import { pad } from '@/utils/date';
+
+export interface SettingsDialogProps {
+  open: boolean;
+  settings: Settings;
+  onClose: () => void;
+  onSave: (settings: Settings) => void;
+}
+
+export default function SettingsDialog({ open, settings, onClose, onSave }: SettingsDialogProps) {
+  const [draft, setDraft] = useState<Settings>(settings);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    setDraft(settings);
+    setError(null);
+  }, [open, settings]);
+
+  const toggleDay = (day: number, on: boolean) => {
+    setDraft(prev => ({
+      ...prev,
+      weekDays: WEEKDAY_ORDER.filter(d => (d === day ? on : prev.weekDays.includes(d))),
+    }));
+  };
+
+  const handleSave = () => {
+    if (draft.endHour <= draft.startHour) {
+      setError('La fin de journée doit suivre le début.');
+      return;
+    }
+    if (draft.weekDays.length === 0) {
+      setError('Choisissez au moins un jour.');
+      return;
+    }
+    onSave(normalizeSettings(draft));
+    onClose();
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(o) => !o && onClose()}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Réglages de l'agenda</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="settings-start">Début de journée</Label>
+              <select id="settings-start" className="w-full h-10 border rounded-md px-3" value={draft.startHour}
+                onChange={(e) => setDraft(prev => ({ ...prev, startHour: parseInt(e.target.value, 10) }))}>
+                {Array.from({ length: 24 }, (_, h) => <option key={h} value={h}>{pad(h)}:00</option>)}
+              </select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="settings-end">Fin de journée</Label>
+              <select id="settings-end" className="w-full h-10 border rounded-md px-3" value={draft.endHour}
+                onChange={(e) => setDraft(prev => ({ ...prev, endHour: parseInt(e.target.value, 10) }))}>
+                {Array.from({ length: 24 }, (_, i) => i + 1).map(h => <option key={h} value={h}>{pad(h)}:00</option>)}
+              </select>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Granularité</Label>
+            <RadioGroup value={String(draft.slotMinutes)} onValueChange={(v) => setDraft(prev => ({ ...prev, slotMinutes: parseInt(v, 10) as SlotMinutes }))} className="flex gap-6">
+              {SLOT_OPTIONS.map(m => (
+                <div key={m} className="flex items-center space-x-2">
+                  <RadioGroupItem value={String(m)} id={`slot-${m}`} />
+                  <Label htmlFor={`slot-${m}`}>{m} min</Label>
+                </div>
+              ))}
+            </RadioGroup>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Jours affichés</Label>
+            <div className="flex flex-wrap gap-4">
+              {WEEKDAY_ORDER.map(d => (
+                <div key={d} className="flex items-center space-x-2">
+                  <Checkbox id={`day-${d}`} checked={draft.weekDays.includes(d)} onCheckedChange={(v) => toggleDay(d, Boolean(v))} />
+                  <Label htmlFor={`day-${d}`}>{WEEKDAY_LABELS[d]}</Label>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Tâches simultanées</Label>
+            <div className="flex items-center space-x-2">
+              <Checkbox id="settings-overlap" checked={draft.allowOverlap} onCheckedChange={(v) => setDraft(prev => ({ ...prev, allowOverlap: Boolean(v) }))} />
+              <Label htmlFor="settings-overlap">Autoriser les chevauchements (affichés côte à côte et signalés)</Label>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Comptage des heures</Label>
+            <RadioGroup value={draft.hoursMode} onValueChange={(v) => setDraft(prev => ({ ...prev, hoursMode: v as HoursMode }))} className="flex gap-6">
+              {(Object.keys(HOURS_MODE_LABELS) as HoursMode[]).map(m => (
+                <div key={m} className="flex items-center space-x-2">
+                  <RadioGroupItem value={m} id={`hours-${m}`} />
+                  <Label htmlFor={`hours-${m}`}>{HOURS_MODE_LABELS[m]}</Label>
+                </div>
+              ))}
+            </RadioGroup>
+          </div>
+
+          {error && <div className="text-sm text-destructive-foreground bg-destructive/15 rounded px-3 py-2">{error}</div>}
+        </div>
+
+        <DialogFooter>
+          <Button variant="secondary" onClick={onClose}>Annuler</Button>
+          <Button onClick={handleSave}>Enregistrer</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,39 +1,29 @@
 import { useEffect, useMemo, useState } from 'react';
-import { Task, Category } from '@/types';
+import { Link } from 'react-router-dom';
+import { Task, Category, RecurrenceFreq, RecurrenceRule, TaskTemplate } from '@/types';
 import { Button } from '@/components/ui/button';
 import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
 import { Label } from '@/components/ui/label';
 import { Input } from '@/components/ui/input';
 import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
 import { Checkbox } from '@/components/ui/checkbox';
+import { formatHours, formatTime } from '@/utils/date';
+import { Settings, slotStep, timeSlots, WEEKDAY_LABELS, WEEKDAY_ORDER } from '@/utils/settings';
+import {
+  FREQ_LABELS, MONTH_WEEK_LABELS, SCOPE_LABELS, SeriesScope,
+  cleanRule, defaultRule, describeRule, occurrenceDates, validateRule,
+} from '@/utils/recurrence';
+import { newTaskId } from '@/utils/tasks';
+import { templateFromTask } from '@/utils/templates';
+import { BatchResult } from './BulkActionBar';
 
-const START_HOUR = 7;
-const END_HOUR = 20; // exclusive
-const HEADER_H = 40; // px
-const HOUR_H = 48;   // px
-
-function pad(n: number) {
-  return n < 10 ? `0${n}` : `${n}`;
-}
-
-function formatTime(hour: number): string {
-  const h = Math.floor(hour);
-  const m = (hour % 1) * 60;
-  return `${pad(h)}:${pad(m)}`;
+function getDurationOptions(startHour: number, settings: Settings) {
+  const step = slotStep(settings);
+  const max = Math.min(Math.round(12 / step), Math.round((settings.endHour - startHour) / step)); // 12h max
+  return Array.from({ length: Math.max(0, max) }, (_, i) => (i + 1) * step);
 }
 
-function timeSlotsArray() {
-  const arr: number[] = [];
-  for (let h = START_HOUR; h < END_HOUR; h += 0.5) {
-    arr.push(h);
-  }
-  return arr;
-}
-
-function getDurationOptions(startHour: number) {
-  const max = Math.min(24, (END_HOUR - startHour) * 2); // max 24 slots of 30min
-  return Array.from({ length: max }, (_, i) => (i + 1) * 0.5);
-}
+const NEW_CLIENT = '__new__';
 
 function titleForCategory(c: Category) {
   return c === 'FACTURABLE' ? 'Facturable' : 'Non facturable';
@@ -44,6 +34,8 @@ export interface TaskModalProps {
   mode: 'create' | 'edit';
   dateISO: string;
   startHour: number;
+  duration?: number; // durée proposée à la création (glisser sur plusieurs créneaux)
+  settings: Settings;
   existingTask?: Task;
   clients: string[];
   projectsByClient: Record<string, string[]>;
@@ -51,7 +43,11 @@ export interface TaskModalProps {
   types: string[];
   onClose: () => void;
   onSave: (task: Task) => { ok: true } | { ok: false; error: string };
+  onSaveSeries: (original: Task | undefined, edited: Task, scope: SeriesScope) => BatchResult;
   onDelete?: (id: string) => void;
+  onDeleteSeries: (task: Task, scope: SeriesScope) => BatchResult;
+  onSaveTemplate?: (template: TaskTemplate) => void;
+  onCheckQuote?: (task: Task) => string | null; // avertissement de budget du devis
 }
 
 export default function TaskModal(props: TaskModalProps) {
@@ -60,6 +56,8 @@ export default function TaskModal(props: TaskModalProps) {
     mode,
     dateISO,
     startHour,
+    duration: initialDuration = 1,
+    settings,
     existingTask,
     clients,
     projectsByClient,
@@ -67,7 +65,11 @@ export default function TaskModal(props: TaskModalProps) {
     types,
     onClose,
     onSave,
+    onSaveSeries,
     onDelete,
+    onDeleteSeries,
+    onSaveTemplate,
+    onCheckQuote,
   } = props;
 
   const [category, setCategory] = useState<Category>(existingTask?.category ?? 'FACTURABLE');
@@ -77,8 +79,14 @@ export default function TaskModal(props: TaskModalProps) {
   const [type, setType] = useState<string>(existingTask?.type ?? '');
   const [description, setDescription] = useState<string>(existingTask?.description ?? '');
   const [billed, setBilled] = useState<boolean>(existingTask?.billed ?? false);
-  const [duration, setDuration] = useState<number>(existingTask ? (existingTask.endHour - existingTask.startHour) : 1);
+  const [duration, setDuration] = useState<number>(existingTask ? (existingTask.endHour - existingTask.startHour) : initialDuration);
   const [error, setError] = useState<string | null>(null);
+  const [repeat, setRepeat] = useState(!!existingTask?.recurrence);
+  const [rule, setRule] = useState<RecurrenceRule>(existingTask?.recurrence ?? defaultRule(dateISO));
+  const [scope, setScope] = useState<SeriesScope>('ONE');
+  const [templateName, setTemplateName] = useState<string | null>(null); // null = champ masqué
+  const [newClientMode, setNewClientMode] = useState(false);
+  const noClients = clients.length === 0;
 
   const [localDateISO, setLocalDateISO] = useState<string>(dateISO);
   const [localStartHour, setLocalStartHour] = useState<number>(startHour);
@@ -93,11 +101,21 @@ export default function TaskModal(props: TaskModalProps) {
     setType(existingTask?.type ?? '');
     setDescription(existingTask?.description ?? '');
     setBilled(existingTask?.billed ?? false);
-    setDuration(existingTask ? (existingTask.endHour - existingTask.startHour) : 1);
+    setDuration(existingTask ? (existingTask.endHour - existingTask.startHour) : initialDuration);
     setLocalDateISO(dateISO);
     setLocalStartHour(startHour);
     setError(null);
-  }, [open, existingTask, dateISO, startHour]);
+    setRepeat(!!existingTask?.recurrence);
+    setRule(existingTask?.recurrence ?? defaultRule(existingTask?.dateISO ?? dateISO));
+    setScope('ONE');
+    setTemplateName(null);
+    setNewClientMode(noClients);
+  }, [open, existingTask, dateISO, startHour, initialDuration, noClients]);
+
+  // Clients actifs du registre, plus le client courant s'il a été archivé depuis
+  const clientOptions = useMemo(() => {
+    return client && !clients.includes(client) && !newClientMode ? [client, ...clients] : clients;
+  }, [client, clients, newClientMode]);
 
   const availableProjects = useMemo(() => {
     return client ? (projectsByClient[client] ?? []) : [];
@@ -107,9 +125,45 @@ export default function TaskModal(props: TaskModalProps) {
     return client ? (quotesByClient[client] ?? []) : [];
   }, [client, quotesByClient]);
 
-  const durationOptions = useMemo(() => getDurationOptions(localStartHour), [localStartHour]);
+  // Existing tasks may be off the current grid (granularity changed since): keep their values selectable
+  const durationOptions = useMemo(() => {
+    const opts = getDurationOptions(localStartHour, settings);
+    return opts.includes(duration) ? opts : [...opts, duration].sort((a, b) => a - b);
+  }, [localStartHour, settings, duration]);
+  const startOptions = useMemo(() => {
+    const opts = timeSlots(settings).filter(h => h + duration <= settings.endHour);
+    return opts.includes(localStartHour) ? opts : [...opts, localStartHour].sort((a, b) => a - b);
+  }, [settings, duration, localStartHour]);
   const endHour = localStartHour + duration;
 
+  // Budget du devis : simple avertissement, l'enregistrement reste possible
+  const quoteWarning = useMemo(() => {
+    if (!open || !onCheckQuote || category !== 'FACTURABLE' || !client.trim() || !quote.trim()) return null;
+    return onCheckQuote({
+      id: existingTask?.id ?? '',
+      dateISO: localDateISO,
+      startHour: localStartHour,
+      endHour,
+      category,
+      client: client.trim(),
+      quote: quote.trim(),
+    });
+  }, [open, onCheckQuote, category, client, quote, existingTask, localDateISO, localStartHour, endHour]);
+
+  const inSeries = !!existingTask?.seriesId;
+  // Sur une facture émise : catégorie, date et heures verrouillées, suppression impossible
+  const invoiced = !!existingTask?.invoiceId;
+  // Modifiée seule, une occurrence sort de la série : la règle n'est éditable que pour la série
+  const ruleEditable = !inSeries || scope !== 'ONE';
+  const occurrences = useMemo(
+    () => (repeat && ruleEditable ? occurrenceDates(cleanRule(rule), localDateISO).length : 0),
+    [repeat, ruleEditable, rule, localDateISO],
+  );
+  const updateRule = (patch: Partial<RecurrenceRule>) => setRule(prev => ({ ...prev, ...patch }));
+  const toggleRuleDay = (day: number, on: boolean) => {
+    setRule(prev => ({ ...prev, weekDays: WEEKDAY_ORDER.filter(d => (d === day ? on : prev.weekDays?.includes(d))) }));
+  };
+
   const handleCategoryChange = (value: Category) => {
     setCategory(value);
     if (value === 'NON_FACTURABLE') {
@@ -132,13 +186,22 @@ export default function TaskModal(props: TaskModalProps) {
       setError('Type requis.');
       return;
     }
-    if (endHour > END_HOUR) {
-      setError('La durée dépasse 20:00.');
+    if (endHour > settings.endHour) {
+      setError(`La durée dépasse ${formatTime(settings.endHour)}.`);
       return;
     }
 
+    const finalRule = repeat && ruleEditable ? cleanRule(rule) : undefined;
+    if (finalRule) {
+      const ruleError = validateRule(finalRule, localDateISO);
+      if (ruleError) {
+        setError(ruleError);
+        return;
+      }
+    }
+
     const task: Task = {
-      id: existingTask?.id ?? (typeof crypto !== 'undefined' && 'randomUUID' in crypto ? crypto.randomUUID() : `${Date.now()}_${Math.random().toString(36).slice(2)}`),
+      id: existingTask?.id ?? newTaskId(),
       dateISO: localDateISO,
       startHour: localStartHour,
       endHour,
@@ -149,16 +212,55 @@ export default function TaskModal(props: TaskModalProps) {
       type: category === 'NON_FACTURABLE' ? (type.trim() || undefined) : undefined,
       description: description.trim() ? description.trim() : undefined,
       billed: category === 'FACTURABLE' ? billed : undefined,
+      invoiceId: category === 'FACTURABLE' && billed ? existingTask?.invoiceId : undefined,
+      seriesId: existingTask?.seriesId,
+      recurrence: finalRule,
     };
 
-    const res = onSave(task);
-    if ('error' in res) {
-      setError(res.error);
+    if (!inSeries && !finalRule) {
+      const res = onSave(task);
+      if ('error' in res) {
+        setError(res.error);
+      } else {
+        onClose();
+      }
+      return;
+    }
+    const res = onSaveSeries(existingTask, task, scope);
+    if ('errors' in res) {
+      setError(res.errors.join('\n'));
     } else {
       onClose();
     }
   };
 
+  const handleSaveTemplate = () => {
+    const name = templateName?.trim();
+    if (!name || !onSaveTemplate) return;
+    onSaveTemplate(templateFromTask({
+      startHour: localStartHour,
+      endHour,
+      category,
+      client: category === 'FACTURABLE' ? (client.trim() || undefined) : undefined,
+      project: category === 'FACTURABLE' ? (project.trim() || undefined) : undefined,
+      quote: category === 'FACTURABLE' ? (quote.trim() || undefined) : undefined,
+      type: category === 'NON_FACTURABLE' ? (type.trim() || undefined) : undefined,
+      description: description.trim() || undefined,
+    }, name));
+    setTemplateName(null);
+  };
+
+  const handleDelete = () => {
+    if (!existingTask) return;
+    if (!inSeries) {
+      onDelete?.(existingTask.id);
+      return;
+    }
+    const res = onDeleteSeries(existingTask, scope);
+    if ('errors' in res) setError(res.errors.join('\n'));
+    else onClose();
+  };
+
   return (
     <Dialog open={open} onOpenChange={(o) => !o && onClose()}>
       <DialogContent className="max-w-lg">
@@ -169,7 +271,7 @@ export default function TaskModal(props: TaskModalProps) {
         <div className="space-y-4">
           <div className="space-y-2">
             <Label>Catégorie</Label>
-            <RadioGroup value={category} onValueChange={(v) => handleCategoryChange(v as Category)} className="flex gap-6">
+            <RadioGroup value={category} onValueChange={(v) => handleCategoryChange(v as Category)} disabled={invoiced} className="flex gap-6">
               <div className="flex items-center space-x-2">
                 <RadioGroupItem value="FACTURABLE" id="facturable" />
                 <Label htmlFor="facturable">FACTURABLE</Label>
@@ -185,12 +287,34 @@ export default function TaskModal(props: TaskModalProps) {
             <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
               <div className="space-y-2">
                 <Label htmlFor="client">Client (obligatoire)</Label>
-                <Input id="client" value={client} list="clients-dl" onChange={(e) => setClient(e.target.value)} placeholder="Ex: Client X" />
-                <datalist id="clients-dl">
-                  {clients.map((c) => (
-                    <option key={c} value={c} />
-                  ))}
-                </datalist>
+                {newClientMode ? (
+                  <div className="flex items-center gap-2">
+                    <Input id="client" value={client} onChange={(e) => setClient(e.target.value)} placeholder="Nouveau client" autoFocus />
+                    {clients.length > 0 && (
+                      <Button type="button" variant="ghost" size="sm" onClick={() => { setNewClientMode(false); setClient(''); }}>Liste</Button>
+                    )}
+                  </div>
+                ) : (
+                  <select
+                    id="client"
+                    className="w-full h-10 border rounded-md px-3"
+                    value={client}
+                    onChange={(e) => {
+                      if (e.target.value === NEW_CLIENT) {
+                        setNewClientMode(true);
+                        setClient('');
+                      } else {
+                        setClient(e.target.value);
+                      }
+                    }}
+                  >
+                    <option value="">— Choisir —</option>
+                    {clientOptions.map((c) => (
+                      <option key={c} value={c}>{c}</option>
+                    ))}
+                    <option value={NEW_CLIENT}>+ Nouveau client…</option>
+                  </select>
+                )}
               </div>
               <div className="space-y-2">
                 <Label htmlFor="project">Projet (optionnel)</Label>
@@ -211,8 +335,11 @@ export default function TaskModal(props: TaskModalProps) {
                 </datalist>
               </div>
               <div className="flex items-center space-x-2">
-                <Checkbox id="billed" checked={billed} onCheckedChange={(v) => setBilled(Boolean(v))} />
+                <Checkbox id="billed" checked={billed} onCheckedChange={(v) => setBilled(Boolean(v))} disabled={invoiced} />
                 <Label htmlFor="billed">Facturée</Label>
+                {existingTask?.invoiceId && billed && (
+                  <Link to={`/factures/${existingTask.invoiceId}`} className="text-xs underline text-muted-foreground">Voir la facture</Link>
+                )}
               </div>
             </div>
           ) : (
@@ -235,36 +362,131 @@ export default function TaskModal(props: TaskModalProps) {
           <div className="grid grid-cols-3 gap-4">
             <div className="space-y-2">
               <Label>Date</Label>
-              <Input type="date" value={localDateISO} onChange={(e) => setLocalDateISO(e.target.value)} />
+              <Input type="date" value={localDateISO} disabled={invoiced || (inSeries && scope === 'ALL')} onChange={(e) => setLocalDateISO(e.target.value)} />
             </div>
             <div className="space-y-2">
               <Label>Début</Label>
               <select
                 className="w-full h-10 border rounded-md px-3"
                 value={localStartHour}
+                disabled={invoiced}
                 onChange={(e) => setLocalStartHour(parseFloat(e.target.value))}
               >
-                {timeSlotsArray().filter(h => h + duration <= END_HOUR).map((h) => (
+                {startOptions.map((h) => (
                   <option key={h} value={h}>{formatTime(h)}</option>
                 ))}
               </select>
             </div>
             <div className="space-y-2">
               <Label>Durée (h)</Label>
-              <select className="w-full h-10 border rounded-md px-3" value={duration} onChange={(e) => setDuration(parseFloat(e.target.value))}>
+              <select className="w-full h-10 border rounded-md px-3" value={duration} disabled={invoiced} onChange={(e) => setDuration(parseFloat(e.target.value))}>
                 {durationOptions.map((d) => (
-                  <option key={d} value={d}>{d === Math.floor(d) ? `${d}h` : `${d}h`}</option>
+                  <option key={d} value={d}>{formatHours(d)}</option>
                 ))}
               </select>
             </div>
           </div>
+          {invoiced && (
+            <p className="text-xs text-muted-foreground">Tâche figurant sur une facture émise : catégorie, date et heures sont verrouillées.</p>
+          )}
+
+          {inSeries && (
+            <div className="space-y-2">
+              <Label>Appliquer à</Label>
+              <RadioGroup value={scope} onValueChange={(v) => setScope(v as SeriesScope)} className="flex flex-wrap gap-x-6 gap-y-1">
+                {(Object.keys(SCOPE_LABELS) as SeriesScope[]).map(sc => (
+                  <div key={sc} className="flex items-center space-x-2">
+                    <RadioGroupItem value={sc} id={`scope-${sc}`} />
+                    <Label htmlFor={`scope-${sc}`}>{SCOPE_LABELS[sc]}</Label>
+                  </div>
+                ))}
+              </RadioGroup>
+              <p className="text-xs text-muted-foreground">
+                {scope === 'ONE'
+                  ? "L'occurrence modifiée sortira de la série."
+                  : 'Les occurrences déjà facturées ne sont ni modifiées ni supprimées.'}
+              </p>
+            </div>
+          )}
+
+          {ruleEditable && (
+            <div className="space-y-3 border rounded-md p-3">
+              <div className="flex items-center space-x-2">
+                <Checkbox id="repeat" checked={repeat} onCheckedChange={(v) => setRepeat(Boolean(v))} />
+                <Label htmlFor="repeat">Répéter</Label>
+                {repeat && <span className="text-xs text-muted-foreground">{describeRule(cleanRule(rule))} · {occurrences} occurrence(s)</span>}
+              </div>
+              {repeat && (
+                <>
+                  <div className="flex items-center gap-2 flex-wrap">
+                    <select className="h-9 border rounded-md px-2 text-sm" value={rule.freq} onChange={(e) => updateRule({ freq: e.target.value as RecurrenceFreq })} aria-label="Fréquence">
+                      {(Object.keys(FREQ_LABELS) as RecurrenceFreq[]).map(f => <option key={f} value={f}>{FREQ_LABELS[f]}</option>)}
+                    </select>
+                    {rule.freq === 'MONTHLY' && (
+                      <>
+                        <span className="text-sm">le</span>
+                        <select className="h-9 border rounded-md px-2 text-sm" value={rule.monthWeek ?? 1} onChange={(e) => updateRule({ monthWeek: parseInt(e.target.value, 10) })} aria-label="Semaine du mois">
+                          {[1, 2, 3, 4, -1].map(n => <option key={n} value={n}>{MONTH_WEEK_LABELS[n]}</option>)}
+                        </select>
+                        <select className="h-9 border rounded-md px-2 text-sm" value={rule.monthWeekDay ?? 1} onChange={(e) => updateRule({ monthWeekDay: parseInt(e.target.value, 10) })} aria-label="Jour de la semaine">
+                          {WEEKDAY_ORDER.map(d => <option key={d} value={d}>{WEEKDAY_LABELS[d].toLowerCase()}</option>)}
+                        </select>
+                      </>
+                    )}
+                  </div>
+                  {rule.freq === 'WEEKLY' && (
+                    <div className="flex flex-wrap gap-3">
+                      {WEEKDAY_ORDER.map(d => (
+                        <div key={d} className="flex items-center space-x-1">
+                          <Checkbox id={`rule-day-${d}`} checked={!!rule.weekDays?.includes(d)} onCheckedChange={(v) => toggleRuleDay(d, Boolean(v))} />
+                          <Label htmlFor={`rule-day-${d}`} className="text-sm">{WEEKDAY_LABELS[d].slice(0, 3)}</Label>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                  <div className="flex items-center gap-2 flex-wrap">
+                    <select
+                      className="h-9 border rounded-md px-2 text-sm"
+                      value={rule.until !== undefined ? 'until' : 'count'}
+                      onChange={(e) => updateRule(e.target.value === 'until' ? { until: localDateISO, count: undefined } : { until: undefined, count: rule.count ?? 10 })}
+                      aria-label="Fin de la répétition"
+                    >
+                      <option value="count">Nombre de fois</option>
+                      <option value="until">Jusqu'au</option>
+                    </select>
+                    {rule.until !== undefined ? (
+                      <Input type="date" className="h-9 w-44" value={rule.until} onChange={(e) => updateRule({ until: e.target.value })} />
+                    ) : (
+                      <Input type="number" className="h-9 w-24" min={1} value={rule.count ?? ''} onChange={(e) => updateRule({ count: parseInt(e.target.value, 10) || undefined })} />
+                    )}
+                  </div>
+                </>
+              )}
+            </div>
+          )}
+
+          {onSaveTemplate && (
+            templateName === null ? (
+              <button type="button" className="text-xs underline text-muted-foreground" onClick={() => setTemplateName(description.trim() || client.trim() || type.trim())}>
+                Enregistrer comme modèle…
+              </button>
+            ) : (
+              <div className="flex items-center gap-2">
+                <Input className="h-9" value={templateName} onChange={(e) => setTemplateName(e.target.value)} placeholder="Nom du modèle" autoFocus
+                  onKeyDown={(e) => { if (e.key === 'Enter') { e.preventDefault(); handleSaveTemplate(); } }} />
+                <Button type="button" size="sm" variant="secondary" disabled={!templateName.trim()} onClick={handleSaveTemplate}>Enregistrer le modèle</Button>
+                <Button type="button" size="sm" variant="ghost" onClick={() => setTemplateName(null)}>Annuler</Button>
+              </div>
+            )
+          )}
 
-          {error && <div className="text-sm text-destructive-foreground bg-destructive/15 rounded px-3 py-2">{error}</div>}
+          {quoteWarning && <div className="text-sm bg-[hsl(var(--warning)/0.2)] rounded px-3 py-2">{quoteWarning}</div>}
+          {error && <div className="text-sm text-destructive-foreground bg-destructive/15 rounded px-3 py-2 whitespace-pre-line max-h-40 overflow-y-auto">{error}</div>}
         </div>
 
         <DialogFooter className="justify-between">
           {mode === 'edit' && existingTask && onDelete ? (
-            <Button variant="destructive" onClick={() => onDelete(existingTask.id)}>Supprimer</Button>
+            <Button variant="destructive" onClick={handleDelete} disabled={invoiced} title={invoiced ? 'Tâche figurant sur une facture' : undefined}>Supprimer</Button>
           ) : <div />}
           <div className="flex gap-2">
             <Button variant="secondary" onClick={onClose}>Annuler</Button>
@@ -0,0 +1,57 @@
+import { TaskTemplate } from '@/types';
+import { toast } from '@/components/ui/use-toast';
+import { formatHours } from '@/utils/date';
+import { exportTemplatesJSON, parseTemplatesJSON, templateSummary } from '@/utils/templates';
+
+export interface TemplateManagerProps {
+  templates: TaskTemplate[];
+  onSave: (templates: TaskTemplate[]) => void;
+  onDelete: (id: string) => void;
+}
+
+// Liste des modèles sous le planning, avec export/import JSON
+export default function TemplateManager({ templates, onSave, onDelete }: TemplateManagerProps) {
+  const exportTemplates = () => {
+    const blob = new Blob([exportTemplatesJSON(templates)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url; a.download = 'modeles-taches.json'; a.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const onImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    try {
+      const list = parseTemplatesJSON(await file.text());
+      onSave(list);
+      toast({ title: 'Modèles importés', description: `${list.length} modèle(s) ajouté(s) ou mis à jour` });
+    } catch (err) {
+      toast({ title: 'Import impossible', description: err instanceof Error ? err.message : 'Fichier JSON de modèles invalide.', variant: 'destructive' });
+    } finally { e.target.value = ''; }
+  };
+
+  return (
+    <section aria-label="Modèles de tâches" className="mt-6">
+      <h2 className="mb-2">Modèles de tâches</h2>
+      <div className="flex items-center gap-3 mb-2">
+        <button type="button" onClick={exportTemplates} className="text-xs underline" disabled={templates.length === 0}>Exporter</button>
+        <label className="text-xs underline cursor-pointer">
+          Importer
+          <input type="file" accept="application/json" onChange={onImport} className="hidden" />
+        </label>
+        <span className="text-xs text-muted-foreground">Survolez un créneau puis Ctrl/⌘+K pour insérer un modèle.</span>
+      </div>
+      {templates.length === 0 && <p className="text-sm text-muted-foreground">Aucun modèle. Utilisez « Enregistrer comme modèle » dans la fiche d'une tâche.</p>}
+      <div className="flex flex-col gap-2">
+        {templates.map(tpl => (
+          <div key={tpl.id} className="flex items-center gap-3">
+            <span className="text-sm font-medium">{tpl.name}</span>
+            <span className="flex-1 truncate text-sm text-muted-foreground">{templateSummary(tpl)} · {formatHours(tpl.duration)}</span>
+            <button type="button" onClick={() => onDelete(tpl.id)} className="text-xs text-muted-foreground hover:underline">Supprimer</button>
+          </div>
+        ))}
+      </div>
+    </section>
+  );
+}
@@ -0,0 +1,36 @@
+import { TaskTemplate } from '@/types';
+import { CommandDialog, CommandEmpty, CommandGroup, CommandInput, CommandItem, CommandList, CommandShortcut } from '@/components/ui/command';
+import { formatDateFR, formatHours, formatTime } from '@/utils/date';
+import { templateSummary } from '@/utils/templates';
+
+export interface TemplatePaletteProps {
+  open: boolean;
+  target: { dateISO: string; hour: number } | null; // créneau survolé à l'ouverture
+  templates: TaskTemplate[];
+  onClose: () => void;
+  onApply: (template: TaskTemplate) => void;
+}
+
+export default function TemplatePalette({ open, target, templates, onClose, onApply }: TemplatePaletteProps) {
+  return (
+    <CommandDialog open={open} onOpenChange={(o) => !o && onClose()}>
+      <CommandInput placeholder={target ? `Insérer le ${formatDateFR(target.dateISO)} à ${formatTime(target.hour)}…` : 'Rechercher un modèle…'} />
+      <CommandList>
+        <CommandEmpty>
+          {templates.length === 0 ? 'Aucun modèle. Enregistrez une tâche comme modèle depuis sa fiche.' : 'Aucun modèle correspondant.'}
+        </CommandEmpty>
+        <CommandGroup heading="Modèles">
+          {templates.map(tpl => (
+            <CommandItem key={tpl.id} value={`${tpl.name} ${templateSummary(tpl)} ${tpl.id}`} onSelect={() => onApply(tpl)}>
+              <div className="flex flex-col min-w-0">
+                <span className="font-medium truncate">{tpl.name}</span>
+                <span className="text-xs text-muted-foreground truncate">{templateSummary(tpl)}</span>
+              </div>
+              <CommandShortcut>{formatHours(tpl.duration)}</CommandShortcut>
+            </CommandItem>
+          ))}
+        </CommandGroup>
+      </CommandList>
+    </CommandDialog>
+  );
+}
@@ -0,0 +1,204 @@
+import { useEffect, useMemo, useState } from 'react';
+import { Play, Square, X } from 'lucide-react';
+import { Task, Category, RunningTimer } from '@/types';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { useToast } from '@/hooks/use-toast';
+import { loadTimer, saveTimer } from '@/utils/storage';
+import { Settings, snapHour, slotStep } from '@/utils/settings';
+import { findConflicts } from '@/utils/overlap';
+import { formatTime, isoDate, pad } from '@/utils/date';
+import { newTaskId } from '@/utils/tasks';
+
+export interface TimerWidgetProps {
+  settings: Settings;
+  tasks: Task[];
+  clients: string[];
+  projectsByClient: Record<string, string[]>;
+  types: string[];
+  onSave: (task: Task, title?: string) => { ok: true } | { ok: false; error: string };
+}
+
+const hourOf = (d: Date) => d.getHours() + d.getMinutes() / 60 + d.getSeconds() / 3600;
+
+function formatElapsed(ms: number) {
+  const total = Math.max(0, Math.floor(ms / 1000));
+  return `${pad(Math.floor(total / 3600))}:${pad(Math.floor((total % 3600) / 60))}:${pad(total % 60)}`;
+}
+
+// Tâche qui serait créée si on arrêtait maintenant : calée sur la granularité et la journée de travail.
+function projectTask(timer: RunningTimer, now: Date, settings: Settings) {
+  const started = new Date(timer.startedAt);
+  const step = slotStep(settings);
+  const sameDay = isoDate(started) === isoDate(now);
+  const rawStart = hourOf(started);
+  const rawEnd = sameDay ? hourOf(now) : 24;
+  let startHour = Math.max(settings.startHour, snapHour(rawStart, settings));
+  let endHour = snapHour(rawEnd, settings);
+  const crossesEnd = rawEnd > settings.endHour;
+  endHour = Math.min(settings.endHour, endHour);
+  if (endHour <= startHour) endHour = startHour + step;
+  if (endHour > settings.endHour) {
+    endHour = settings.endHour;
+    startHour = Math.min(startHour, endHour - step);
+  }
+  const task: Task = {
+    id: newTaskId(),
+    dateISO: isoDate(started),
+    startHour,
+    endHour,
+    category: timer.category,
+    client: timer.category === 'FACTURABLE' ? timer.client : undefined,
+    project: timer.category === 'FACTURABLE' ? timer.project : undefined,
+    quote: timer.category === 'FACTURABLE' ? timer.quote : undefined,
+    type: timer.category === 'NON_FACTURABLE' ? timer.type : undefined,
+    description: timer.description,
+    billed: timer.category === 'FACTURABLE' ? false : undefined,
+  };
+  // Entièrement hors de la journée de travail : le créneau calé n'aurait rien à voir avec le temps réel
+  const outside = startHour >= rawEnd || endHour <= rawStart;
+  return { task, crossesEnd, crossesDay: !sameDay, outside };
+}
+
+export default function TimerWidget({ settings, tasks, clients, projectsByClient, types, onSave }: TimerWidgetProps) {
+  const { toast } = useToast();
+  const [timer, setTimer] = useState<RunningTimer | null>(null);
+  const [now, setNow] = useState(() => new Date());
+  // A failed read may hide a running timer: starting would overwrite it
+  const [loadError, setLoadError] = useState<string | null>(null);
+
+  // Form for the next timer
+  const [category, setCategory] = useState<Category>('FACTURABLE');
+  const [client, setClient] = useState('');
+  const [project, setProject] = useState('');
+  const [type, setType] = useState('');
+  const [description, setDescription] = useState('');
+
+  useEffect(() => {
+    loadTimer()
+      .then(setTimer)
+      .catch((e) => {
+        const message = e instanceof Error ? e.message : String(e);
+        setLoadError(message);
+        toast({ title: 'Chronomètre illisible', description: message, variant: 'destructive' });
+      });
+  }, [toast]);
+
+  useEffect(() => {
+    if (!timer) return;
+    setNow(new Date());
+    const id = window.setInterval(() => setNow(new Date()), 1000);
+    return () => window.clearInterval(id);
+  }, [timer]);
+
+  const persist = (next: RunningTimer | null) => {
+    setTimer(next);
+    saveTimer(next).catch((e) => {
+      toast({ title: 'Chronomètre non sauvegardé', description: e instanceof Error ? e.message : String(e), variant: 'destructive' });
+    });
+  };
+
+  const projection = useMemo(() => (timer ? projectTask(timer, now, settings) : null), [timer, now, settings]);
+  const conflicts = useMemo(() => (projection ? findConflicts(projection.task, tasks) : []), [projection, tasks]);
+
+  const start = () => {
+    if (loadError) return;
+    if (category === 'FACTURABLE' && !client.trim()) {
+      toast({ title: 'Client requis', description: 'Choisissez un client avant de démarrer.', variant: 'destructive' });
+      return;
+    }
+    if (category === 'NON_FACTURABLE' && !type.trim()) {
+      toast({ title: 'Type requis', description: 'Choisissez un type avant de démarrer.', variant: 'destructive' });
+      return;
+    }
+    persist({
+      startedAt: new Date().toISOString(),
+      category,
+      client: category === 'FACTURABLE' ? client.trim() : undefined,
+      project: category === 'FACTURABLE' ? (project.trim() || undefined) : undefined,
+      type: category === 'NON_FACTURABLE' ? type.trim() : undefined,
+      description: description.trim() || undefined,
+    });
+  };
+
+  const stop = () => {
+    if (!timer) return;
+    const { task, outside } = projectTask(timer, new Date(), settings);
+    if (outside) {
+      toast({
+        title: 'Enregistrement impossible',
+        description: `Le chronomètre a tourné hors de la journée de travail (${formatTime(settings.startHour)}–${formatTime(settings.endHour)}). Ajustez les horaires dans les réglages ou abandonnez-le.`,
+        variant: 'destructive',
+      });
+      return;
+    }
+    const res = onSave(task, 'Chronomètre enregistré');
+    if ('error' in res) {
+      // Keep the timer so nothing is lost; the user can fix the grid then stop again, or discard
+      toast({ title: 'Enregistrement impossible', description: res.error, variant: 'destructive' });
+      return;
+    }
+    persist(null);
+    setDescription('');
+  };
+
+  if (timer && projection) {
+    const label = timer.category === 'FACTURABLE'
+      ? [timer.client, timer.project].filter(Boolean).join(' — ')
+      : timer.type;
+    return (
+      <div className="flex items-center gap-3 flex-wrap border rounded-md px-3 py-2">
+        <span className="inline-block w-2 h-2 rounded-full bg-destructive animate-pulse" aria-hidden />
+        <span className="font-mono tabular-nums">{formatElapsed(now.getTime() - new Date(timer.startedAt).getTime())}</span>
+        <span className="text-sm font-medium">{label}</span>
+        {timer.description && <span className="text-sm text-muted-foreground truncate max-w-xs">{timer.description}</span>}
+        {projection.outside ? (
+          <span className="text-xs text-destructive">Hors de la journée de travail : ne peut pas être enregistré.</span>
+        ) : (
+          <span className="text-xs text-muted-foreground">
+            → {projection.task.dateISO} {formatTime(projection.task.startHour)}–{formatTime(projection.task.endHour)}
+          </span>
+        )}
+        {!projection.outside && (projection.crossesEnd || projection.crossesDay) && (
+          <span className="text-xs text-[hsl(var(--warning))]">Dépasse {formatTime(settings.endHour)} : la tâche sera tronquée.</span>
+        )}
+        {!projection.outside && conflicts.length > 0 && (
+          <span className="text-xs text-destructive">Chevauche {conflicts.length} tâche(s) existante(s).</span>
+        )}
+        <Button size="sm" onClick={stop}><Square className="w-4 h-4 mr-1" />Arrêter</Button>
+        <Button size="sm" variant="ghost" onClick={() => persist(null)} title="Abandonner sans enregistrer"><X className="w-4 h-4" /></Button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex items-center gap-2 flex-wrap">
+      <select className="h-9 border rounded-md px-2 text-sm" value={category} onChange={(e) => setCategory(e.target.value as Category)} aria-label="Catégorie du chronomètre">
+        <option value="FACTURABLE">Facturable</option>
+        <option value="NON_FACTURABLE">Non facturable</option>
+      </select>
+      {category === 'FACTURABLE' ? (
+        <>
+          <select className="h-9 border rounded-md px-2 text-sm" value={client} onChange={(e) => { setClient(e.target.value); setProject(''); }} aria-label="Client">
+            <option value="">Client…</option>
+            {clients.map(c => <option key={c} value={c}>{c}</option>)}
+          </select>
+          <Input className="h-9 w-40" value={project} list="timer-projects-dl" onChange={(e) => setProject(e.target.value)} placeholder="Projet" />
+          <datalist id="timer-projects-dl">
+            {(projectsByClient[client] ?? []).map(p => <option key={p} value={p} />)}
+          </datalist>
+        </>
+      ) : (
+        <>
+          <Input className="h-9 w-40" value={type} list="timer-types-dl" onChange={(e) => setType(e.target.value)} placeholder="Type" />
+          <datalist id="timer-types-dl">
+            {types.map(t => <option key={t} value={t} />)}
+          </datalist>
+        </>
+      )}
+      <Input className="h-9 w-48" value={description} maxLength={140} onChange={(e) => setDescription(e.target.value)} placeholder="Description" />
+      <Button size="sm" onClick={start} disabled={!!loadError} title={loadError ? 'Chronomètre enregistré illisible : rechargez la page' : undefined}><Play className="w-4 h-4 mr-1" />Démarrer</Button>
+      {loadError && <span className="text-xs text-destructive">Chronomètre indisponible : {loadError}</span>}
+    </div>
+  );
+}
@@ -0,0 +1,120 @@
+import { useMemo } from 'react';
+import { Task, Client } from '@/types';
+import { deriveColors } from '@/utils/color';
+import { getClientHex } from '@/utils/clients';
+import { formatHours, formatTime, isoDate, pad } from '@/utils/date';
+import { activityLabel, countHours, totalsBy } from '@/utils/totals';
+import { HoursMode, Settings, visibleWeekDates } from '@/utils/settings';
+import { layoutLanes } from '@/utils/overlap';
+
+const PRINT_BODY_H = 480; // px, tient sur un A4 paysage
+
+function dayLabel(date: Date) {
+  const weekdays = ['Dim', 'Lun', 'Mar', 'Mer', 'Jeu', 'Ven', 'Sam'];
+  return `${weekdays[date.getDay()]} ${pad(date.getDate())}/${pad(date.getMonth() + 1)}`;
+}
+
+export interface WeekSheetProps {
+  weekStart: Date; // Monday
+  settings: Settings;
+  tasks: Task[];
+  clients: Client[];
+  hoursMode?: HoursMode; // par défaut celui des réglages
+}
+
+// Rendu statique de la semaine, même disposition que WeeklyGrid, pour l'impression.
+export default function WeekSheet({ weekStart, settings, tasks, clients, hoursMode = settings.hoursMode }: WeekSheetProps) {
+  const { startHour, endHour } = settings;
+  const hoursOf = (list: Task[]) => countHours(list, hoursMode);
+  const hourH = Math.min(48, Math.floor(PRINT_BODY_H / (endHour - startHour)));
+  const weekDays = useMemo(() => visibleWeekDates(weekStart, settings), [weekStart, settings]);
+  const hours = useMemo(() => Array.from({ length: endHour - startHour }, (_, i) => startHour + i), [startHour, endHour]);
+  const byProject = useMemo(() => totalsBy(tasks, activityLabel), [tasks]);
+  const billable = useMemo(() => countHours(tasks.filter(t => t.category === 'FACTURABLE'), hoursMode), [tasks, hoursMode]);
+  const nonBillable = useMemo(() => countHours(tasks.filter(t => t.category !== 'FACTURABLE'), hoursMode), [tasks, hoursMode]);
+  const gridCols = `56px repeat(${weekDays.length}, 1fr)`;
+
+  return (
+    <div className="text-xs">
+      <div className="grid border-b border-gray-400" style={{ gridTemplateColumns: gridCols }}>
+        <div />
+        {weekDays.map(d => {
+          const dayTasks = tasks.filter(t => t.dateISO === isoDate(d));
+          return (
+            <div key={isoDate(d)} className="py-1 text-center border-l border-gray-300">
+              <div className="font-semibold">{dayLabel(d)}</div>
+              <div className="text-gray-600">{formatHours(hoursOf(dayTasks))}</div>
+            </div>
+          );
+        })}
+      </div>
+
+      <div className="grid" style={{ gridTemplateColumns: gridCols }}>
+        <div>
+          {hours.map(h => (
+            <div key={h} className="border-b border-gray-200 text-right pr-1" style={{ height: hourH }}>{pad(h)}:00</div>
+          ))}
+        </div>
+        {weekDays.map(d => {
+          const dateISO = isoDate(d);
+          const dayTasks = tasks.filter(t => t.dateISO === dateISO);
+          const lanes = layoutLanes(dayTasks);
+          return (
+            <div key={dateISO} className="relative border-l border-gray-300">
+              {hours.map(h => <div key={h} className="border-b border-gray-200" style={{ height: hourH }} />)}
+              {dayTasks.map(t => {
+                const isBillable = t.category === 'FACTURABLE';
+                const { lane, lanes: laneCount } = lanes.get(t.id)!;
+                const colors = isBillable && t.client ? deriveColors(getClientHex(clients, t.client)!) : null;
+                return (
+                  <div
+                    key={t.id}
+                    className={`absolute rounded border px-1 overflow-hidden leading-tight ${isBillable ? '' : 'bg-gray-100 border-gray-400'}`}
+                    style={{
+                      top: (t.startHour - startHour) * hourH,
+                      left: `calc(${(lane / laneCount) * 100}% + 2px)`,
+                      width: `calc(${100 / laneCount}% - 4px)`,
+                      height: (t.endHour - t.startHour) * hourH - 1,
+                      ...(colors ? { backgroundColor: colors.bg, borderColor: colors.border, color: colors.text } : {}),
+                    }}
+                  >
+                    <div className="font-medium truncate">{activityLabel(t)}</div>
+                    {t.endHour - t.startHour >= 1 && (
+                      <div className="truncate opacity-80">{formatTime(t.startHour)}–{formatTime(t.endHour)}{t.description ? ` · ${t.description}` : ''}</div>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          );
+        })}
+      </div>
+
+      <div className="mt-4 grid grid-cols-2 gap-6 print-avoid-break">
+        <table className="w-full border-collapse">
+          <thead>
+            <tr className="border-b border-gray-400">
+              <th className="text-left py-1">Client — Projet / Type</th>
+              <th className="text-right py-1">Heures</th>
+            </tr>
+          </thead>
+          <tbody>
+            {byProject.map(r => (
+              <tr key={r.key} className="border-b border-gray-200">
+                <td className="py-0.5">{r.key}</td>
+                <td className="text-right py-0.5">{formatHours(r.hours)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        <table className="w-full border-collapse self-start">
+          <tbody>
+            <tr className="border-b border-gray-200"><td className="py-0.5">Facturable</td><td className="text-right">{formatHours(billable)}</td></tr>
+            <tr className="border-b border-gray-200"><td className="py-0.5">Non facturable</td><td className="text-right">{formatHours(nonBillable)}</td></tr>
+            <tr className="font-semibold"><td className="py-0.5">Total semaine{hoursMode === 'WALL' ? ' (temps réel)' : ''}</td><td className="text-right">{formatHours(hoursOf(tasks))}</td></tr>
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
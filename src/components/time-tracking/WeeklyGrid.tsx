@@ -1,129 +1,128 @@
-import { useMemo, useState, useEffect } from 'react';
-import { Task, Category } from '@/types';
+import { useMemo, useState, useEffect, useRef } from 'react';
+import { Link } from 'react-router-dom';
+import { Copy, Repeat } from 'lucide-react';
+import { Task, Category, Client, ClientColorMap, TaskTemplate } from '@/types';
 import TaskModal from './TaskModal';
+import BulkActionBar, { BatchResult } from './BulkActionBar';
+import TemplatePalette from './TemplatePalette';
+import TemplateManager from './TemplateManager';
 import { Badge } from '@/components/ui/badge';
-import { normalizeClient, deriveColors, getDefaultColorForClient } from '@/utils/color';
+import { deriveColors, getDefaultColorForClient } from '@/utils/color';
+import { findClient, getClientHex as registryHex } from '@/utils/clients';
 import { toast } from '@/components/ui/use-toast';
+import { formatHours, formatTime, isoDate, pad } from '@/utils/date';
+import { Settings, slotStep, timeSlots as settingsTimeSlots, visibleSpan, visibleWeekDates } from '@/utils/settings';
+import { findConflicts, layoutLanes } from '@/utils/overlap';
+import { HoursBreakdown, billablePercent, hoursBreakdown } from '@/utils/totals';
+import { SeriesScope, describeRule, detachOccurrence } from '@/utils/recurrence';
+import { taskFromTemplate } from '@/utils/templates';
+import { copyTask } from '@/utils/tasks';
 import { TooltipProvider, Tooltip, TooltipTrigger, TooltipContent } from '@/components/ui/tooltip';
-const START_HOUR = 7;
-const END_HOUR = 20; // exclusive
-const HEADER_H = 40; // px
+const HEADER_H = 56; // px (day label + daily totals)
 const HOUR_H = 60;   // px (increased from 48 for better readability)
-const SLOT_H = HOUR_H / 2; // 30px per 30-minute slot
-
-function pad(n: number) { return n < 10 ? `0${n}` : `${n}`; }
-
-function formatTime(hour: number): string {
-  const h = Math.floor(hour);
-  const m = (hour % 1) * 60;
-  return `${pad(h)}:${pad(m)}`;
-}
-
-function isoDate(d: Date) {
-  const y = d.getFullYear();
-  const m = d.getMonth() + 1;
-  const day = d.getDate();
-  return `${y}-${pad(m)}-${pad(day)}`;
-}
-
-function addDays(d: Date, n: number) { const x = new Date(d); x.setDate(x.getDate() + n); return x; }
 
 function dayLabel(date: Date) {
   const weekdays = ['Dim', 'Lun', 'Mar', 'Mer', 'Jeu', 'Ven', 'Sam'];
   return `${weekdays[date.getDay()]} ${pad(date.getDate())}/${pad(date.getMonth() + 1)}`;
 }
 
+function breakdownLabel(b: HoursBreakdown) {
+  return `${formatHours(b.total)} · ${billablePercent(b)} % facturable (${formatHours(b.billable)} F, ${formatHours(b.nonBillable)} NF) · ${formatHours(b.unbilled)} à facturer`;
+}
+
 export interface WeeklyGridProps {
   weekStart: Date; // Monday
+  settings: Settings;
   tasks: Task[];
   filteredTasks: Task[];
-  clients: string[];
+  clients: Client[];
+  onClientsChange: (clients: Client[]) => void;
   projectsByClient: Record<string, string[]>;
   quotesByClient: Record<string, string[]>;
   types: string[];
-  onUpsert: (task: Task) => { ok: true } | { ok: false; error: string };
+  onUpsert: (task: Task, title?: string) => { ok: true } | { ok: false; error: string };
   onDelete: (id: string) => void;
+  onBatch: (before: Task[], after: Task[], label: string, title: string) => BatchResult;
+  onCopyDay: (dateISO: string) => void;
+  onSaveSeries: (original: Task | undefined, edited: Task, scope: SeriesScope) => BatchResult;
+  onDeleteSeries: (task: Task, scope: SeriesScope) => BatchResult;
+  templates: TaskTemplate[];
+  onSaveTemplates: (templates: TaskTemplate[]) => void;
+  onDeleteTemplate: (id: string) => void;
+  onCheckQuote?: (task: Task) => string | null;
+  openTaskId?: string; // tâche ouverte d'après l'adresse (/tache/:id)
+  onOpenTask?: (id: string | undefined) => void;
 }
 
 export default function WeeklyGrid(props: WeeklyGridProps) {
-  const { weekStart, tasks, filteredTasks, clients, projectsByClient, quotesByClient, types, onUpsert, onDelete } = props;
-  const weekDays = useMemo(() => Array.from({ length: 6 }, (_, i) => addDays(weekStart, i)), [weekStart]);
-  const hours = useMemo(() => Array.from({ length: END_HOUR - START_HOUR }, (_, i) => START_HOUR + i), []);
-  const timeSlots = useMemo(() => {
-    const slots = [];
-    for (let h = START_HOUR; h < END_HOUR; h += 0.5) {
-      slots.push(h);
-    }
-    return slots;
-  }, []);
+  const { weekStart, settings, tasks, filteredTasks, clients, onClientsChange, projectsByClient, quotesByClient, types, onUpsert, onDelete, onBatch, onCopyDay, onSaveSeries, onDeleteSeries, templates, onSaveTemplates, onDeleteTemplate, onCheckQuote, openTaskId, onOpenTask } = props;
+  const { startHour: dayStart, endHour: dayEnd } = settings;
+  const step = slotStep(settings);
+  const slotH = HOUR_H * step; // px per slot
+  const weekDays = useMemo(() => visibleWeekDates(weekStart, settings), [weekStart, settings]);
+  const hours = useMemo(() => Array.from({ length: dayEnd - dayStart }, (_, i) => dayStart + i), [dayStart, dayEnd]);
+  const timeSlots = useMemo(() => settingsTimeSlots(settings), [settings]);
 
   const [modalOpen, setModalOpen] = useState(false);
   const [modalMode, setModalMode] = useState<'create' | 'edit'>('create');
   const [modalDateISO, setModalDateISO] = useState('');
-  const [modalStartHour, setModalStartHour] = useState(START_HOUR);
+  const [modalStartHour, setModalStartHour] = useState(dayStart);
+  const [modalDuration, setModalDuration] = useState<number | undefined>(undefined);
   const [editingTask, setEditingTask] = useState<Task | undefined>(undefined);
 
-  type ClientColorMap = Record<string, { hex: string }>;
-  const LS_COLORS = 'tt.clientColors';
-  const [clientColors, setClientColors] = useState<ClientColorMap>(() => {
-    try { return JSON.parse(localStorage.getItem(LS_COLORS) || '{}'); } catch { return {}; }
-  });
-  useEffect(() => { localStorage.setItem(LS_COLORS, JSON.stringify(clientColors)); }, [clientColors]);
-  useEffect(() => {
-    setClientColors((prev) => {
-      let changed = false;
-      const next = { ...prev } as ClientColorMap;
-      clients.forEach((c) => {
-        if (!c) return;
-        const key = normalizeClient(c);
-        if (!next[key]) { next[key] = { hex: getDefaultColorForClient(c) }; changed = true; }
-      });
-      return changed ? next : prev;
-    });
-  }, [clients]);
-  const getClientHex = (client?: string) => {
-    if (!client) return undefined;
-    const key = normalizeClient(client);
-    return clientColors[key]?.hex || getDefaultColorForClient(client);
-  };
-  const setClientHex = (client: string, hex: string) => {
-    if (!client) return;
-    const key = normalizeClient(client);
-    setClientColors((prev) => ({ ...prev, [key]: { hex } }));
-  };
-  const resetClientHex = (client: string) => setClientHex(client, getDefaultColorForClient(client));
+  const activeClients = useMemo(() => clients.filter((c) => !c.archived), [clients]);
+  const clientNames = useMemo(() => activeClients.map((c) => c.name), [activeClients]);
+  const getClientHex = (client?: string) => registryHex(clients, client);
+
+  // Totals: filtered tasks first, unfiltered week alongside when a filter hides some
+  const weekISO = useMemo(() => weekDays.map(isoDate), [weekDays]);
+  const weekTasks = useMemo(() => tasks.filter(t => weekISO.includes(t.dateISO)), [tasks, weekISO]);
+  const isFiltered = filteredTasks.length !== weekTasks.length;
+  const dayTotals = useMemo(() => new Map(weekISO.map(iso => [iso, {
+    shown: hoursBreakdown(filteredTasks.filter(t => t.dateISO === iso), settings.hoursMode),
+    all: hoursBreakdown(weekTasks.filter(t => t.dateISO === iso), settings.hoursMode),
+  }])), [weekISO, filteredTasks, weekTasks, settings.hoursMode]);
+  const weekShown = useMemo(() => hoursBreakdown(filteredTasks, settings.hoursMode), [filteredTasks, settings.hoursMode]);
+  const weekAll = useMemo(() => hoursBreakdown(weekTasks, settings.hoursMode), [weekTasks, settings.hoursMode]);
+  const setClientHex = (client: Client, hex: string) => onClientsChange([{ ...client, color: hex }]);
+  const resetClientHex = (client: Client) => setClientHex(client, getDefaultColorForClient(client.name));
   const exportColors = () => {
-    const data = JSON.stringify(clientColors, null, 2);
+    const map: ClientColorMap = {};
+    clients.forEach((c) => { map[c.key] = { hex: c.color }; });
+    const data = JSON.stringify(map, null, 2);
     const blob = new Blob([data], { type: 'application/json' });
     const url = URL.createObjectURL(blob);
     const a = document.createElement('a');
     a.href = url; a.download = 'client-colors.json'; a.click();
     URL.revokeObjectURL(url);
   };
-  const onImportColors = async (e: any) => {
+  const onImportColors = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
     if (!file) return;
     try {
       const text = await file.text();
       const parsed = JSON.parse(text);
       if (parsed && typeof parsed === 'object') {
-        const sanitized: ClientColorMap = {};
-        Object.keys(parsed).forEach((k) => {
-          const v = (parsed as any)[k];
+        const updated: Client[] = [];
+        Object.entries(parsed as Record<string, { hex?: unknown }>).forEach(([k, v]) => {
           const hex = typeof v?.hex === 'string' ? v.hex : undefined;
-          const ok = !!hex && /^#([0-9a-f]{6})$/i.test(hex);
-          if (ok) sanitized[normalizeClient(k)] = { hex: hex! };
+          const client = findClient(clients, k);
+          if (client && hex && /^#([0-9a-f]{6})$/i.test(hex)) updated.push({ ...client, color: hex });
         });
-        setClientColors(sanitized);
+        onClientsChange(updated);
+        toast({ title: 'Couleurs importées', description: `${updated.length} client(s) mis à jour` });
       }
-    } catch {}
-    finally { e.target.value = ''; }
+    } catch {
+      toast({ title: 'Import impossible', description: 'Fichier JSON de couleurs invalide.', variant: 'destructive' });
+    } finally { e.target.value = ''; }
   };
 
   // Clipboard & hover state for copy/paste
   const [hoverTarget, setHoverTarget] = useState<{ dateISO: string; hour: number } | null>(null);
   const [hoveredTaskId, setHoveredTaskId] = useState<string | null>(null);
   const [copiedTask, setCopiedTask] = useState<Task | null>(null);
+  // Template palette opens on the hovered slot (Ctrl/⌘+K)
+  const [paletteTarget, setPaletteTarget] = useState<{ dateISO: string; hour: number } | null>(null);
 
   useEffect(() => {
     const handleKey = (e: KeyboardEvent) => {
@@ -131,7 +130,11 @@ export default function WeeklyGrid(props: WeeklyGridProps) {
       const isMeta = e.metaKey || e.ctrlKey;
       if (!isMeta) return;
 
-      if (key === 'c') {
+      if (key === 'k') {
+        e.preventDefault();
+        if (hoverTarget) setPaletteTarget(hoverTarget);
+        else toast({ title: 'Aucun créneau', description: 'Placez la souris sur un créneau avant Ctrl/⌘+K.' });
+      } else if (key === 'c') {
         if (hoveredTaskId) {
           const t = tasks.find((x) => x.id === hoveredTaskId);
           if (t) {
@@ -142,37 +145,133 @@ export default function WeeklyGrid(props: WeeklyGridProps) {
       } else if (key === 'v') {
         if (copiedTask && hoverTarget) {
           const duration = copiedTask.endHour - copiedTask.startHour;
-            // Modal default is 0.5h if less than 0.5h available
-            let start = Math.max(START_HOUR, Math.min(END_HOUR - 0.5, hoverTarget.hour));
-            const newTask: Task = {
-              ...copiedTask,
-              id: Math.random().toString(36).slice(2),
-              dateISO: hoverTarget.dateISO,
-              startHour: start,
-              endHour: start + duration,
-            };
-            const res = onUpsert(newTask);
-            if ('ok' in res && res.ok) {
-              toast({ title: 'Tâche collée', description: `${formatTime(newTask.startHour)} → ${formatTime(newTask.endHour)}` });
-          } else {
-            const err = (res as any)?.error || 'Conflit ou plage invalide.';
-            toast({ title: 'Collage impossible', description: err });
+          // Modal default is one slot if less than one slot available
+          const start = Math.max(dayStart, Math.min(dayEnd - step, hoverTarget.hour));
+          // A pasted copy is a new task: never billed, outside any series
+          const newTask: Task = {
+            ...copyTask(copiedTask, hoverTarget.dateISO),
+            startHour: start,
+            endHour: start + duration,
+          };
+          const res = onUpsert(newTask, 'Tâche collée');
+          if ('error' in res) {
+            toast({ title: 'Collage impossible', description: res.error || 'Conflit ou plage invalide.' });
           }
         }
       }
     };
     window.addEventListener('keydown', handleKey);
     return () => window.removeEventListener('keydown', handleKey);
-  }, [hoveredTaskId, hoverTarget, copiedTask, tasks, onUpsert]);
+  }, [hoveredTaskId, hoverTarget, copiedTask, tasks, onUpsert, dayStart, dayEnd, step]);
+
+  const applyTemplate = (tpl: TaskTemplate) => {
+    const target = paletteTarget;
+    setPaletteTarget(null);
+    if (!target) return;
+    const start = Math.max(dayStart, Math.min(dayEnd - tpl.duration, target.hour));
+    const res = onUpsert(taskFromTemplate(tpl, target.dateISO, start), `Modèle « ${tpl.name} » inséré`);
+    if ('error' in res) toast({ title: 'Insertion impossible', description: res.error, variant: 'destructive' });
+  };
 
-  const openCreate = (dateISO: string, startHour: number) => {
+  const openCreate = (dateISO: string, startHour: number, duration?: number) => {
     setModalMode('create');
     setEditingTask(undefined);
     setModalDateISO(dateISO);
     setModalStartHour(startHour);
+    setModalDuration(duration);
     setModalOpen(true);
   };
 
+  // Drag-to-create: press on a slot, drag down, release to open the modal with that range
+  const [selection, setSelection] = useState<{ dateISO: string; start: number; end: number } | null>(null);
+
+  // Multi-selection: Ctrl/⌘/Shift-click on tasks, or Shift-drag a lasso from an empty slot
+  const gridRef = useRef<HTMLDivElement>(null);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [lasso, setLasso] = useState<{ x1: number; y1: number; x2: number; y2: number } | null>(null);
+  const selectedTasks = useMemo(() => filteredTasks.filter((t) => selectedIds.has(t.id)), [filteredTasks, selectedIds]);
+
+  const toggleSelected = (id: string) => {
+    setSelectedIds((prev) => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id); else next.add(id);
+      return next;
+    });
+  };
+
+  useEffect(() => {
+    const handleKey = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') setSelectedIds(new Set());
+    };
+    window.addEventListener('keydown', handleKey);
+    return () => window.removeEventListener('keydown', handleKey);
+  }, []);
+
+  const startLasso = (e: React.MouseEvent) => {
+    const x1 = e.clientX;
+    const y1 = e.clientY;
+    let rect = { x1, y1, x2: x1, y2: y1 };
+    setLasso(rect);
+
+    const handleMove = (me: MouseEvent) => {
+      rect = { x1, y1, x2: me.clientX, y2: me.clientY };
+      setLasso(rect);
+    };
+
+    const handleUp = () => {
+      window.removeEventListener('mousemove', handleMove);
+      window.removeEventListener('mouseup', handleUp);
+      setLasso(null);
+      const left = Math.min(rect.x1, rect.x2), right = Math.max(rect.x1, rect.x2);
+      const top = Math.min(rect.y1, rect.y2), bottom = Math.max(rect.y1, rect.y2);
+      const hits: string[] = [];
+      gridRef.current?.querySelectorAll<HTMLElement>('[data-task-id]').forEach((el) => {
+        const r = el.getBoundingClientRect();
+        if (r.left < right && r.right > left && r.top < bottom && r.bottom > top) hits.push(el.dataset.taskId!);
+      });
+      setSelectedIds((prev) => new Set([...prev, ...hits]));
+    };
+
+    window.addEventListener('mousemove', handleMove);
+    window.addEventListener('mouseup', handleUp);
+  };
+
+  const onSlotMouseDown = (dateISO: string, slot: number) => (e: React.MouseEvent<HTMLButtonElement>) => {
+    if (e.button !== 0) return;
+    e.preventDefault();
+    if (e.shiftKey) {
+      startLasso(e);
+      return;
+    }
+    const column = e.currentTarget.parentElement?.parentElement as HTMLElement; // day column
+    // The range stops at the next task of the day (unfiltered) or at the end of the day
+    const limit = tasks
+      .filter((t) => t.dateISO === dateISO && t.startHour > slot)
+      .reduce((min, t) => Math.min(min, t.startHour), dayEnd);
+    let end = slot + step;
+    setSelection({ dateISO, start: slot, end });
+
+    const handleMove = (me: MouseEvent) => {
+      const y = me.clientY - column.getBoundingClientRect().top;
+      const next = Math.max(slot + step, Math.min(limit, dayStart + Math.ceil(y / slotH - 1e-9) * step));
+      if (next !== end) {
+        end = next;
+        setSelection({ dateISO, start: slot, end });
+      }
+    };
+
+    const handleUp = () => {
+      window.removeEventListener('mousemove', handleMove);
+      window.removeEventListener('mouseup', handleUp);
+      setSelection(null);
+      // A plain click keeps the modal's default duration
+      openCreate(dateISO, slot, end - slot > step ? end - slot : undefined);
+    };
+
+    window.addEventListener('mousemove', handleMove);
+    window.addEventListener('mouseup', handleUp);
+  };
+
   const openEdit = (task: Task) => {
     setModalMode('edit');
     setEditingTask(task);
@@ -181,30 +280,95 @@ export default function WeeklyGrid(props: WeeklyGridProps) {
     setModalOpen(true);
   };
 
+  // Task opened from the address: open its modal once the tasks are loaded, close it on back navigation
+  const openedTaskIdRef = useRef<string | undefined>(undefined);
+  useEffect(() => {
+    if (!openTaskId) {
+      if (openedTaskIdRef.current) setModalOpen(false);
+      openedTaskIdRef.current = undefined;
+      return;
+    }
+    if (openedTaskIdRef.current === openTaskId) return;
+    const task = tasks.find(t => t.id === openTaskId);
+    if (!task) return;
+    openedTaskIdRef.current = openTaskId;
+    setModalMode('edit');
+    setEditingTask(task);
+    setModalDateISO(task.dateISO);
+    setModalStartHour(task.startHour);
+    setModalOpen(true);
+  }, [openTaskId, tasks]);
+
+  const closeModal = () => {
+    setModalOpen(false);
+    if (openedTaskIdRef.current) onOpenTask?.(undefined);
+  };
+
   const today = new Date();
   const todayISO = isoDate(today);
 
   return (
     <div className="w-full overflow-x-auto">
-      <div className="min-w-[900px]">
+      {selectedTasks.length > 0 && (
+        <BulkActionBar
+          selected={selectedTasks}
+          clients={clientNames}
+          projectsByClient={projectsByClient}
+          quotesByClient={quotesByClient}
+          types={types}
+          onBatch={onBatch}
+          onClear={() => setSelectedIds(new Set())}
+        />
+      )}
+      {lasso && (
+        <div
+          className="fixed z-50 border border-primary bg-primary/10 pointer-events-none"
+          style={{
+            left: Math.min(lasso.x1, lasso.x2),
+            top: Math.min(lasso.y1, lasso.y2),
+            width: Math.abs(lasso.x2 - lasso.x1),
+            height: Math.abs(lasso.y2 - lasso.y1),
+          }}
+        />
+      )}
+      <div className="min-w-[900px]" ref={gridRef}>
 
         {/* Header row */}
-        <div className="grid" style={{ gridTemplateColumns: '120px repeat(6, 1fr)' }}>
-          <div className="h-10 box-border flex items-center justify-center text-sm font-medium border-b">Heures</div>
+        <div className="grid" style={{ gridTemplateColumns: `120px repeat(${weekDays.length}, 1fr)` }}>
+          <div className="h-14 box-border flex items-center justify-center text-sm font-medium border-b">Heures</div>
           {weekDays.map((d) => {
             const isToday = isoDate(d) === todayISO;
+            const totals = dayTotals.get(isoDate(d));
             return (
-              <div key={isoDate(d)} className="h-10 box-border flex items-center justify-center text-sm font-medium border-b">
-                <span className={isToday ? 'text-primary font-semibold' : ''}>
-                  {dayLabel(d)}
-                </span>
+              <div key={isoDate(d)} className="h-14 box-border flex flex-col items-center justify-center border-b group/day">
+                <div className="flex items-center gap-1 text-sm font-medium">
+                  <span className={isToday ? 'text-primary font-semibold' : ''}>
+                    {dayLabel(d)}
+                  </span>
+                  <button
+                    type="button"
+                    className="p-1 rounded text-muted-foreground opacity-0 group-hover/day:opacity-100 focus:opacity-100 hover:bg-accent"
+                    title="Dupliquer cette journée…"
+                    aria-label={`Dupliquer la journée du ${dayLabel(d)}`}
+                    onClick={() => onCopyDay(isoDate(d))}
+                  >
+                    <Copy className="w-3.5 h-3.5" />
+                  </button>
+                </div>
+                {totals && totals.all.total > 0 && (
+                  <div className="text-xs text-muted-foreground" title={isFiltered ? `Sans filtre : ${breakdownLabel(totals.all)}` : undefined}>
+                    <span className="font-medium text-foreground">{formatHours(totals.shown.total)}</span>
+                    {isFiltered && totals.shown.total !== totals.all.total && <span> / {formatHours(totals.all.total)}</span>}
+                    {' · '}F {formatHours(totals.shown.billable)} · NF {formatHours(totals.shown.nonBillable)}
+                  </div>
+                )}
               </div>
             );
           })}
         </div>
 
         {/* Body rows (hours) */}
-        <div className="grid box-border" style={{ gridTemplateColumns: '120px repeat(6, 1fr)' }}>
+        <div className="grid box-border" style={{ gridTemplateColumns: `120px repeat(${weekDays.length}, 1fr)` }}>
           {/* Hours column */}
           <div className="grid" style={{ gridTemplateRows: `repeat(${hours.length}, ${HOUR_H}px)` }}>
             {hours.map((h) => (
@@ -218,44 +382,59 @@ export default function WeeklyGrid(props: WeeklyGridProps) {
           {weekDays.map((d, dayIdx) => {
             const dateISO = isoDate(d);
             const dayTasks = filteredTasks.filter((t) => t.dateISO === dateISO);
+            // Overlapping tasks share the column side by side
+            const lanes = layoutLanes(dayTasks);
             return (
               <div key={dateISO} className="relative box-border border-l grid" style={{ gridTemplateRows: `repeat(${hours.length}, ${HOUR_H}px)` }}
                 onMouseMove={(e) => {
                   const rect = (e.currentTarget as HTMLElement).getBoundingClientRect();
                   const y = e.clientY - rect.top;
-                  let hour = START_HOUR + Math.round(y / SLOT_H) * 0.5;
-                  hour = Math.max(START_HOUR, Math.min(END_HOUR - 0.5, hour));
+                  let hour = dayStart + Math.round(y / slotH) * step;
+                  hour = Math.max(dayStart, Math.min(dayEnd - step, hour));
                   setHoverTarget({ dateISO, hour });
                 }}
                 onMouseLeave={() => setHoverTarget(null)}
               >
-                {/* Clickable time slots (30min precision) */}
+                {/* Clickable time slots (settings granularity) */}
                 {hours.map((h) => (
-                  <div key={h} className="relative box-border border-b h-[60px]">
-                    {/* Upper half (on the hour) - absolute positioning */}
-                    <button
-                      type="button"
-                      className="absolute top-0 left-0 w-full h-[30px] box-border hover:bg-accent/40 transition-colors"
-                      aria-label={`Créer tâche à ${formatTime(h)}`}
-                      onClick={() => openCreate(dateISO, h)}
-                    />
-                    {/* Lower half (on the half-hour) - absolute positioning */}
-                    <button
-                      type="button"
-                      className="absolute top-[30px] left-0 w-full h-[30px] box-border hover:bg-accent/40 transition-colors"
-                      aria-label={`Créer tâche à ${formatTime(h + 0.5)}`}
-                      onClick={() => openCreate(dateISO, h + 0.5)}
-                    />
-                    {/* Dotted separator - perfectly centered at 30px */}
-                    <div className="absolute left-0 right-0 top-1/2 border-t border-dotted border-border/30"></div>
+                  <div key={h} className="relative box-border border-b" style={{ height: HOUR_H }}>
+                    {timeSlots.filter((slot) => slot >= h && slot < h + 1).map((slot, i) => (
+                      <button
+                        key={slot}
+                        type="button"
+                        className="absolute left-0 w-full box-border hover:bg-accent/40 transition-colors"
+                        style={{ top: i * slotH, height: slotH }}
+                        aria-label={`Créer tâche à ${formatTime(slot)}`}
+                        onMouseDown={onSlotMouseDown(dateISO, slot)}
+                        onClick={(e) => { if (e.detail === 0) openCreate(dateISO, slot); }}
+                      />
+                    ))}
+                    {/* Dotted separators between slots */}
+                    {Array.from({ length: Math.round(1 / step) - 1 }, (_, i) => (
+                      <div key={i} className="absolute left-0 right-0 border-t border-dotted border-border/30 pointer-events-none" style={{ top: (i + 1) * slotH }}></div>
+                    ))}
                   </div>
                 ))}
 
+                {/* Drag-to-create preview */}
+                {selection?.dateISO === dateISO && (
+                  <div
+                    className="absolute left-1 right-1 z-40 rounded-md border-2 border-dashed border-primary bg-primary/10 pointer-events-none p-1 text-xs font-medium"
+                    style={{ top: (selection.start - dayStart) * HOUR_H, height: (selection.end - selection.start) * HOUR_H - 1 }}
+                  >
+                    {formatTime(selection.start)} → {formatTime(selection.end)}
+                  </div>
+                )}
+
                 {/* Overlay tasks with DnD */}
                 {dayTasks.map((t) => {
-                  const top = (t.startHour - START_HOUR) * SLOT_H * 2;
-                  const height = (t.endHour - t.startHour) * SLOT_H * 2 - 1;
+                  // Tasks outside the configured hours are pinned to the visible range and flagged
+                  const { start: visibleStart, end: visibleEnd, clippedStart, clippedEnd } = visibleSpan(t.startHour, t.endHour, settings);
+                  const top = (visibleStart - dayStart) * HOUR_H;
+                  const height = (visibleEnd - visibleStart) * HOUR_H - 1;
                   const isBillable = t.category === 'FACTURABLE';
+                  const { lane, lanes: laneCount } = lanes.get(t.id)!;
+                  const overlapCount = findConflicts(t, tasks).length;
 
                   // DnD state per task (via closures)
                   let isDragging = false;
@@ -298,12 +477,12 @@ export default function WeeklyGrid(props: WeeklyGridProps) {
 
                       // Compute target snapped slots (30min precision)
                       const shiftDays = Math.round(dx / colWidth);
-                      const newDayIdx = Math.min(5, Math.max(0, origDayIdx + shiftDays));
-                      const shiftSlots = Math.round(dy / SLOT_H);
-                      const newStart = Math.min(END_HOUR - durationH, Math.max(START_HOUR, t.startHour + shiftSlots * 0.5));
+                      const newDayIdx = Math.min(weekDays.length - 1, Math.max(0, origDayIdx + shiftDays));
+                      const shiftSlots = Math.round(dy / slotH);
+                      const newStart = Math.min(dayEnd - durationH, Math.max(dayStart, t.startHour + shiftSlots * step));
 
-                      const newDate = isoDate(addDays(weekStart, newDayIdx));
-                      const updated: Task = { ...t, dateISO: newDate, startHour: newStart, endHour: newStart + durationH };
+                      const newDate = isoDate(weekDays[newDayIdx]);
+                      const updated: Task = { ...detachOccurrence(t), dateISO: newDate, startHour: newStart, endHour: newStart + durationH };
 
                       // Reset visuals
                       target.style.transform = '';
@@ -311,7 +490,11 @@ export default function WeeklyGrid(props: WeeklyGridProps) {
                       target.style.zIndex = '';
 
                       if (!moved) {
-                        openEdit(t);
+                        if (me.shiftKey || me.ctrlKey || me.metaKey) toggleSelected(t.id);
+                        else if (onOpenTask) onOpenTask(t.id);
+                        else openEdit(t);
+                      } else if (t.invoiceId) {
+                        toast({ title: 'Déplacement impossible', description: 'Tâche figurant sur une facture : date et heures verrouillées.', variant: 'destructive' });
                       } else {
                         const res = onUpsert(updated);
                         if ('error' in res) {
@@ -339,19 +522,19 @@ export default function WeeklyGrid(props: WeeklyGridProps) {
                     const handleMove = (me: MouseEvent) => {
                       if (!isResizing) return;
                       dy = me.clientY - startClientY;
-                      const snap = Math.round(dy / SLOT_H) * 0.5;
+                      const snap = Math.round(dy / slotH) * step;
 
                       let newStart = t.startHour;
                       let newDuration = durationH;
                       if (pos === 'bottom') {
-                        newDuration = Math.max(0.5, Math.min(END_HOUR - t.startHour, durationH + snap));
+                        newDuration = Math.max(step, Math.min(dayEnd - t.startHour, durationH + snap));
                       } else {
-                        newStart = Math.max(START_HOUR, Math.min(t.endHour - 0.5, t.startHour + snap));
+                        newStart = Math.max(dayStart, Math.min(t.endHour - step, t.startHour + snap));
                         newDuration = t.endHour - newStart;
                       }
 
-                      const newTopPx = (newStart - START_HOUR) * SLOT_H * 2;
-                      const newHeightPx = newDuration * SLOT_H * 2 - 1;
+                      const newTopPx = (newStart - dayStart) * HOUR_H;
+                      const newHeightPx = newDuration * HOUR_H - 1;
                       target.style.zIndex = '50';
                       target.style.top = `${newTopPx}px`;
                       target.style.height = `${newHeightPx}px`;
@@ -363,17 +546,17 @@ export default function WeeklyGrid(props: WeeklyGridProps) {
                       isResizing = false;
                       document.body.style.cursor = '';
 
-                      const snap = Math.round(dy / SLOT_H) * 0.5;
+                      const snap = Math.round(dy / slotH) * step;
                       let newStart = t.startHour;
                       let newDuration = durationH;
                       if (pos === 'bottom') {
-                        newDuration = Math.max(0.5, Math.min(END_HOUR - t.startHour, durationH + snap));
+                        newDuration = Math.max(step, Math.min(dayEnd - t.startHour, durationH + snap));
                       } else {
-                        newStart = Math.max(START_HOUR, Math.min(t.endHour - 0.5, t.startHour + snap));
+                        newStart = Math.max(dayStart, Math.min(t.endHour - step, t.startHour + snap));
                         newDuration = t.endHour - newStart;
                       }
 
-                      const updated: Task = { ...t, startHour: newStart, endHour: newStart + newDuration };
+                      const updated: Task = { ...detachOccurrence(t), startHour: newStart, endHour: newStart + newDuration };
                       const res = onUpsert(updated);
                       if ('error' in res) {
                         // onUpsert failed -> let DOM revert on state re-render
@@ -410,8 +593,16 @@ export default function WeeklyGrid(props: WeeklyGridProps) {
                       <Tooltip key={t.id} delayDuration={150}>
                         <TooltipTrigger asChild>
                           <div
-                            className={`absolute left-1 right-1 rounded-md border shadow-sm cursor-move hover:shadow-md select-none overflow-hidden group ${isBillable ? '' : 'bg-gray-100 border-gray-300'} ${showFade ? "after:content-[''] after:absolute after:inset-x-0 after:bottom-0 after:h-4 after:pointer-events-none after:bg-gradient-to-b after:from-transparent after:to-[inherit]" : ''}`}
-                            style={{ top: (t.startHour - START_HOUR) * SLOT_H * 2, height, ...(isBillable ? styleColor : {}) }}
+                            data-task-id={t.id}
+                            aria-selected={selectedIds.has(t.id)}
+                            className={`absolute rounded-md border shadow-sm ${selectedIds.has(t.id) ? 'ring-2 ring-primary ring-offset-1' : overlapCount > 0 ? 'ring-2 ring-[hsl(var(--warning))]' : ''} cursor-move hover:shadow-md select-none overflow-hidden group ${clippedStart || clippedEnd ? 'border-dashed' : ''} ${isBillable ? '' : 'bg-gray-100 border-gray-300'} ${showFade ? "after:content-[''] after:absolute after:inset-x-0 after:bottom-0 after:h-4 after:pointer-events-none after:bg-gradient-to-b after:from-transparent after:to-[inherit]" : ''}`}
+                            style={{
+                              top,
+                              height,
+                              left: `calc(${(lane / laneCount) * 100}% + 4px)`,
+                              width: `calc(${100 / laneCount}% - 8px)`,
+                              ...(isBillable ? styleColor : {}),
+                            }}
                             onMouseDown={onMouseDown}
                             onMouseEnter={() => setHoveredTaskId(t.id)}
                             onMouseLeave={() => setHoveredTaskId((cur) => (cur === t.id ? null : cur))}
@@ -419,20 +610,30 @@ export default function WeeklyGrid(props: WeeklyGridProps) {
                               const parent = (e.currentTarget as HTMLElement).parentElement as HTMLElement;
                               const rect = parent.getBoundingClientRect();
                               const y = e.clientY - rect.top;
-                               let hour = START_HOUR + Math.round(y / SLOT_H) * 0.5;
-                              hour = Math.max(START_HOUR, Math.min(END_HOUR - 1, hour));
+                              let hour = dayStart + Math.round(y / slotH) * step;
+                              hour = Math.max(dayStart, Math.min(dayEnd - step, hour));
                               setHoverTarget({ dateISO, hour });
                             }}
                           >
                             {/* Resize handles */}
-                            <div className="absolute left-0 right-0 h-2 -top-1 cursor-ns-resize" onMouseDown={onResize('top')} />
-                            <div className="absolute left-0 right-0 h-2 -bottom-1 cursor-ns-resize" onMouseDown={onResize('bottom')} />
+                            {!t.invoiceId && !clippedStart && !clippedEnd && (
+                              <>
+                                <div className="absolute left-0 right-0 h-2 -top-1 cursor-ns-resize" onMouseDown={onResize('top')} />
+                                <div className="absolute left-0 right-0 h-2 -bottom-1 cursor-ns-resize" onMouseDown={onResize('bottom')} />
+                              </>
+                            )}
 
                             {/* Content area with duration-aware layout */}
                             <div className={contentClasses}>
+                              {(clippedStart || clippedEnd) && (
+                                <div className="text-destructive font-medium" title={`Hors des heures affichées (${formatTime(dayStart)}–${formatTime(dayEnd)})`}>
+                                  {clippedStart && '▲ '}{timeLabel}{clippedEnd && ' ▼'}
+                                </div>
+                              )}
                               {/* L1: Client — Projet / Type + badge */}
                               <div className="flex items-center justify-between">
                                 <div className={`${line2Clamp ? 'truncate' : ''} text-foreground font-medium`}>
+                                  {t.seriesId && <Repeat className="inline w-3 h-3 mr-1 -mt-0.5" aria-label="Tâche récurrente" />}
                                   {isBillable ? (
                                     <>
                                       <span>{t.client}</span>
@@ -498,6 +699,12 @@ export default function WeeklyGrid(props: WeeklyGridProps) {
                           {t.description && (
                             <div className="mt-1 whitespace-normal break-words text-muted-foreground">{t.description}</div>
                           )}
+                          {t.recurrence && (
+                            <div className="mt-1 text-muted-foreground">{describeRule(t.recurrence)}</div>
+                          )}
+                          {overlapCount > 0 && (
+                            <div className="mt-1 text-[hsl(var(--warning))]">Chevauche {overlapCount} autre(s) tâche(s)</div>
+                          )}
                         </TooltipContent>
                       </Tooltip>
                     </TooltipProvider>
@@ -507,6 +714,29 @@ export default function WeeklyGrid(props: WeeklyGridProps) {
             );
           })}
         </div>
+
+        {/* Footer: week totals */}
+        <div className="grid border-t" style={{ gridTemplateColumns: `120px repeat(${weekDays.length}, 1fr)` }}>
+          <div className="py-2 text-sm font-medium flex items-center justify-center">Total</div>
+          {weekDays.map((d) => {
+            const totals = dayTotals.get(isoDate(d));
+            return (
+              <div key={isoDate(d)} className="py-2 text-sm text-center">
+                {totals && totals.shown.total > 0 ? formatHours(totals.shown.total) : '—'}
+              </div>
+            );
+          })}
+        </div>
+        <div className="border-t py-2 px-3 text-sm space-y-1" aria-label="Totaux de la semaine">
+          <div>
+            <span className="font-medium">Semaine{isFiltered ? ' (filtrée)' : ''} :</span> {breakdownLabel(weekShown)}
+          </div>
+          {isFiltered && (
+            <div className="text-muted-foreground">
+              <span className="font-medium">Sans filtre :</span> {breakdownLabel(weekAll)}
+            </div>
+          )}
+        </div>
       </div>
 
         {/* Légende couleurs (sous le planning) */}
@@ -518,20 +748,21 @@ export default function WeeklyGrid(props: WeeklyGridProps) {
               Importer
               <input type="file" accept="application/json" onChange={onImportColors} className="hidden" />
             </label>
+            <Link to="/clients" className="text-xs underline">Gérer les clients</Link>
           </div>
           <div className="flex flex-col gap-2">
-            {clients.slice().sort().map((c, idx) => {
-              const hex = getClientHex(c) || '#ffffff';
+            {activeClients.map((c, idx) => {
+              const hex = c.color || getDefaultColorForClient(c.name);
               const { bg, border } = deriveColors(hex);
               const inputId = `client-color-${idx}`;
               return (
-                <div key={c} className="flex items-center gap-3">
+                <div key={c.key} className="flex items-center gap-3">
                   <span className="inline-block w-4 h-4 rounded-sm border" style={{ backgroundColor: bg, borderColor: border }} />
-                  <span className="flex-1 truncate text-sm">{c}</span>
+                  <span className="flex-1 truncate text-sm">{c.name}</span>
                   <input
                     id={inputId}
                     type="color"
-                    aria-label={`Choisir la couleur pour ${c}`}
+                    aria-label={`Choisir la couleur pour ${c.name}`}
                     value={hex}
                     onChange={(e) => setClientHex(c, e.target.value)}
                     className="hidden"
@@ -549,19 +780,38 @@ export default function WeeklyGrid(props: WeeklyGridProps) {
           </div>
         </section>
 
+        <TemplateManager templates={templates} onSave={onSaveTemplates} onDelete={onDeleteTemplate} />
+
+        <TemplatePalette
+          open={!!paletteTarget}
+          target={paletteTarget}
+          templates={templates}
+          onClose={() => setPaletteTarget(null)}
+          onApply={applyTemplate}
+        />
+
         <TaskModal
           open={modalOpen}
           mode={modalMode}
           dateISO={modalDateISO}
           startHour={modalStartHour}
+          duration={modalDuration}
+          settings={settings}
           existingTask={editingTask}
-          clients={clients}
+          clients={clientNames}
           projectsByClient={projectsByClient}
           quotesByClient={quotesByClient}
           types={types}
-          onClose={() => setModalOpen(false)}
+          onClose={closeModal}
           onSave={onUpsert}
-          onDelete={onDelete}
+          onSaveSeries={onSaveSeries}
+          onDelete={(id) => { onDelete(id); closeModal(); }}
+          onDeleteSeries={onDeleteSeries}
+          onCheckQuote={onCheckQuote}
+          onSaveTemplate={(tpl) => {
+            onSaveTemplates([tpl]);
+            toast({ title: 'Modèle enregistré', description: `« ${tpl.name} » — Ctrl/⌘+K sur un créneau pour l'insérer` });
+          }}
         />
     </div>
   );
@@ -0,0 +1,63 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { Client } from '@/types';
+import { loadClients, saveClientChanges } from '@/utils/storage';
+import { createClient, sortClients } from '@/utils/clients';
+import { normalizeClient } from '@/utils/color';
+import { toast } from '@/hooks/use-toast';
+
+// Registre clients partagé par les pages : lu depuis IndexedDB au montage,
+// chaque modification est écrite immédiatement.
+export function useClients() {
+  const [clients, setClients] = useState<Client[]>([]);
+  const [loaded, setLoaded] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const clientsRef = useRef<Client[]>([]);
+  const loadedRef = useRef(false);
+
+  const commit = useCallback((next: Client[], put: Client[], deleteKeys: string[] = []) => {
+    clientsRef.current = sortClients(next);
+    setClients(clientsRef.current);
+    return saveClientChanges(put, deleteKeys)
+      .then(() => setError(null))
+      .catch((e) => {
+        const message = e instanceof Error ? e.message : String(e);
+        setError(message);
+        toast({ title: 'Échec de la sauvegarde', description: message, variant: 'destructive' });
+      });
+  }, []);
+
+  useEffect(() => {
+    loadClients()
+      .then((list) => {
+        clientsRef.current = sortClients(list);
+        setClients(clientsRef.current);
+        loadedRef.current = true;
+        setLoaded(true);
+      })
+      .catch((e) => setError(e instanceof Error ? e.message : String(e)));
+  }, []);
+
+  // Crée ou met à jour ; `previousKey` permet de renommer un client.
+  const saveClients = useCallback((list: Client[], previousKey?: string) => {
+    const keys = new Set(list.map((c) => c.key));
+    const removed = previousKey && !keys.has(previousKey) ? [previousKey] : [];
+    const next = [...clientsRef.current.filter((c) => !keys.has(c.key) && !removed.includes(c.key)), ...list];
+    return commit(next, list, removed);
+  }, [commit]);
+
+  // Enregistre les noms encore inconnus du registre (saisie libre, import CSV...).
+  const ensureClients = useCallback((names: (string | undefined)[]) => {
+    if (!loadedRef.current) return;
+    const known = new Set(clientsRef.current.map((c) => c.key));
+    const created: Client[] = [];
+    names.forEach((name) => {
+      const key = normalizeClient(name || '');
+      if (!key || known.has(key)) return;
+      known.add(key);
+      created.push(createClient(name!));
+    });
+    if (created.length > 0) saveClients(created);
+  }, [saveClients]);
+
+  return { clients, loaded, error, saveClients, ensureClients };
+}
@@ -0,0 +1,46 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { Quote } from '@/types';
+import { loadQuotes, saveQuoteChanges } from '@/utils/storage';
+import { sortQuotes } from '@/utils/quotes';
+import { toast } from '@/hooks/use-toast';
+
+// Devis : lus depuis IndexedDB au montage, chaque modification est écrite immédiatement.
+export function useQuotes() {
+  const [quotes, setQuotes] = useState<Quote[]>([]);
+  const [loaded, setLoaded] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const quotesRef = useRef<Quote[]>([]);
+
+  const commit = useCallback((next: Quote[], put: Quote[], deleteIds: string[] = []) => {
+    quotesRef.current = sortQuotes(next);
+    setQuotes(quotesRef.current);
+    return saveQuoteChanges(put, deleteIds)
+      .then(() => setError(null))
+      .catch((e) => {
+        const message = e instanceof Error ? e.message : String(e);
+        setError(message);
+        toast({ title: 'Échec de la sauvegarde des devis', description: message, variant: 'destructive' });
+      });
+  }, []);
+
+  useEffect(() => {
+    loadQuotes()
+      .then((list) => {
+        quotesRef.current = sortQuotes(list);
+        setQuotes(quotesRef.current);
+        setLoaded(true);
+      })
+      .catch((e) => setError(e instanceof Error ? e.message : String(e)));
+  }, []);
+
+  // Crée ou remplace (même identifiant)
+  const saveQuote = useCallback((quote: Quote) => {
+    return commit([...quotesRef.current.filter((q) => q.id !== quote.id), quote], [quote]);
+  }, [commit]);
+
+  const deleteQuote = useCallback((id: string) => {
+    return commit(quotesRef.current.filter((q) => q.id !== id), [], [id]);
+  }, [commit]);
+
+  return { quotes, loaded, error, saveQuote, deleteQuote };
+}
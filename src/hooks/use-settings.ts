@@ -0,0 +1,52 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Settings, DEFAULT_SETTINGS } from '@/utils/settings';
+import { loadSettings, saveSettings } from '@/utils/storage';
+import { toast } from '@/hooks/use-toast';
+
+// Même principe que use-toast : un état module partagé par tous les composants abonnés.
+interface SettingsState {
+  settings: Settings;
+  error: string | null; // lecture ou dernière écriture en échec
+}
+
+const listeners: Array<(state: SettingsState) => void> = [];
+let memoryState: SettingsState = { settings: DEFAULT_SETTINGS, error: null };
+let loadPromise: Promise<void> | null = null;
+
+function setSettingsState(next: Partial<SettingsState>) {
+  memoryState = { ...memoryState, ...next };
+  listeners.forEach((listener) => listener(memoryState));
+}
+
+const errorMessage = (e: unknown) => (e instanceof Error ? e.message : String(e));
+
+export function useSettings() {
+  const [state, setState] = useState<SettingsState>(memoryState);
+
+  useEffect(() => {
+    listeners.push(setState);
+    if (!loadPromise) {
+      loadPromise = loadSettings()
+        .then((settings) => setSettingsState({ settings }))
+        .catch((e) => setSettingsState({ error: errorMessage(e) }));
+    }
+    setState(memoryState);
+    return () => {
+      const index = listeners.indexOf(setState);
+      if (index > -1) listeners.splice(index, 1);
+    };
+  }, []);
+
+  const updateSettings = useCallback(async (next: Settings) => {
+    setSettingsState({ settings: next });
+    try {
+      await saveSettings(next);
+      setSettingsState({ error: null });
+    } catch (e) {
+      setSettingsState({ error: errorMessage(e) });
+      toast({ title: 'Échec de la sauvegarde', description: errorMessage(e), variant: 'destructive' });
+    }
+  }, []);
+
+  return { settings: state.settings, error: state.error, updateSettings };
+}
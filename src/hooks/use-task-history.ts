@@ -0,0 +1,76 @@
+import { Dispatch, SetStateAction, useCallback, useRef, useState } from 'react';
+import { Task } from '@/types';
+
+const HISTORY_LIMIT = 100;
+
+// Une commande décrit un changement réversible : les versions des tâches
+// touchées avant (absentes = créées) et après (absentes = supprimées).
+export interface TaskCommand {
+  id: string;
+  label: string;
+  before: Task[];
+  after: Task[];
+}
+
+function replaceTasks(list: Task[], remove: Task[], add: Task[]): Task[] {
+  const ids = new Set([...remove, ...add].map(t => t.id));
+  return [...list.filter(t => !ids.has(t.id)), ...add];
+}
+
+let commandCount = 0;
+
+export function createCommand(label: string, before: Task[], after: Task[]): TaskCommand {
+  commandCount += 1;
+  return { id: `cmd_${commandCount}`, label, before, after };
+}
+
+export function useTaskHistory(setTasks: Dispatch<SetStateAction<Task[]>>) {
+  // Refs: les callbacks (raccourcis clavier, actions de toast) lisent toujours la pile courante
+  const pastRef = useRef<TaskCommand[]>([]);
+  const futureRef = useRef<TaskCommand[]>([]);
+  const [, setVersion] = useState(0);
+  const bump = () => setVersion(v => v + 1);
+
+  const execute = useCallback((command: TaskCommand) => {
+    setTasks(prev => replaceTasks(prev, command.before, command.after));
+    pastRef.current = [...pastRef.current, command].slice(-HISTORY_LIMIT);
+    futureRef.current = [];
+    bump();
+    return command;
+  }, [setTasks]);
+
+  const undo = useCallback((): TaskCommand | undefined => {
+    const command = pastRef.current[pastRef.current.length - 1];
+    if (!command) return undefined;
+    setTasks(prev => replaceTasks(prev, command.after, command.before));
+    pastRef.current = pastRef.current.slice(0, -1);
+    futureRef.current = [...futureRef.current, command];
+    bump();
+    return command;
+  }, [setTasks]);
+
+  const redo = useCallback((): TaskCommand | undefined => {
+    const command = futureRef.current[futureRef.current.length - 1];
+    if (!command) return undefined;
+    setTasks(prev => replaceTasks(prev, command.before, command.after));
+    futureRef.current = futureRef.current.slice(0, -1);
+    pastRef.current = [...pastRef.current, command];
+    bump();
+    return command;
+  }, [setTasks]);
+
+  // Depuis un toast : n'annule que si la commande est toujours la dernière exécutée
+  const undoCommand = useCallback((id: string) => {
+    const last = pastRef.current[pastRef.current.length - 1];
+    return last?.id === id ? undo() : undefined;
+  }, [undo]);
+
+  return {
+    execute,
+    undo,
+    redo,
+    undoCommand,
+    canUndo: pastRef.current.length > 0,
+    canRedo: futureRef.current.length > 0,
+  };
+}
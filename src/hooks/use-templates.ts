@@ -0,0 +1,47 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { TaskTemplate } from '@/types';
+import { loadTemplates, saveTemplateChanges } from '@/utils/storage';
+import { sortTemplates } from '@/utils/templates';
+import { toast } from '@/hooks/use-toast';
+
+// Modèles de tâches : lus depuis IndexedDB au montage, chaque modification est écrite immédiatement.
+export function useTemplates() {
+  const [templates, setTemplates] = useState<TaskTemplate[]>([]);
+  const [loaded, setLoaded] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const templatesRef = useRef<TaskTemplate[]>([]);
+
+  const commit = useCallback((next: TaskTemplate[], put: TaskTemplate[], deleteIds: string[] = []) => {
+    templatesRef.current = sortTemplates(next);
+    setTemplates(templatesRef.current);
+    return saveTemplateChanges(put, deleteIds)
+      .then(() => setError(null))
+      .catch((e) => {
+        const message = e instanceof Error ? e.message : String(e);
+        setError(message);
+        toast({ title: 'Échec de la sauvegarde des modèles', description: message, variant: 'destructive' });
+      });
+  }, []);
+
+  useEffect(() => {
+    loadTemplates()
+      .then((list) => {
+        templatesRef.current = sortTemplates(list);
+        setTemplates(templatesRef.current);
+        setLoaded(true);
+      })
+      .catch((e) => setError(e instanceof Error ? e.message : String(e)));
+  }, []);
+
+  // Crée ou remplace (même identifiant)
+  const saveTemplates = useCallback((list: TaskTemplate[]) => {
+    const ids = new Set(list.map((t) => t.id));
+    return commit([...templatesRef.current.filter((t) => !ids.has(t.id)), ...list], list);
+  }, [commit]);
+
+  const deleteTemplate = useCallback((id: string) => {
+    return commit(templatesRef.current.filter((t) => t.id !== id), [], [id]);
+  }, [commit]);
+
+  return { templates, loaded, error, saveTemplates, deleteTemplate };
+}
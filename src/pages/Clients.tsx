@@ -0,0 +1,160 @@
+import { useEffect, useMemo, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { Client, Task } from '@/types';
+import ClientDialog from '@/components/time-tracking/ClientDialog';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useClients } from '@/hooks/use-clients';
+import { useToast } from '@/hooks/use-toast';
+import { loadTasks, renameClientReferences } from '@/utils/storage';
+import { deriveColors, normalizeClient } from '@/utils/color';
+import { formatMoney } from '@/utils/clients';
+import { isoDate } from '@/utils/date';
+
+export default function Clients() {
+  const { toast } = useToast();
+  const { clients, loaded, error, saveClients } = useClients();
+  const [tasks, setTasks] = useState<Task[]>([]);
+  // A rename rewrites the client's tasks: editing waits for them to be loaded
+  const [tasksLoaded, setTasksLoaded] = useState(false);
+  const [tasksError, setTasksError] = useState<string | null>(null);
+  const [showArchived, setShowArchived] = useState(false);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editing, setEditing] = useState<Client | undefined>(undefined);
+
+  useEffect(() => {
+    document.title = 'Time Tracking · Clients';
+    loadTasks()
+      .then((list) => {
+        setTasks(list);
+        setTasksLoaded(true);
+      })
+      .catch((e) => setTasksError(e instanceof Error ? e.message : String(e)));
+  }, []);
+
+  const hoursByClient = useMemo(() => {
+    const out: Record<string, { total: number; toBill: number }> = {};
+    tasks.forEach(t => {
+      if (t.category !== 'FACTURABLE' || !t.client) return;
+      const key = normalizeClient(t.client);
+      const h = t.endHour - t.startHour;
+      out[key] = out[key] ?? { total: 0, toBill: 0 };
+      out[key].total += h;
+      if (!t.billed) out[key].toBill += h;
+    });
+    return out;
+  }, [tasks]);
+
+  const visible = useMemo(() => clients.filter(c => showArchived || !c.archived), [clients, showArchived]);
+
+  const openCreate = () => { setEditing(undefined); setDialogOpen(true); };
+  const openEdit = (client: Client) => { setEditing(client); setDialogOpen(true); };
+
+  const handleSave = async (client: Client, previousKey?: string) => {
+    if (previousKey && !tasksLoaded) return;
+    // Renaming: tasks carry the display name, so rewrite them with the new one; quotes and invoices follow the key.
+    // Same key: the display name may still differ in case/spacing, keep tasks aligned.
+    const previousName = clients.find(c => c.key === previousKey)?.name;
+    if (previousKey && previousName !== client.name) {
+      const renamed = tasks
+        .filter(t => t.client && normalizeClient(t.client) === previousKey && t.client !== client.name)
+        .map(t => ({ ...t, client: client.name }));
+      try {
+        await renameClientReferences(previousKey, client, renamed);
+        const byId = new Map(renamed.map(t => [t.id, t]));
+        setTasks(prev => prev.map(t => byId.get(t.id) ?? t));
+      } catch (e) {
+        toast({ title: 'Renommage impossible', description: e instanceof Error ? e.message : String(e), variant: 'destructive' });
+        return;
+      }
+    }
+    await saveClients([client], previousKey);
+    toast({ title: 'Client enregistré', description: client.name });
+  };
+
+  const toggleArchived = (client: Client) => saveClients([{ ...client, archived: !client.archived }]);
+
+  return (
+    <main className="min-h-screen bg-background">
+      <header className="border-b">
+        <div className="container py-6">
+          <h1>Clients</h1>
+          <p className="text-muted-foreground mt-1">Taux horaires, coordonnées de facturation et couleurs de l'agenda</p>
+          <div className="mt-4 flex items-center gap-3 flex-wrap">
+            <Button variant="secondary" asChild><Link to="/">← Agenda</Link></Button>
+            <Button variant="ghost" asChild><Link to="/factures">Factures</Link></Button>
+            <Button onClick={openCreate}>Nouveau client</Button>
+            <label className="flex items-center gap-2 text-sm">
+              <input type="checkbox" checked={showArchived} onChange={(e) => setShowArchived(e.target.checked)} />
+              Afficher les clients archivés
+            </label>
+          </div>
+          {error && <div className="mt-4 text-sm text-destructive-foreground bg-destructive/15 rounded px-3 py-2">{error}</div>}
+          {tasksError && (
+            <div className="mt-4 text-sm text-destructive-foreground bg-destructive/15 rounded px-3 py-2">
+              Tâches indisponibles ({tasksError}) : heures inconnues, modification des clients désactivée.
+            </div>
+          )}
+        </div>
+      </header>
+
+      <section className="container py-6">
+        {loaded && visible.length === 0 ? (
+          <p className="text-muted-foreground">Aucun client. Ils sont aussi créés automatiquement à la saisie des tâches.</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Client</TableHead>
+                <TableHead>Taux horaire</TableHead>
+                <TableHead>N° TVA</TableHead>
+                <TableHead>Adresse</TableHead>
+                <TableHead className="text-right">Heures</TableHead>
+                <TableHead className="text-right">À facturer</TableHead>
+                <TableHead />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {visible.map(c => {
+                const { bg, border } = deriveColors(c.color);
+                const hours = hoursByClient[c.key];
+                return (
+                  <TableRow key={c.key} className={c.archived ? 'opacity-60' : ''}>
+                    <TableCell>
+                      <div className="flex items-center gap-2">
+                        <span className="inline-block w-4 h-4 rounded-sm border" style={{ backgroundColor: bg, borderColor: border }} />
+                        <span className="font-medium">{c.name}</span>
+                        {c.archived && <Badge variant="secondary">Archivé</Badge>}
+                      </div>
+                    </TableCell>
+                    <TableCell>{c.hourlyRate !== undefined ? `${formatMoney(c.hourlyRate, c.currency)} / h` : '—'}</TableCell>
+                    <TableCell>{c.vatNumber ?? '—'}</TableCell>
+                    <TableCell className="max-w-xs whitespace-pre-line text-muted-foreground">{c.address ?? '—'}</TableCell>
+                    <TableCell className="text-right">{!tasksLoaded ? '—' : hours ? `${hours.total}h` : '0h'}</TableCell>
+                    <TableCell className="text-right">{!tasksLoaded ? '—' : hours ? `${hours.toBill}h` : '0h'}</TableCell>
+                    <TableCell className="text-right whitespace-nowrap">
+                      <Button variant="ghost" size="sm" asChild>
+                        <Link to={`/impression/releve/${encodeURIComponent(c.key)}/${isoDate(new Date()).slice(0, 7)}`}>Relevé</Link>
+                      </Button>
+                      <Button variant="ghost" size="sm" onClick={() => openEdit(c)} disabled={!tasksLoaded}>Modifier</Button>
+                      <Button variant="ghost" size="sm" onClick={() => toggleArchived(c)}>{c.archived ? 'Désarchiver' : 'Archiver'}</Button>
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        )}
+      </section>
+
+      <ClientDialog
+        open={dialogOpen}
+        client={editing}
+        clients={clients}
+        onClose={() => setDialogOpen(false)}
+        onSave={handleSave}
+      />
+    </main>
+  );
+}
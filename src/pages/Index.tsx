@@ -1,75 +1,127 @@
-import { useEffect, useMemo, useState } from 'react';
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import WeeklyGrid from '@/components/time-tracking/WeeklyGrid';
+import DayView from '@/components/time-tracking/DayView';
+import MonthView from '@/components/time-tracking/MonthView';
+import AgendaView from '@/components/time-tracking/AgendaView';
 import CSVImport from '@/components/time-tracking/CSVImport';
-import { Task, Category } from '@/types';
+import ICSExport from '@/components/time-tracking/ICSExport';
+import ICSImport from '@/components/time-tracking/ICSImport';
+import { Link, useLocation, useNavigate, useSearchParams } from 'react-router-dom';
+import { Task } from '@/types';
 import { Button } from '@/components/ui/button';
 import { Label } from '@/components/ui/label';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { ToastAction } from '@/components/ui/toast';
 import { useToast } from '@/hooks/use-toast';
-
-const STORAGE_KEY = 'tt.tasks';
-const START_HOUR = 7;
-const END_HOUR = 20; // exclusive
-
-function pad(n: number) { return n < 10 ? `0${n}` : `${n}`; }
-
-function formatTime(hour: number): string {
-  const h = Math.floor(hour);
-  const m = (hour % 1) * 60;
-  return `${pad(h)}:${pad(m)}`;
-}
-
-function getMonday(date = new Date()) {
-  const d = new Date(date);
-  const day = d.getDay();
-  const diff = (day + 6) % 7; // 0 if already Monday
-  d.setDate(d.getDate() - diff);
-  d.setHours(0,0,0,0);
-  return d;
-}
-
-function isoDate(d: Date) {
-  const y = d.getFullYear();
-  const m = d.getMonth() + 1;
-  const day = d.getDate();
-  return `${y}-${pad(m)}-${pad(day)}`;
-}
-
-function addDays(d: Date, n: number) { const x = new Date(d); x.setDate(x.getDate() + n); return x; }
+import { useTaskHistory, createCommand, TaskCommand } from '@/hooks/use-task-history';
+import { useClients } from '@/hooks/use-clients';
+import { useSettings } from '@/hooks/use-settings';
+import { useTemplates } from '@/hooks/use-templates';
+import { useQuotes } from '@/hooks/use-quotes';
+import SettingsDialog from '@/components/time-tracking/SettingsDialog';
+import BackupDialog from '@/components/time-tracking/BackupDialog';
+import TimerWidget from '@/components/time-tracking/TimerWidget';
+import QuickEntryBar from '@/components/time-tracking/QuickEntryBar';
+import CopyPeriodDialog, { CopySource } from '@/components/time-tracking/CopyPeriodDialog';
+import { loadTasks, saveTaskChanges } from '@/utils/storage';
+import { addDays, endOfMonth, formatTime, getMonday, isoDate, parseISODate, startOfMonth } from '@/utils/date';
+import { findBatchConflicts, findConflicts } from '@/utils/overlap';
+import { SeriesScope, describeRule, planSeriesDelete, planSeriesSave } from '@/utils/recurrence';
+import { CalendarView, VIEW_LABELS, dayRangeLabel, visibleWeekDatesISO, weekDaysLabel } from '@/utils/settings';
+import { TaskFilters, calendarPath, filtersFromSearch, filtersToSearch, parseCalendarPath, taskPath } from '@/utils/routes';
+import { invoiceLockError } from '@/utils/invoices';
+import { quoteBudgetWarning } from '@/utils/quotes';
+import { tasksWorkbook } from '@/utils/task-workbook';
+import { buildXLSX } from '@/utils/xlsx';
 
 export default function Index() {
   const { toast } = useToast();
   const [tasks, setTasks] = useState<Task[]>([]);
-  const [weekStart, setWeekStart] = useState<Date>(() => getMonday(new Date()));
+  const [loaded, setLoaded] = useState(false);
+  const [storageError, setStorageError] = useState<string | null>(null);
+  const [saveAttempt, setSaveAttempt] = useState(0);
+  // Dernier état connu en base, pour n'écrire que les tâches modifiées
+  const persistedRef = useRef<Map<string, Task>>(new Map());
+  const history = useTaskHistory(setTasks);
+  const { clients: clientRegistry, error: clientsError, saveClients, ensureClients } = useClients();
+  const { settings, error: settingsError, updateSettings } = useSettings();
+  const { templates, error: templatesError, saveTemplates, deleteTemplate } = useTemplates();
+  const { quotes } = useQuotes();
+  const [settingsOpen, setSettingsOpen] = useState(false);
+  const [backupOpen, setBackupOpen] = useState(false);
+  const [copySource, setCopySource] = useState<CopySource | null>(null);
+  const [today] = useState<Date>(() => new Date());
+
+  // View, period and open task come from the path, filters from the query string
+  const location = useLocation();
+  const navigate = useNavigate();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const route = useMemo(() => parseCalendarPath(location.pathname), [location.pathname]);
+  const openTaskId = route?.kind === 'task' ? route.id : undefined;
+  const openTask = useMemo(() => tasks.find(t => t.id === openTaskId), [tasks, openTaskId]);
+  const view: CalendarView = route?.kind === 'calendar' ? route.view : route?.kind === 'task' ? 'WEEK' : settings.view;
+  // Day shown by the day view; the week, month and agenda views follow it
+  const focusDate = useMemo(
+    () => (route?.kind === 'calendar' ? route.date : openTask ? parseISODate(openTask.dateISO) : today),
+    [route, openTask, today],
+  );
+  const weekStart = useMemo(() => getMonday(focusDate), [focusDate]);
 
   // Filters
-  const [filterCategory, setFilterCategory] = useState<'ALL' | Category>('ALL');
-  const [filterClient, setFilterClient] = useState<string>('');
-  const [filterType, setFilterType] = useState<string>('');
+  const filters = useMemo(() => filtersFromSearch(searchParams), [searchParams]);
+  const { category: filterCategory, client: filterClient, type: filterType } = filters;
+  const setFilters = (patch: Partial<TaskFilters>) => setSearchParams(filtersToSearch({ ...filters, ...patch }), { replace: true });
 
   useEffect(() => {
     document.title = 'Time Tracking · Agenda hebdo';
   }, []);
 
+  // Unknown period or task: back to the current week
+  useEffect(() => {
+    if (route && !(route.kind === 'task' && loaded && !openTask)) return;
+    if (route) toast({ title: 'Tâche introuvable', description: 'Elle a peut-être été supprimée.', variant: 'destructive' });
+    navigate({ pathname: '/', search: location.search }, { replace: true });
+  }, [route, loaded, openTask, location.search, navigate, toast]);
+
+  const reportStorageError = useCallback((e: unknown) => {
+    const message = e instanceof Error ? e.message : String(e);
+    setStorageError(message);
+    toast({ title: 'Échec de la sauvegarde', description: message, variant: 'destructive' });
+  }, [toast]);
+
   // Load
   useEffect(() => {
-    try {
-      const raw = localStorage.getItem(STORAGE_KEY);
-      if (raw) {
-        const parsed: Task[] = JSON.parse(raw);
-        setTasks(Array.isArray(parsed) ? parsed : []);
-      }
-    } catch {}
+    loadTasks()
+      .then((storedTasks) => {
+        persistedRef.current = new Map(storedTasks.map(t => [t.id, t]));
+        setTasks(storedTasks);
+        setLoaded(true);
+      })
+      .catch((e) => {
+        setStorageError(e instanceof Error ? e.message : String(e));
+      });
   }, []);
 
-  // Save
+  // Save (diff against the last persisted state)
   useEffect(() => {
-    try {
-      localStorage.setItem(STORAGE_KEY, JSON.stringify(tasks));
-    } catch {}
-  }, [tasks]);
+    if (!loaded) return;
+    const previous = persistedRef.current;
+    const next = new Map(tasks.map(t => [t.id, t]));
+    const put = tasks.filter(t => previous.get(t.id) !== t);
+    const deleteIds = Array.from(previous.keys()).filter(id => !next.has(id));
+    persistedRef.current = next;
+    saveTaskChanges(put, deleteIds)
+      .then(() => setStorageError(null))
+      .catch((e) => {
+        // Retry the same diff on the next change or on "Réessayer"
+        persistedRef.current = previous;
+        reportStorageError(e);
+      });
+  }, [tasks, loaded, saveAttempt, reportStorageError]);
 
   // Options for datalists & filters
-  const clients = useMemo(() => Array.from(new Set(tasks.filter(t => t.client).map(t => t.client!))).sort(), [tasks]);
+  const clients = useMemo(() => clientRegistry.map(c => c.name), [clientRegistry]);
+  const activeClients = useMemo(() => clientRegistry.filter(c => !c.archived).map(c => c.name), [clientRegistry]);
   const types = useMemo(() => Array.from(new Set(tasks.filter(t => t.type).map(t => t.type!))).sort(), [tasks]);
   const projectsByClient = useMemo(() => {
     const map: Record<string, Set<string>> = {};
@@ -92,61 +144,196 @@ export default function Index() {
         map[t.client].add(t.quote);
       }
     });
+    // Quotes still open are suggested even before any task uses them
+    quotes.filter(q => q.status !== 'CLOSED').forEach(q => {
+      const name = clientRegistry.find(c => c.key === q.clientKey)?.name ?? q.clientName;
+      if (!map[name]) map[name] = new Set();
+      map[name].add(q.reference);
+    });
     const out: Record<string, string[]> = {};
     Object.entries(map).forEach(([k, v]) => out[k] = Array.from(v).sort());
     return out;
-  }, [tasks]);
+  }, [tasks, quotes, clientRegistry]);
+
+  const checkQuote = useCallback((task: Task) => quoteBudgetWarning(task, quotes, tasks, clientRegistry), [quotes, tasks, clientRegistry]);
 
-  const weekDatesISO = useMemo(() => Array.from({ length: 6 }, (_, i) => isoDate(addDays(weekStart, i))), [weekStart]);
-  const weekEnd = useMemo(() => addDays(weekStart, 5), [weekStart]);
-  const weekLabel = useMemo(() => `${isoDate(weekStart)} → ${isoDate(weekEnd)}`, [weekStart, weekEnd]);
+  const weekDatesISO = useMemo(() => visibleWeekDatesISO(weekStart, settings), [weekStart, settings]);
+  const weekLabel = useMemo(() => `${weekDatesISO[0]} → ${weekDatesISO[weekDatesISO.length - 1]}`, [weekDatesISO]);
+  const focusISO = isoDate(focusDate);
+  const monthFromISO = isoDate(startOfMonth(focusDate));
+  const monthToISO = isoDate(endOfMonth(focusDate));
 
-  const filteredTasks = useMemo(() => {
+  const matchingTasks = useMemo(() => {
     return tasks.filter(t => {
-      if (!weekDatesISO.includes(t.dateISO)) return false;
       if (filterCategory !== 'ALL' && t.category !== filterCategory) return false;
       if (filterClient && t.client !== filterClient) return false;
       if (filterType && t.type !== filterType) return false;
       return true;
     });
-  }, [tasks, weekDatesISO, filterCategory, filterClient, filterType]);
+  }, [tasks, filterCategory, filterClient, filterType]);
 
-  // Overlap check
-  function overlaps(a: Task, b: Task) {
-    return a.dateISO === b.dateISO && a.startHour < b.endHour && b.startHour < a.endHour && a.id !== b.id;
-  }
+  const filteredTasks = useMemo(() => matchingTasks.filter(t => weekDatesISO.includes(t.dateISO)), [matchingTasks, weekDatesISO]);
+  const dayTasks = useMemo(() => matchingTasks.filter(t => t.dateISO === focusISO), [matchingTasks, focusISO]);
+
+  const periodLabel = view === 'DAY'
+    ? focusDate.toLocaleDateString('fr-FR', { weekday: 'long', day: 'numeric', month: 'long', year: 'numeric' })
+    : view === 'WEEK'
+      ? weekLabel
+      : focusDate.toLocaleDateString('fr-FR', { month: 'long', year: 'numeric' });
 
-  const upsertTask = (task: Task): { ok: true } | { ok: false; error: string } => {
-    if (task.startHour < START_HOUR || task.endHour > END_HOUR || task.endHour <= task.startHour) {
-      return { ok: false, error: 'Plage horaire invalide (07:00 → 20:00).' };
+  // Each period change is a history entry, so back/forward walks through the weeks
+  const goTo = (nextView: CalendarView, date: Date, replace = false) => {
+    navigate({ pathname: calendarPath(nextView, date), search: location.search }, { replace });
+  };
+
+  // Previous/next step depends on the view: one day, one week or one month
+  const movePeriod = (direction: 1 | -1) => {
+    if (view === 'DAY') goTo(view, addDays(focusDate, direction));
+    else if (view === 'WEEK') goTo(view, addDays(focusDate, 7 * direction));
+    else goTo(view, new Date(focusDate.getFullYear(), focusDate.getMonth() + direction, 1));
+  };
+
+  const changeView = (next: CalendarView) => {
+    if (next !== settings.view) updateSettings({ ...settings, view: next });
+    if (next !== view) goTo(next, focusDate);
+  };
+
+  const openWeekOf = (date: Date) => {
+    if (settings.view !== 'WEEK') updateSettings({ ...settings, view: 'WEEK' });
+    goTo('WEEK', date);
+  };
+
+  // Opening a task in the grid gives it its own address; closing it returns to its week
+  const setOpenTask = (id: string | undefined) => {
+    if (id) navigate({ pathname: taskPath(id), search: location.search });
+    else goTo('WEEK', focusDate, true);
+  };
+
+  // Every mutation goes through a history command so it can be undone in one step
+  const runCommand = (command: TaskCommand, title: string, description?: string) => {
+    history.execute(command);
+    toast({
+      title,
+      description,
+      action: (
+        <ToastAction altText="Annuler" onClick={() => undoWithToast(history.undoCommand(command.id))}>
+          Annuler
+        </ToastAction>
+      ),
+    });
+  };
+
+  const undoWithToast = (command: TaskCommand | undefined) => {
+    if (!command) return;
+    toast({
+      title: 'Annulé',
+      description: command.label,
+      action: <ToastAction altText="Rétablir" onClick={() => history.redo()}>Rétablir</ToastAction>,
+    });
+  };
+
+  const redoWithToast = (command: TaskCommand | undefined) => {
+    if (!command) return;
+    toast({ title: 'Rétabli', description: command.label });
+  };
+
+  useEffect(() => {
+    const handleKey = (e: KeyboardEvent) => {
+      if (!(e.metaKey || e.ctrlKey)) return;
+      const target = e.target as HTMLElement | null;
+      // Keep native undo inside form fields
+      if (target && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName))) return;
+      const key = e.key?.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        undoWithToast(history.undo());
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault();
+        redoWithToast(history.redo());
+      }
+    };
+    window.addEventListener('keydown', handleKey);
+    return () => window.removeEventListener('keydown', handleKey);
+  });
+
+  const upsertTask = (task: Task, title = 'Sauvegardé'): { ok: true } | { ok: false; error: string } => {
+    if (task.startHour < settings.startHour || task.endHour > settings.endHour || task.endHour <= task.startHour) {
+      return { ok: false, error: `Plage horaire invalide (${dayRangeLabel(settings)}).` };
     }
-    // Anti-chevauchement
-    const conflict = tasks.some(t => overlaps(task, t));
-    if (conflict) {
+    const existing = tasks.find(t => t.id === task.id);
+    const locked = existing && invoiceLockError(existing, task);
+    if (locked) return { ok: false, error: locked };
+    // Anti-chevauchement, sauf si les tâches simultanées sont autorisées (elles sont alors signalées)
+    const conflicts = findConflicts(task, tasks);
+    if (conflicts.length > 0 && !settings.allowOverlap) {
       return { ok: false, error: 'Chevauchement détecté.' };
     }
 
-    setTasks(prev => {
-      const exists = prev.some(t => t.id === task.id);
-      const next = exists ? prev.map(t => t.id === task.id ? task : t) : [...prev, task];
-      return next;
-    });
+    ensureClients([task.client]);
+    const range = `${task.dateISO} ${formatTime(task.startHour)} → ${formatTime(task.endHour)}`;
+    runCommand(
+      createCommand(existing ? `Modification ${range}` : `Création ${range}`, existing ? [existing] : [], [task]),
+      title,
+      conflicts.length > 0 ? `${range} · chevauche ${conflicts.length} tâche(s)` : range,
+    );
+    return { ok: true };
+  };
 
-    toast({ title: 'Sauvegardé', description: `${task.dateISO} ${formatTime(task.startHour)} → ${formatTime(task.endHour)}` });
+  // Bulk changes: the whole batch is validated at once and applied as a single undoable step
+  const applyBatch = (before: Task[], after: Task[], label: string, title: string): { ok: true } | { ok: false; errors: string[] } => {
+    const slot = (t: Task) => `${t.dateISO} ${formatTime(t.startHour)} → ${formatTime(t.endHour)}`;
+    const errors = after
+      .filter(t => t.startHour < settings.startHour || t.endHour > settings.endHour || t.endHour <= t.startHour)
+      .map(t => `${slot(t)} : hors de la plage ${dayRangeLabel(settings)}`);
+    const afterById = new Map(after.map(t => [t.id, t]));
+    before.forEach(t => {
+      const locked = invoiceLockError(t, afterById.get(t.id));
+      if (locked) errors.push(locked);
+    });
+    const conflicts = findBatchConflicts(after, tasks, new Set(before.map(t => t.id)));
+    if (!settings.allowOverlap) {
+      conflicts.forEach(([a, b]) => errors.push(`${slot(a)} chevauche ${slot(b)}`));
+    }
+    if (errors.length > 0) return { ok: false, errors };
+
+    ensureClients(after.map(t => t.client));
+    runCommand(
+      createCommand(label, before, after),
+      title,
+      conflicts.length > 0 ? `${label} · ${conflicts.length} chevauchement(s)` : label,
+    );
     return { ok: true };
   };
 
-  const deleteTask = (id: string) => {
-    setTasks(prev => prev.filter(t => t.id !== id));
-    toast({ title: 'Supprimé' });
+  // Recurring tasks: the series plan (occurrences to write/remove) goes through the batch check
+  const saveSeries = (original: Task | undefined, edited: Task, scope: SeriesScope) => {
+    const { before, after } = planSeriesSave(tasks, original, edited, scope);
+    const label = edited.recurrence
+      ? `Série « ${describeRule(edited.recurrence)} » (${after.filter(t => t.seriesId).length} occurrence(s))`
+      : `Modification ${edited.dateISO} ${formatTime(edited.startHour)} → ${formatTime(edited.endHour)}`;
+    return applyBatch(before, after, label, 'Sauvegardé');
+  };
+
+  const deleteSeries = (task: Task, scope: SeriesScope) => {
+    const { before, after } = planSeriesDelete(tasks, task, scope);
+    const removed = before.length - after.length;
+    return applyBatch(before, after, `Suppression de ${removed} occurrence(s)`, 'Supprimé');
   };
 
-  const resetFilters = () => {
-    setFilterCategory('ALL');
-    setFilterClient('');
-    setFilterType('');
+  const deleteTask = (id: string) => {
+    const existing = tasks.find(t => t.id === id);
+    if (!existing) return;
+    const locked = invoiceLockError(existing);
+    if (locked) {
+      toast({ title: 'Suppression impossible', description: locked, variant: 'destructive' });
+      return;
+    }
+    const range = `${existing.dateISO} ${formatTime(existing.startHour)} → ${formatTime(existing.endHour)}`;
+    runCommand(createCommand(`Suppression ${range}`, [existing], []), 'Supprimé', range);
   };
 
+  const resetFilters = () => setFilters({ category: 'ALL', client: '', type: '' });
+
   const anyFilter = filterCategory !== 'ALL' || !!filterClient || !!filterType;
 
   // CSV export
@@ -188,6 +375,25 @@ export default function Index() {
     downloadCSV(toCSV(tasks), 'export_complet.csv');
   };
 
+  const exportWeekXLSX = () => {
+    const data = tasks.filter(t => weekDatesISO.includes(t.dateISO));
+    downloadXLSX(buildXLSX(tasksWorkbook(data)), `export_semaine_${isoDate(weekStart)}.xlsx`);
+  };
+
+  const exportAllXLSX = () => {
+    downloadXLSX(buildXLSX(tasksWorkbook(tasks)), 'export_complet.xlsx');
+  };
+
+  function downloadXLSX(data: Uint8Array, filename: string) {
+    const blob = new Blob([data], { type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' });
+    const link = document.createElement('a');
+    const url = URL.createObjectURL(blob);
+    link.href = url;
+    link.download = filename;
+    link.click();
+    URL.revokeObjectURL(url);
+  }
+
   function downloadCSV(csv: string, filename: string) {
     const BOM = '\uFEFF';
     const blob = new Blob([BOM + csv], { type: 'text/csv;charset=utf-8;' });
@@ -199,58 +405,76 @@ export default function Index() {
     URL.revokeObjectURL(url);
   }
 
-  // CSV import
-  const handleCSVImport = (importedTasks: Task[]) => {
-    // Check for overlaps with existing tasks
-    const conflicts: string[] = [];
-    
-    importedTasks.forEach(newTask => {
-      const hasConflict = tasks.some(existingTask => 
-        overlaps(newTask, existingTask)
-      );
-      
-      if (hasConflict) {
-        conflicts.push(`${newTask.dateISO} ${pad(newTask.startHour)}:00-${pad(newTask.endHour)}:00`);
-      }
-    });
-
-    if (conflicts.length > 0) {
-      toast({
-        title: 'Conflits détectés',
-        description: `${conflicts.length} tâche(s) en conflit avec l'existant. Import annulé.`,
-        variant: 'destructive'
-      });
-      console.warn('Conflits d\'horaires:', conflicts);
-      return;
-    }
-
-    // Add all tasks
-    setTasks(prev => [...prev, ...importedTasks]);
-    
-    toast({
-      title: 'Import terminé',
-      description: `${importedTasks.length} tâche(s) ajoutée(s) sans conflit`
-    });
-  };
-
   return (
     <main className="min-h-screen bg-background">
       <header className="border-b">
         <div className="container py-6">
           <h1>Time Tracking — Agenda hebdomadaire</h1>
-          <p className="text-muted-foreground mt-1">Lundi → Samedi, 07:00 → 20:00</p>
+          <p className="text-muted-foreground mt-1">{weekDaysLabel(settings)}, {dayRangeLabel(settings)}</p>
 
           <div className="mt-4 flex items-center gap-3 flex-wrap">
-            <Button variant="secondary" onClick={() => setWeekStart(prev => addDays(prev, -7))}>Semaine précédente</Button>
-            <div className="px-3 py-1 border rounded-md text-sm">{weekLabel}</div>
-            <Button onClick={() => setWeekStart(prev => addDays(prev, 7))}>Semaine suivante</Button>
+            <div className="flex rounded-md border p-0.5" role="group" aria-label="Vue">
+              {(['DAY', 'WEEK', 'MONTH', 'AGENDA'] as CalendarView[]).map(v => (
+                <Button key={v} size="sm" variant={view === v ? 'secondary' : 'ghost'} aria-pressed={view === v} onClick={() => changeView(v)}>
+                  {VIEW_LABELS[v]}
+                </Button>
+              ))}
+            </div>
+            <Button variant="secondary" onClick={() => movePeriod(-1)}>Précédent</Button>
+            <div className="px-3 py-1 border rounded-md text-sm capitalize">{periodLabel}</div>
+            <Button onClick={() => movePeriod(1)}>Suivant</Button>
+            <Button variant="outline" onClick={() => goTo(view, new Date())}>Aujourd'hui</Button>
+            <Button variant="outline" disabled={!history.canUndo} onClick={() => undoWithToast(history.undo())} title="Ctrl/⌘+Z">Annuler</Button>
+            <Button variant="outline" disabled={!history.canRedo} onClick={() => redoWithToast(history.redo())} title="Ctrl/⌘+Shift+Z">Rétablir</Button>
+            <Button variant="outline" onClick={() => setCopySource({ kind: 'week', weekStartISO: isoDate(weekStart) })}>Dupliquer la semaine…</Button>
+            <Button variant="ghost" asChild><Link to="/clients">Clients</Link></Button>
+            <Button variant="ghost" asChild><Link to="/factures">Factures</Link></Button>
+            <Button variant="ghost" asChild><Link to="/devis">Devis</Link></Button>
+            <Button variant="ghost" asChild><Link to="/rapports">Rapports</Link></Button>
+            <Button variant="ghost" onClick={() => setSettingsOpen(true)}>Réglages</Button>
+            <Button variant="ghost" onClick={() => setBackupOpen(true)}>Sauvegarde</Button>
           </div>
 
+          <div className="mt-4">
+            <TimerWidget
+              settings={settings}
+              tasks={tasks}
+              clients={activeClients}
+              projectsByClient={projectsByClient}
+              types={types}
+              onSave={upsertTask}
+            />
+          </div>
+
+          {(storageError || clientsError) && (
+            <Alert variant="destructive" className="mt-4">
+              <AlertTitle>Enregistrement impossible</AlertTitle>
+              <AlertDescription className="flex items-center justify-between gap-3 flex-wrap">
+                <span>{storageError || clientsError} — les dernières modifications ne sont pas sauvegardées.</span>
+                {loaded && <Button size="sm" variant="outline" onClick={() => setSaveAttempt(n => n + 1)}>Réessayer</Button>}
+              </AlertDescription>
+            </Alert>
+          )}
+
+          {settingsError && (
+            <Alert variant="destructive" className="mt-4">
+              <AlertTitle>Réglages indisponibles</AlertTitle>
+              <AlertDescription>{settingsError} — heures et jours affichés par défaut ou non sauvegardés.</AlertDescription>
+            </Alert>
+          )}
+
+          {templatesError && (
+            <Alert variant="destructive" className="mt-4">
+              <AlertTitle>Modèles de tâches indisponibles</AlertTitle>
+              <AlertDescription>{templatesError}</AlertDescription>
+            </Alert>
+          )}
+
           {/* Filters */}
           <div className="mt-6 grid grid-cols-1 md:grid-cols-4 gap-4">
             <div className="space-y-1">
               <Label>Catégorie</Label>
-              <select className="h-10 w-full border rounded-md px-3" value={filterCategory} onChange={(e) => setFilterCategory(e.target.value as any)}>
+              <select className="h-10 w-full border rounded-md px-3" value={filterCategory} onChange={(e) => setFilters({ category: e.target.value as TaskFilters['category'] })}>
                 <option value="ALL">Toutes</option>
                 <option value="FACTURABLE">FACTURABLE</option>
                 <option value="NON_FACTURABLE">NON_FACTURABLE</option>
@@ -258,41 +482,108 @@ export default function Index() {
             </div>
             <div className="space-y-1">
               <Label>Client</Label>
-              <select className="h-10 w-full border rounded-md px-3" value={filterClient} onChange={(e) => setFilterClient(e.target.value)}>
+              <select className="h-10 w-full border rounded-md px-3" value={filterClient} onChange={(e) => setFilters({ client: e.target.value })}>
                 <option value="">Tous</option>
                 {clients.map(c => <option key={c} value={c}>{c}</option>)}
               </select>
             </div>
             <div className="space-y-1">
               <Label>Type</Label>
-              <select className="h-10 w-full border rounded-md px-3" value={filterType} onChange={(e) => setFilterType(e.target.value)}>
+              <select className="h-10 w-full border rounded-md px-3" value={filterType} onChange={(e) => setFilters({ type: e.target.value })}>
                 <option value="">Tous</option>
                 {types.map(t => <option key={t} value={t}>{t}</option>)}
               </select>
             </div>
             <div className="flex items-end gap-2 flex-wrap">
               {anyFilter && <Button variant="secondary" onClick={resetFilters}>Réinitialiser</Button>}
-              <CSVImport onImport={handleCSVImport} />
+              <CSVImport tasks={tasks} settings={settings} onImport={applyBatch} />
               <Button onClick={exportWeek}>Export CSV (semaine)</Button>
               <Button variant="secondary" onClick={exportAll}>Export CSV (tout)</Button>
+              <Button onClick={exportWeekXLSX}>Export Excel (semaine)</Button>
+              <Button variant="secondary" onClick={exportAllXLSX}>Export Excel (tout)</Button>
+              <ICSImport tasks={tasks} settings={settings} clients={activeClients} types={types} weekStart={weekStart} onImport={applyBatch} />
+              <ICSExport tasks={tasks} weekStart={weekStart} />
+              <Button variant="outline" asChild><Link to={`/impression/semaine/${isoDate(weekStart)}`}>Imprimer / PDF (semaine)</Link></Button>
             </div>
           </div>
         </div>
       </header>
 
       <section className="container py-6">
-        <WeeklyGrid
-          weekStart={weekStart}
-          tasks={tasks}
-          filteredTasks={filteredTasks}
-          clients={clients}
-          projectsByClient={projectsByClient}
-          quotesByClient={quotesByClient}
-          types={types}
-          onUpsert={upsertTask}
-          onDelete={deleteTask}
-        />
+        <div className="mb-4">
+          <QuickEntryBar
+            weekStart={weekStart}
+            settings={settings}
+            clients={clients}
+            types={types}
+            projectsByClient={projectsByClient}
+            onSave={upsertTask}
+          />
+        </div>
+        {view === 'WEEK' && (
+          <WeeklyGrid
+            weekStart={weekStart}
+            settings={settings}
+            tasks={tasks}
+            filteredTasks={filteredTasks}
+            clients={clientRegistry}
+            onClientsChange={saveClients}
+            projectsByClient={projectsByClient}
+            quotesByClient={quotesByClient}
+            types={types}
+            onUpsert={upsertTask}
+            onDelete={deleteTask}
+            onBatch={applyBatch}
+            onCopyDay={(dateISO) => setCopySource({ kind: 'day', dateISO })}
+            onSaveSeries={saveSeries}
+            onDeleteSeries={deleteSeries}
+            templates={templates}
+            onSaveTemplates={saveTemplates}
+            onDeleteTemplate={deleteTemplate}
+            onCheckQuote={checkQuote}
+            openTaskId={openTaskId}
+            onOpenTask={setOpenTask}
+          />
+        )}
+        {view === 'DAY' && (
+          <DayView
+            dateISO={focusISO}
+            settings={settings}
+            tasks={tasks}
+            dayTasks={dayTasks}
+            clients={clientRegistry}
+            projectsByClient={projectsByClient}
+            quotesByClient={quotesByClient}
+            types={types}
+            onUpsert={upsertTask}
+            onDelete={deleteTask}
+            onSaveSeries={saveSeries}
+            onDeleteSeries={deleteSeries}
+            onSaveTemplates={saveTemplates}
+            onCheckQuote={checkQuote}
+          />
+        )}
+        {view === 'MONTH' && (
+          <MonthView month={focusDate} settings={settings} tasks={matchingTasks} clients={clientRegistry} onOpenDay={openWeekOf} />
+        )}
+        {view === 'AGENDA' && (
+          <AgendaView
+            fromISO={monthFromISO}
+            toISO={monthToISO}
+            settings={settings}
+            tasks={matchingTasks}
+            clients={clientRegistry}
+            projectsByClient={projectsByClient}
+            types={types}
+            onUpsert={upsertTask}
+            onDelete={deleteTask}
+          />
+        )}
       </section>
+
+      <CopyPeriodDialog source={copySource} tasks={tasks} onClose={() => setCopySource(null)} onApply={applyBatch} />
+      <SettingsDialog open={settingsOpen} settings={settings} onClose={() => setSettingsOpen(false)} onSave={updateSettings} />
+      <BackupDialog open={backupOpen} onOpenChange={setBackupOpen} />
     </main>
   );
 }
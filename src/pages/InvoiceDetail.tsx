@@ -0,0 +1,205 @@
+import { useEffect, useMemo, useState } from 'react';
+import { Link, useNavigate, useParams } from 'react-router-dom';
+import { Invoice, Task } from '@/types';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Table, TableBody, TableCell, TableFooter, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useClients } from '@/hooks/use-clients';
+import { useToast } from '@/hooks/use-toast';
+import { deleteInvoice, issueInvoice, loadInvoices, loadTasks } from '@/utils/storage';
+import { staleInvoiceTasks, withInvoiceTasks } from '@/utils/invoices';
+import { formatMoney } from '@/utils/clients';
+import { formatDateFR, formatHours, formatTime } from '@/utils/date';
+import { taskPath } from '@/utils/routes';
+
+export default function InvoiceDetail() {
+  const { id } = useParams<{ id: string }>();
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const { clients } = useClients();
+  const [invoice, setInvoice] = useState<Invoice | null | undefined>(undefined);
+  const [tasks, setTasks] = useState<Task[]>([]);
+  const [busy, setBusy] = useState(false);
+  const [loadError, setLoadError] = useState<string | null>(null);
+
+  useEffect(() => {
+    Promise.all([loadInvoices(), loadTasks()])
+      .then(([invoices, allTasks]) => {
+        setInvoice(invoices.find(i => i.id === id) ?? null);
+        setTasks(allTasks);
+      })
+      .catch((e) => setLoadError(e instanceof Error ? e.message : String(e)));
+  }, [id]);
+
+  useEffect(() => {
+    document.title = `Time Tracking · ${invoice?.number ?? 'Facture'}`;
+  }, [invoice]);
+
+  const invoiceTasks = useMemo(() => {
+    if (!invoice) return [];
+    const ids = new Set(invoice.taskIds);
+    return tasks
+      .filter(t => ids.has(t.id))
+      .sort((a, b) => a.dateISO.localeCompare(b.dateISO) || a.startHour - b.startHour);
+  }, [invoice, tasks]);
+
+  const client = invoice ? clients.find(c => c.key === invoice.clientKey) : undefined;
+
+  const handleIssue = async () => {
+    if (!invoice) return;
+    const stale = staleInvoiceTasks(invoice, tasks);
+    if (stale.length > 0) {
+      toast({
+        title: 'Brouillon périmé',
+        description: `${stale.length} tâche(s) ont été supprimées ou facturées depuis. Supprimez ce brouillon et régénérez-le.`,
+        variant: 'destructive',
+      });
+      return;
+    }
+    setBusy(true);
+    try {
+      // Lines are recomputed from the current tasks, in case they were edited since the draft
+      const res = await issueInvoice(withInvoiceTasks(invoice, invoiceTasks), invoiceTasks);
+      const byId = new Map(res.tasks.map(t => [t.id, t]));
+      setTasks(prev => prev.map(t => byId.get(t.id) ?? t));
+      setInvoice(res.invoice);
+      toast({ title: 'Facture émise', description: `${res.invoice.number} — ${res.tasks.length} tâche(s) marquée(s) facturée(s)` });
+    } catch (e) {
+      toast({ title: "Échec de l'émission", description: e instanceof Error ? e.message : String(e), variant: 'destructive' });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!invoice || invoice.status !== 'DRAFT') return;
+    try {
+      await deleteInvoice(invoice.id);
+      navigate('/factures');
+    } catch (e) {
+      toast({ title: 'Suppression impossible', description: e instanceof Error ? e.message : String(e), variant: 'destructive' });
+    }
+  };
+
+  if (loadError) {
+    return (
+      <main className="min-h-screen bg-background container py-6">
+        <p className="text-destructive">Chargement de la facture impossible : {loadError}</p>
+        <Button variant="secondary" className="mt-4" asChild><Link to="/factures">← Factures</Link></Button>
+      </main>
+    );
+  }
+
+  if (invoice === undefined) return null;
+
+  if (invoice === null) {
+    return (
+      <main className="min-h-screen bg-background container py-6">
+        <p className="text-muted-foreground">Facture introuvable.</p>
+        <Button variant="secondary" className="mt-4" asChild><Link to="/factures">← Factures</Link></Button>
+      </main>
+    );
+  }
+
+  const isDraft = invoice.status === 'DRAFT';
+
+  return (
+    <main className="min-h-screen bg-background">
+      <header className="border-b">
+        <div className="container py-6">
+          <div className="flex items-center gap-3">
+            <h1>{invoice.number ?? 'Brouillon de facture'}</h1>
+            <Badge variant="secondary" className={isDraft ? 'bg-[hsl(var(--warning))] text-[hsl(var(--warning-foreground))]' : 'bg-[hsl(var(--success))] text-[hsl(var(--success-foreground))]'}>
+              {isDraft ? 'Brouillon' : 'Émise'}
+            </Badge>
+          </div>
+          <p className="text-muted-foreground mt-1">
+            {invoice.clientName} · {formatDateFR(invoice.fromISO)} → {formatDateFR(invoice.toISO)}
+            {invoice.issuedISO && ` · émise le ${formatDateFR(invoice.issuedISO.slice(0, 10))}`}
+          </p>
+          {client && (client.address || client.vatNumber) && (
+            <p className="text-sm text-muted-foreground mt-2 whitespace-pre-line">
+              {client.address}
+              {client.vatNumber && `\nTVA : ${client.vatNumber}`}
+            </p>
+          )}
+          <div className="mt-4 flex items-center gap-3 flex-wrap">
+            <Button variant="secondary" asChild><Link to="/factures">← Factures</Link></Button>
+            <Button variant="outline" asChild><Link to={`/impression/facture/${invoice.id}`}>Imprimer / PDF</Link></Button>
+            {isDraft && <Button onClick={handleIssue} disabled={busy}>Émettre la facture</Button>}
+            {isDraft && <Button variant="destructive" onClick={handleDelete} disabled={busy}>Supprimer le brouillon</Button>}
+          </div>
+        </div>
+      </header>
+
+      <section className="container py-6" aria-label="Lignes de facture">
+        <h2 className="mb-2">Lignes</h2>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Projet</TableHead>
+              <TableHead>Devis</TableHead>
+              <TableHead className="text-right">Heures</TableHead>
+              <TableHead className="text-right">Taux HT</TableHead>
+              <TableHead className="text-right">Montant HT</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {invoice.lines.map(l => (
+              <TableRow key={`${l.project ?? ''}|${l.quote ?? ''}`}>
+                <TableCell>{l.project ?? '—'}</TableCell>
+                <TableCell>{l.quote ?? '—'}</TableCell>
+                <TableCell className="text-right">{formatHours(l.hours)}</TableCell>
+                <TableCell className="text-right">{formatMoney(l.rate, invoice.currency)}</TableCell>
+                <TableCell className="text-right">{formatMoney(l.amount, invoice.currency)}</TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+          <TableFooter>
+            <TableRow>
+              <TableCell colSpan={2}>Total HT</TableCell>
+              <TableCell className="text-right">{formatHours(invoice.totalHours)}</TableCell>
+              <TableCell />
+              <TableCell className="text-right">{formatMoney(invoice.totalAmount, invoice.currency)}</TableCell>
+            </TableRow>
+          </TableFooter>
+        </Table>
+      </section>
+
+      <section className="container pb-6" aria-label="Tâches facturées">
+        <h2 className="mb-2">Tâches ({invoiceTasks.length})</h2>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Date</TableHead>
+              <TableHead>Horaire</TableHead>
+              <TableHead>Projet</TableHead>
+              <TableHead>Devis</TableHead>
+              <TableHead>Description</TableHead>
+              <TableHead className="text-right">Durée</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {invoiceTasks.map(t => (
+              <TableRow key={t.id}>
+                <TableCell>
+                  <Link to={taskPath(t.id)} className="hover:underline">{formatDateFR(t.dateISO)}</Link>
+                </TableCell>
+                <TableCell>{formatTime(t.startHour)} → {formatTime(t.endHour)}</TableCell>
+                <TableCell>{t.project ?? '—'}</TableCell>
+                <TableCell>{t.quote ?? '—'}</TableCell>
+                <TableCell className="text-muted-foreground">{t.description ?? ''}</TableCell>
+                <TableCell className="text-right">{formatHours(t.endHour - t.startHour)}</TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+        {invoiceTasks.length < invoice.taskIds.length && (
+          <p className="text-sm text-muted-foreground mt-2">
+            {invoice.taskIds.length - invoiceTasks.length} tâche(s) de cette facture ont été supprimées de l'agenda.
+          </p>
+        )}
+      </section>
+    </main>
+  );
+}
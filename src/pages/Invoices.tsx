@@ -0,0 +1,192 @@
+import { useEffect, useMemo, useState } from 'react';
+import { Link, useNavigate } from 'react-router-dom';
+import { Invoice, Task } from '@/types';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Table, TableBody, TableCell, TableFooter, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useClients } from '@/hooks/use-clients';
+import { useToast } from '@/hooks/use-toast';
+import { loadInvoices, loadTasks, saveInvoice } from '@/utils/storage';
+import { buildInvoiceDraft } from '@/utils/invoices';
+import { formatMoney } from '@/utils/clients';
+import { endOfMonth, formatDateFR, formatHours, isoDate, startOfMonth } from '@/utils/date';
+
+export default function Invoices() {
+  const { toast } = useToast();
+  const navigate = useNavigate();
+  const { clients } = useClients();
+  const [tasks, setTasks] = useState<Task[]>([]);
+  const [invoices, setInvoices] = useState<Invoice[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  // Generator
+  const [clientKey, setClientKey] = useState('');
+  const [fromISO, setFromISO] = useState(() => isoDate(startOfMonth()));
+  const [toISO, setToISO] = useState(() => isoDate(endOfMonth()));
+  const [rate, setRate] = useState('');
+
+  useEffect(() => {
+    document.title = 'Time Tracking · Factures';
+    Promise.all([loadTasks(), loadInvoices()])
+      .then(([t, i]) => { setTasks(t); setInvoices(i); })
+      .catch((e) => setError(e instanceof Error ? e.message : String(e)));
+  }, []);
+
+  const activeClients = useMemo(() => clients.filter(c => !c.archived), [clients]);
+  const client = useMemo(() => clients.find(c => c.key === clientKey), [clients, clientKey]);
+
+  useEffect(() => {
+    setRate(client?.hourlyRate !== undefined ? String(client.hourlyRate) : '');
+  }, [client]);
+
+  const parsedRate = rate.trim() ? parseFloat(rate.replace(',', '.')) : NaN;
+  const draft = useMemo(() => {
+    if (!client || !fromISO || !toISO || fromISO > toISO) return null;
+    return buildInvoiceDraft(client, tasks, fromISO, toISO, Number.isFinite(parsedRate) ? parsedRate : 0);
+  }, [client, tasks, fromISO, toISO, parsedRate]);
+
+  // Tasks already on a pending draft should not be invoiced twice
+  const draftTaskIds = useMemo(() => new Set(invoices.filter(i => i.status === 'DRAFT').flatMap(i => i.taskIds)), [invoices]);
+  const alreadyDrafted = draft ? draft.taskIds.filter(id => draftTaskIds.has(id)).length : 0;
+
+  const createDraft = async () => {
+    if (!draft) return;
+    if (!Number.isFinite(parsedRate) || parsedRate <= 0) {
+      toast({ title: 'Taux horaire requis', description: 'Renseignez un taux ici ou sur la fiche client.', variant: 'destructive' });
+      return;
+    }
+    if (draft.taskIds.length === 0) {
+      toast({ title: 'Rien à facturer', description: 'Aucune tâche facturable non facturée sur la période.' });
+      return;
+    }
+    try {
+      await saveInvoice(draft);
+      navigate(`/factures/${draft.id}`);
+    } catch (e) {
+      toast({ title: 'Échec de la sauvegarde', description: e instanceof Error ? e.message : String(e), variant: 'destructive' });
+    }
+  };
+
+  return (
+    <main className="min-h-screen bg-background">
+      <header className="border-b">
+        <div className="container py-6">
+          <h1>Factures</h1>
+          <p className="text-muted-foreground mt-1">Génération à partir des tâches FACTURABLE non facturées</p>
+          <div className="mt-4 flex items-center gap-3 flex-wrap">
+            <Button variant="secondary" asChild><Link to="/">← Agenda</Link></Button>
+            <Button variant="ghost" asChild><Link to="/clients">Clients</Link></Button>
+          </div>
+          {error && <div className="mt-4 text-sm text-destructive-foreground bg-destructive/15 rounded px-3 py-2">{error}</div>}
+        </div>
+      </header>
+
+      <section className="container py-6 space-y-4" aria-label="Nouvelle facture">
+        <h2>Nouvelle facture</h2>
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+          <div className="space-y-1">
+            <Label htmlFor="invoice-client">Client</Label>
+            <select id="invoice-client" className="h-10 w-full border rounded-md px-3" value={clientKey} onChange={(e) => setClientKey(e.target.value)}>
+              <option value="">— Choisir —</option>
+              {activeClients.map(c => <option key={c.key} value={c.key}>{c.name}</option>)}
+            </select>
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="invoice-from">Du</Label>
+            <Input id="invoice-from" type="date" value={fromISO} onChange={(e) => setFromISO(e.target.value)} />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="invoice-to">Au</Label>
+            <Input id="invoice-to" type="date" value={toISO} onChange={(e) => setToISO(e.target.value)} />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="invoice-rate">Taux horaire HT{client ? ` (${client.currency})` : ''}</Label>
+            <Input id="invoice-rate" inputMode="decimal" value={rate} onChange={(e) => setRate(e.target.value)} placeholder="Ex: 85" />
+          </div>
+        </div>
+
+        {draft && (
+          <div className="space-y-3">
+            {alreadyDrafted > 0 && (
+              <div className="text-sm bg-[hsl(var(--warning)/0.2)] rounded px-3 py-2">
+                {alreadyDrafted} tâche(s) figurent déjà sur un brouillon en attente.
+              </div>
+            )}
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Projet</TableHead>
+                  <TableHead>Devis</TableHead>
+                  <TableHead className="text-right">Tâches</TableHead>
+                  <TableHead className="text-right">Heures</TableHead>
+                  <TableHead className="text-right">Montant HT</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {draft.lines.length === 0 && (
+                  <TableRow><TableCell colSpan={5} className="text-muted-foreground">Aucune tâche à facturer sur la période.</TableCell></TableRow>
+                )}
+                {draft.lines.map(l => (
+                  <TableRow key={`${l.project ?? ''}|${l.quote ?? ''}`}>
+                    <TableCell>{l.project ?? '—'}</TableCell>
+                    <TableCell>{l.quote ?? '—'}</TableCell>
+                    <TableCell className="text-right">{l.taskIds.length}</TableCell>
+                    <TableCell className="text-right">{formatHours(l.hours)}</TableCell>
+                    <TableCell className="text-right">{formatMoney(l.amount, draft.currency)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+              <TableFooter>
+                <TableRow>
+                  <TableCell colSpan={3}>Total</TableCell>
+                  <TableCell className="text-right">{formatHours(draft.totalHours)}</TableCell>
+                  <TableCell className="text-right">{formatMoney(draft.totalAmount, draft.currency)}</TableCell>
+                </TableRow>
+              </TableFooter>
+            </Table>
+            <Button onClick={createDraft} disabled={draft.taskIds.length === 0}>Créer le brouillon</Button>
+          </div>
+        )}
+      </section>
+
+      <section className="container py-6" aria-label="Liste des factures">
+        <h2 className="mb-2">Factures</h2>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Numéro</TableHead>
+              <TableHead>Client</TableHead>
+              <TableHead>Période</TableHead>
+              <TableHead className="text-right">Heures</TableHead>
+              <TableHead className="text-right">Montant HT</TableHead>
+              <TableHead>Statut</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {invoices.length === 0 && (
+              <TableRow><TableCell colSpan={6} className="text-muted-foreground">Aucune facture pour l'instant.</TableCell></TableRow>
+            )}
+            {invoices.map(inv => (
+              <TableRow key={inv.id} className="cursor-pointer" onClick={() => navigate(`/factures/${inv.id}`)}>
+                <TableCell className="font-medium">
+                  <Link to={`/factures/${inv.id}`} className="hover:underline">{inv.number ?? 'Brouillon'}</Link>
+                </TableCell>
+                <TableCell>{inv.clientName}</TableCell>
+                <TableCell>{formatDateFR(inv.fromISO)} → {formatDateFR(inv.toISO)}</TableCell>
+                <TableCell className="text-right">{formatHours(inv.totalHours)}</TableCell>
+                <TableCell className="text-right">{formatMoney(inv.totalAmount, inv.currency)}</TableCell>
+                <TableCell>
+                  <Badge variant="secondary" className={inv.status === 'ISSUED' ? 'bg-[hsl(var(--success))] text-[hsl(var(--success-foreground))]' : 'bg-[hsl(var(--warning))] text-[hsl(var(--warning-foreground))]'}>
+                    {inv.status === 'ISSUED' ? 'Émise' : 'Brouillon'}
+                  </Badge>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </section>
+    </main>
+  );
+}
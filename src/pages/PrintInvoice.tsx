@@ -0,0 +1,44 @@
+import { useEffect, useState } from 'react';
+import { useParams } from 'react-router-dom';
+import { Invoice, Task } from '@/types';
+import PrintLayout, { SignatureBlock } from '@/components/time-tracking/PrintLayout';
+import ClientTimesheet from '@/components/time-tracking/ClientTimesheet';
+import { useClients } from '@/hooks/use-clients';
+import { loadInvoices, loadTasks } from '@/utils/storage';
+import { formatDateFR } from '@/utils/date';
+
+export default function PrintInvoice() {
+  const { id } = useParams<{ id: string }>();
+  const { clients } = useClients();
+  const [invoice, setInvoice] = useState<Invoice | null>(null);
+  const [tasks, setTasks] = useState<Task[]>([]);
+
+  useEffect(() => {
+    Promise.all([loadInvoices(), loadTasks()])
+      .then(([invoices, allTasks]) => {
+        const found = invoices.find(i => i.id === id) ?? null;
+        const ids = new Set(found?.taskIds ?? []);
+        setInvoice(found);
+        setTasks(allTasks.filter(t => ids.has(t.id)));
+      })
+      .catch(() => setInvoice(null));
+  }, [id]);
+
+  if (!invoice) return null;
+
+  const title = invoice.number ? `Facture ${invoice.number}` : 'Facture (brouillon)';
+  return (
+    <PrintLayout documentTitle={(invoice.number ?? 'facture_brouillon').replace(/\s+/g, '_')} backTo={`/factures/${invoice.id}`}>
+      <ClientTimesheet
+        clientName={invoice.clientName}
+        client={clients.find(c => c.key === invoice.clientKey)}
+        title={title}
+        periodLabel={`Période du ${formatDateFR(invoice.fromISO)} au ${formatDateFR(invoice.toISO)}${invoice.issuedISO ? ` · émise le ${formatDateFR(invoice.issuedISO.slice(0, 10))}` : ''}`}
+        tasks={tasks}
+        rate={invoice.rate}
+        currency={invoice.currency}
+      />
+      <SignatureBlock left="Bon pour accord" right="Le client" />
+    </PrintLayout>
+  );
+}
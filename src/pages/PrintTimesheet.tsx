@@ -0,0 +1,76 @@
+import { useEffect, useMemo, useState } from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
+import { Task } from '@/types';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import PrintLayout, { SignatureBlock } from '@/components/time-tracking/PrintLayout';
+import ClientTimesheet from '@/components/time-tracking/ClientTimesheet';
+import { Input } from '@/components/ui/input';
+import { useClients } from '@/hooks/use-clients';
+import { loadTasksInRange } from '@/utils/storage';
+import { normalizeClient } from '@/utils/color';
+import { endOfMonth, isoDate, startOfMonth } from '@/utils/date';
+
+function monthLabel(month: string) {
+  const [y, m] = month.split('-').map(Number);
+  return new Date(y, m - 1, 1).toLocaleDateString('fr-FR', { month: 'long', year: 'numeric' });
+}
+
+// Relevé mensuel d'un client (FACTURABLE uniquement), avec montants si le client a un taux.
+export default function PrintTimesheet() {
+  const { clientKey = '', month = isoDate(new Date()).slice(0, 7) } = useParams<{ clientKey: string; month: string }>();
+  const navigate = useNavigate();
+  const { clients } = useClients();
+  const [tasks, setTasks] = useState<Task[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const client = clients.find(c => c.key === clientKey);
+
+  const [y, m] = month.split('-').map(Number);
+  const fromISO = isoDate(startOfMonth(new Date(y, m - 1, 1)));
+  const toISO = isoDate(endOfMonth(new Date(y, m - 1, 1)));
+
+  useEffect(() => {
+    loadTasksInRange(fromISO, toISO)
+      .then((list) => {
+        setTasks(list);
+        setError(null);
+      })
+      .catch((e) => setError(e instanceof Error ? e.message : String(e)));
+  }, [fromISO, toISO]);
+
+  const clientTasks = useMemo(
+    () => tasks.filter(t => t.category === 'FACTURABLE' && t.client && normalizeClient(t.client) === clientKey),
+    [tasks, clientKey],
+  );
+  const clientName = client?.name ?? clientTasks[0]?.client ?? clientKey;
+
+  return (
+    <PrintLayout
+      documentTitle={`releve_${clientKey.replace(/\s+/g, '_')}_${month}`}
+      backTo="/clients"
+      toolbar={
+        <Input type="month" className="w-44" value={month} onChange={(e) => e.target.value && navigate(`/impression/releve/${encodeURIComponent(clientKey)}/${e.target.value}`)} />
+      }
+    >
+      {error ? (
+        // Jamais de document vide qui pourrait être signé et envoyé
+        <Alert variant="destructive">
+          <AlertTitle>Chargement des tâches impossible</AlertTitle>
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      ) : (
+        <>
+          <ClientTimesheet
+            clientName={clientName}
+            client={client}
+            title="Relevé d'heures"
+            periodLabel={monthLabel(month)}
+            tasks={clientTasks}
+            rate={client?.hourlyRate}
+            currency={client?.currency}
+          />
+          <SignatureBlock />
+        </>
+      )}
+    </PrintLayout>
+  );
+}
@@ -0,0 +1,63 @@
+import { useEffect, useState } from 'react';
+import { useParams } from 'react-router-dom';
+import { Task } from '@/types';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import PrintLayout, { SignatureBlock } from '@/components/time-tracking/PrintLayout';
+import WeekSheet from '@/components/time-tracking/WeekSheet';
+import { useClients } from '@/hooks/use-clients';
+import { useSettings } from '@/hooks/use-settings';
+import { loadTasksInRange } from '@/utils/storage';
+import { addDays, formatDateFR, getMonday, isoDate, parseISODate } from '@/utils/date';
+import { HoursMode, HOURS_MODE_LABELS, visibleWeekDatesISO } from '@/utils/settings';
+
+export default function PrintWeek() {
+  const { date } = useParams<{ date: string }>();
+  const weekStart = getMonday(date ? parseISODate(date) : new Date());
+  const fromISO = isoDate(weekStart);
+  const toISO = isoDate(addDays(weekStart, 6));
+  const { clients } = useClients();
+  const { settings } = useSettings();
+  const visibleISO = visibleWeekDatesISO(weekStart, settings);
+  const [tasks, setTasks] = useState<Task[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [hoursMode, setHoursMode] = useState<HoursMode | null>(null); // null = réglage par défaut
+
+  useEffect(() => {
+    loadTasksInRange(fromISO, toISO)
+      .then((list) => {
+        setTasks(list);
+        setError(null);
+      })
+      .catch((e) => setError(e instanceof Error ? e.message : String(e)));
+  }, [fromISO, toISO]);
+
+  return (
+    <PrintLayout
+      documentTitle={`feuille_de_temps_${fromISO}`}
+      backTo="/"
+      landscape
+      toolbar={
+        <select className="h-10 border rounded-md px-3 text-sm" value={hoursMode ?? settings.hoursMode} onChange={(e) => setHoursMode(e.target.value as HoursMode)} aria-label="Comptage des heures">
+          {(Object.keys(HOURS_MODE_LABELS) as HoursMode[]).map(m => <option key={m} value={m}>{HOURS_MODE_LABELS[m]}</option>)}
+        </select>
+      }
+    >
+      {error ? (
+        // Jamais de document vide qui pourrait être signé et envoyé
+        <Alert variant="destructive">
+          <AlertTitle>Chargement des tâches impossible</AlertTitle>
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      ) : (
+        <>
+          <div className="flex items-baseline justify-between mb-3">
+            <div className="text-xl font-bold">Feuille de temps hebdomadaire</div>
+            <div className="text-gray-600">Semaine du {formatDateFR(visibleISO[0])} au {formatDateFR(visibleISO[visibleISO.length - 1])}</div>
+          </div>
+          <WeekSheet weekStart={weekStart} settings={settings} tasks={tasks.filter(t => visibleISO.includes(t.dateISO))} clients={clients} hoursMode={hoursMode ?? settings.hoursMode} />
+          <SignatureBlock />
+        </>
+      )}
+    </PrintLayout>
+  );
+}
@@ -0,0 +1,246 @@
+import { useEffect, useMemo, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { CartesianGrid, Line, LineChart, ReferenceLine, XAxis, YAxis } from 'recharts';
+import { Quote, Task } from '@/types';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Table, TableBody, TableCell, TableFooter, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { ChartConfig, ChartContainer, ChartLegend, ChartLegendContent, ChartTooltip, ChartTooltipContent } from '@/components/ui/chart';
+import QuoteDialog from '@/components/time-tracking/QuoteDialog';
+import { useClients } from '@/hooks/use-clients';
+import { useQuotes } from '@/hooks/use-quotes';
+import { useToast } from '@/hooks/use-toast';
+import { formatMoney } from '@/utils/clients';
+import { formatDateFR, formatHours, formatTime, isoDate } from '@/utils/date';
+import { QUOTE_STATUS_LABELS, burnDown, quoteUsage, taskMatchesQuote } from '@/utils/quotes';
+import { taskPath } from '@/utils/routes';
+import { loadTasks, saveTaskChanges } from '@/utils/storage';
+import { activityLabel } from '@/utils/totals';
+
+const chartConfig = {
+  consumed: { label: 'Consommées', color: 'hsl(var(--primary))' },
+  remaining: { label: 'Restantes', color: 'hsl(var(--success))' },
+} satisfies ChartConfig;
+
+const STATUS_CLASSES: Record<Quote['status'], string> = {
+  DRAFT: '',
+  ACCEPTED: 'bg-[hsl(var(--success))] text-[hsl(var(--success-foreground))]',
+  CLOSED: 'opacity-70',
+};
+
+export default function Quotes() {
+  const { toast } = useToast();
+  const { clients } = useClients();
+  const { quotes, loaded, error, saveQuote, deleteQuote } = useQuotes();
+  const [tasks, setTasks] = useState<Task[]>([]);
+  const [clientKey, setClientKey] = useState('');
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editing, setEditing] = useState<Quote | undefined>(undefined);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+
+  useEffect(() => {
+    document.title = 'Time Tracking · Devis';
+    loadTasks().then(setTasks).catch(() => setTasks([]));
+  }, []);
+
+  const visible = useMemo(() => quotes.filter(q => !clientKey || q.clientKey === clientKey), [quotes, clientKey]);
+  const usages = useMemo(
+    () => new Map(quotes.map(q => [q.id, quoteUsage(q, tasks, clients.find(c => c.key === q.clientKey))])),
+    [quotes, tasks, clients],
+  );
+
+  const selected = quotes.find(q => q.id === selectedId);
+  const selectedUsage = selected ? usages.get(selected.id) : undefined;
+  const points = useMemo(
+    () => (selected && selectedUsage ? burnDown(selectedUsage, selected.createdISO.slice(0, 10)) : []),
+    [selected, selectedUsage],
+  );
+  const today = isoDate(new Date());
+
+  const openCreate = () => { setEditing(undefined); setDialogOpen(true); };
+  const openEdit = (quote: Quote) => { setEditing(quote); setDialogOpen(true); };
+
+  const handleSave = async (quote: Quote, previous?: Quote) => {
+    // Tasks carry the reference as free text, so rewrite them when it changes
+    if (previous && previous.reference !== quote.reference) {
+      const renamed = tasks
+        .filter(t => taskMatchesQuote(previous, t))
+        .map(t => ({ ...t, quote: quote.reference }));
+      try {
+        await saveTaskChanges(renamed, []);
+        const byId = new Map(renamed.map(t => [t.id, t]));
+        setTasks(prev => prev.map(t => byId.get(t.id) ?? t));
+      } catch (e) {
+        toast({ title: 'Renommage impossible', description: e instanceof Error ? e.message : String(e), variant: 'destructive' });
+        return;
+      }
+    }
+    await saveQuote(quote);
+    toast({ title: 'Devis enregistré', description: `${quote.clientName} — ${quote.reference}` });
+  };
+
+  const handleDelete = async (quote: Quote) => {
+    await deleteQuote(quote.id);
+    if (selectedId === quote.id) setSelectedId(null);
+    toast({ title: 'Devis supprimé', description: 'Les tâches conservent leur référence de devis.' });
+  };
+
+  return (
+    <main className="min-h-screen bg-background">
+      <header className="border-b">
+        <div className="container py-6">
+          <h1>Devis</h1>
+          <p className="text-muted-foreground mt-1">Budgets vendus au forfait et heures consommées par les tâches portant la référence</p>
+          <div className="mt-4 flex items-center gap-3 flex-wrap">
+            <Button variant="secondary" asChild><Link to="/">← Agenda</Link></Button>
+            <Button variant="ghost" asChild><Link to="/clients">Clients</Link></Button>
+            <Button variant="ghost" asChild><Link to="/factures">Factures</Link></Button>
+            <Button onClick={openCreate} disabled={!loaded}>Nouveau devis</Button>
+            <select className="h-10 border rounded-md px-3" value={clientKey} onChange={(e) => setClientKey(e.target.value)} aria-label="Filtrer par client">
+              <option value="">Tous les clients</option>
+              {clients.map(c => <option key={c.key} value={c.key}>{c.name}</option>)}
+            </select>
+          </div>
+          {error && <div className="mt-4 text-sm text-destructive-foreground bg-destructive/15 rounded px-3 py-2">{error}</div>}
+        </div>
+      </header>
+
+      <section className="container py-6">
+        {visible.length === 0 ? (
+          <p className="text-muted-foreground">Aucun devis. Les tâches facturables peuvent déjà porter une référence libre ; créez le devis pour suivre son budget.</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Client</TableHead>
+                <TableHead>Référence</TableHead>
+                <TableHead>Statut</TableHead>
+                <TableHead>Valable jusqu'au</TableHead>
+                <TableHead className="text-right">Vendu</TableHead>
+                <TableHead className="text-right">Consommé</TableHead>
+                <TableHead className="text-right">Restant</TableHead>
+                <TableHead />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {visible.map(q => {
+                const usage = usages.get(q.id)!;
+                const client = clients.find(c => c.key === q.clientKey);
+                const over = usage.remaining !== undefined && usage.remaining < 0;
+                const expired = !!q.validUntil && q.validUntil < today && q.status !== 'CLOSED';
+                return (
+                  <TableRow key={q.id} className={`cursor-pointer ${q.id === selectedId ? 'bg-muted/50' : ''}`} onClick={() => setSelectedId(q.id)}>
+                    <TableCell>{q.clientName}</TableCell>
+                    <TableCell className="font-medium">{q.reference}</TableCell>
+                    <TableCell>
+                      <Badge variant="secondary" className={STATUS_CLASSES[q.status]}>{QUOTE_STATUS_LABELS[q.status]}</Badge>
+                    </TableCell>
+                    <TableCell className={expired ? 'text-destructive' : ''}>
+                      {q.validUntil ? formatDateFR(q.validUntil) : '—'}{expired && ' (expiré)'}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {usage.budget !== undefined ? formatHours(usage.budget) : '—'}
+                      {q.budgetAmount !== undefined && (
+                        <div className="text-xs text-muted-foreground">{formatMoney(q.budgetAmount, client?.currency)}</div>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {formatHours(usage.consumed)}
+                      {usage.percent !== undefined && <div className="text-xs text-muted-foreground">{usage.percent} %</div>}
+                    </TableCell>
+                    <TableCell className={`text-right ${over ? 'text-destructive font-medium' : ''}`}>
+                      {usage.remaining !== undefined ? formatHours(usage.remaining) : '—'}
+                    </TableCell>
+                    <TableCell className="text-right whitespace-nowrap" onClick={(e) => e.stopPropagation()}>
+                      <Button variant="ghost" size="sm" onClick={() => openEdit(q)}>Modifier</Button>
+                      <Button variant="ghost" size="sm" onClick={() => handleDelete(q)}>Supprimer</Button>
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        )}
+      </section>
+
+      {selected && selectedUsage && (
+        <section className="container pb-10 space-y-4" aria-label="Consommation du devis">
+          <div className="flex items-center justify-between">
+            <h2>{selected.clientName} — {selected.reference}</h2>
+            <Button variant="ghost" onClick={() => setSelectedId(null)}>Fermer</Button>
+          </div>
+          {selectedUsage.budget === undefined && (
+            <div className="text-sm bg-[hsl(var(--warning)/0.2)] rounded px-3 py-2">
+              Budget en montant sans taux horaire sur la fiche client : seules les heures consommées sont suivies.
+            </div>
+          )}
+
+          <div className="border rounded-md p-4">
+            {points.length === 0 ? <div className="text-sm text-muted-foreground">Aucune tâche sur ce devis.</div> : (
+              <ChartContainer config={chartConfig} className="aspect-auto h-64 w-full">
+                <LineChart data={points}>
+                  <CartesianGrid vertical={false} />
+                  <XAxis dataKey="dateISO" tickLine={false} tickFormatter={(d: string) => formatDateFR(d)} />
+                  <YAxis tickFormatter={(h: number) => formatHours(h)} />
+                  <ChartTooltip content={<ChartTooltipContent labelFormatter={(d) => formatDateFR(String(d))} formatter={(v, name) => `${chartConfig[name as keyof typeof chartConfig]?.label ?? name} : ${formatHours(Number(v))}`} />} />
+                  <ChartLegend content={<ChartLegendContent />} />
+                  {selectedUsage.budget !== undefined && <ReferenceLine y={0} stroke="hsl(var(--destructive))" strokeDasharray="4 4" />}
+                  <Line type="stepAfter" dataKey="consumed" stroke="var(--color-consumed)" strokeWidth={2} dot={false} />
+                  {selectedUsage.budget !== undefined && (
+                    <Line type="stepAfter" dataKey="remaining" stroke="var(--color-remaining)" strokeWidth={2} dot={false} />
+                  )}
+                </LineChart>
+              </ChartContainer>
+            )}
+          </div>
+
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Date</TableHead>
+                <TableHead>Horaire</TableHead>
+                <TableHead>Activité</TableHead>
+                <TableHead>Description</TableHead>
+                <TableHead className="text-right">Heures</TableHead>
+                <TableHead>Facturation</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {selectedUsage.tasks.length === 0 && (
+                <TableRow><TableCell colSpan={6} className="text-muted-foreground">Aucune tâche.</TableCell></TableRow>
+              )}
+              {selectedUsage.tasks.slice().sort((a, b) => a.dateISO.localeCompare(b.dateISO) || a.startHour - b.startHour).map(t => (
+                <TableRow key={t.id}>
+                  <TableCell>
+                    <Link to={taskPath(t.id)} className="hover:underline">{formatDateFR(t.dateISO)}</Link>
+                  </TableCell>
+                  <TableCell>{formatTime(t.startHour)} → {formatTime(t.endHour)}</TableCell>
+                  <TableCell>{activityLabel(t)}</TableCell>
+                  <TableCell className="max-w-xs truncate">{t.description}</TableCell>
+                  <TableCell className="text-right">{formatHours(t.endHour - t.startHour)}</TableCell>
+                  <TableCell>{t.billed ? 'Facturée' : 'À facturer'}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+            <TableFooter>
+              <TableRow>
+                <TableCell colSpan={4}>{selectedUsage.tasks.length} tâche(s)</TableCell>
+                <TableCell className="text-right">{formatHours(selectedUsage.consumed)}</TableCell>
+                <TableCell />
+              </TableRow>
+            </TableFooter>
+          </Table>
+        </section>
+      )}
+
+      <QuoteDialog
+        open={dialogOpen}
+        quote={editing}
+        quotes={quotes}
+        clients={clients}
+        onClose={() => setDialogOpen(false)}
+        onSave={handleSave}
+      />
+    </main>
+  );
+}
@@ -0,0 +1,284 @@
+import { useEffect, useMemo, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { Bar, BarChart, CartesianGrid, Cell, Pie, PieChart, XAxis, YAxis } from 'recharts';
+import { Task } from '@/types';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Table, TableBody, TableCell, TableFooter, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { ChartConfig, ChartContainer, ChartLegend, ChartLegendContent, ChartTooltip, ChartTooltipContent } from '@/components/ui/chart';
+import { useClients } from '@/hooks/use-clients';
+import { useSettings } from '@/hooks/use-settings';
+import { getClientHex } from '@/utils/clients';
+import { deriveColors } from '@/utils/color';
+import { formatDateFR, formatHours, formatTime } from '@/utils/date';
+import {
+  DIMENSION_LABELS, Dimension, PERIOD_LABELS, ReportPeriod,
+  dimensionKey, groupTasks, periodLabel, periodRange, shiftPeriod, trendBuckets,
+} from '@/utils/reports';
+import { HOURS_MODE_LABELS, HoursMode } from '@/utils/settings';
+import { loadTasksInRange } from '@/utils/storage';
+import { activityLabel, billablePercent, countHours, hoursBreakdown } from '@/utils/totals';
+import { taskPath } from '@/utils/routes';
+
+const COLORS = {
+  billable: 'hsl(var(--primary))',
+  nonBillable: 'hsl(var(--muted-foreground))',
+  billed: 'hsl(var(--success))',
+  toBill: 'hsl(var(--warning))',
+};
+
+const chartConfig = {
+  hours: { label: 'Heures', color: COLORS.billable },
+  billable: { label: 'Facturable', color: COLORS.billable },
+  nonBillable: { label: 'Non facturable', color: COLORS.nonBillable },
+  billed: { label: 'Facturées', color: COLORS.billed },
+  toBill: { label: 'À facturer', color: COLORS.toBill },
+} satisfies ChartConfig;
+
+const byDateThenStart = (a: Task, b: Task) => a.dateISO.localeCompare(b.dateISO) || a.startHour - b.startHour;
+
+export default function Reports() {
+  const { clients } = useClients();
+  const { settings } = useSettings();
+  const [period, setPeriod] = useState<ReportPeriod>('MONTH');
+  const [anchor, setAnchor] = useState(() => new Date());
+  const [custom, setCustom] = useState(() => periodRange('MONTH', new Date()));
+  const [hoursMode, setHoursMode] = useState<HoursMode | null>(null); // null = réglage par défaut
+  const [dimension, setDimension] = useState<Dimension>('client');
+  const [tasks, setTasks] = useState<Task[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [drill, setDrill] = useState<{ title: string; tasks: Task[] } | null>(null);
+
+  const mode = hoursMode ?? settings.hoursMode;
+  const range = useMemo(() => (period === 'CUSTOM' ? custom : periodRange(period, anchor)), [period, custom, anchor]);
+  const { fromISO, toISO } = range;
+  const validRange = !!fromISO && !!toISO && fromISO <= toISO;
+
+  useEffect(() => {
+    document.title = 'Time Tracking · Rapports';
+  }, []);
+
+  useEffect(() => {
+    if (!validRange) return;
+    setDrill(null);
+    loadTasksInRange(fromISO, toISO)
+      .then((list) => { setTasks(list); setError(null); })
+      .catch((e) => setError(e instanceof Error ? e.message : String(e)));
+  }, [fromISO, toISO, validRange]);
+
+  const billable = useMemo(() => tasks.filter(t => t.category === 'FACTURABLE'), [tasks]);
+  const nonBillable = useMemo(() => tasks.filter(t => t.category === 'NON_FACTURABLE'), [tasks]);
+  const breakdown = hoursBreakdown(tasks, mode);
+  const { total, billable: billableHours, nonBillable: nonBillableHours, unbilled: toBillHours } = breakdown;
+  const ratio = billablePercent(breakdown);
+
+  const groups = useMemo(() => groupTasks(tasks, t => dimensionKey(dimension, t), mode), [tasks, dimension, mode]);
+  const byClient = useMemo(() => groupTasks(billable, t => t.client || 'Sans client', mode).map(g => ({
+    ...g,
+    billed: countHours(g.tasks.filter(t => t.billed), mode),
+    toBill: countHours(g.tasks.filter(t => !t.billed), mode),
+  })), [billable, mode]);
+  const buckets = useMemo(() => (validRange ? trendBuckets(tasks, range, mode) : []), [tasks, range, mode, validRange]);
+  const split = [
+    { key: 'billable', name: 'Facturable', hours: billableHours, tasks: billable },
+    { key: 'nonBillable', name: 'Non facturable', hours: nonBillableHours, tasks: nonBillable },
+  ];
+
+  const barColor = (key: string) => {
+    if (dimension === 'type') return COLORS.nonBillable;
+    const hex = getClientHex(clients, key.split(' — ')[0]);
+    return hex ? deriveColors(hex).border : COLORS.billable;
+  };
+
+  const openDrill = (title: string, list: Task[]) => setDrill({ title, tasks: list.slice().sort(byDateThenStart) });
+
+  return (
+    <main className="min-h-screen bg-background">
+      <header className="border-b">
+        <div className="container py-6">
+          <h1>Rapports</h1>
+          <p className="text-muted-foreground mt-1">Heures par client, projet, devis et type sur la période choisie</p>
+          <div className="mt-4 flex items-center gap-3 flex-wrap">
+            <Button variant="secondary" asChild><Link to="/">← Agenda</Link></Button>
+            <Button variant="ghost" asChild><Link to="/factures">Factures</Link></Button>
+          </div>
+
+          <div className="mt-4 flex items-end gap-3 flex-wrap">
+            <div className="space-y-1">
+              <Label htmlFor="report-period">Période</Label>
+              <select id="report-period" className="h-10 border rounded-md px-3 text-sm" value={period} onChange={(e) => setPeriod(e.target.value as ReportPeriod)}>
+                {(Object.keys(PERIOD_LABELS) as ReportPeriod[]).map(p => <option key={p} value={p}>{PERIOD_LABELS[p]}</option>)}
+              </select>
+            </div>
+            {period === 'CUSTOM' ? (
+              <>
+                <div className="space-y-1">
+                  <Label htmlFor="report-from">Du</Label>
+                  <Input id="report-from" type="date" value={custom.fromISO} onChange={(e) => setCustom(c => ({ ...c, fromISO: e.target.value }))} className="w-44" />
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="report-to">Au</Label>
+                  <Input id="report-to" type="date" value={custom.toISO} onChange={(e) => setCustom(c => ({ ...c, toISO: e.target.value }))} className="w-44" />
+                </div>
+              </>
+            ) : (
+              <div className="flex items-center gap-2">
+                <Button variant="secondary" onClick={() => setAnchor(a => shiftPeriod(period, a, -1))}>Précédent</Button>
+                <div className="px-3 py-2 border rounded-md text-sm capitalize">{periodLabel(period, range)}</div>
+                <Button onClick={() => setAnchor(a => shiftPeriod(period, a, 1))}>Suivant</Button>
+              </div>
+            )}
+            <div className="space-y-1">
+              <Label htmlFor="report-mode">Comptage</Label>
+              <select id="report-mode" className="h-10 border rounded-md px-3 text-sm" value={mode} onChange={(e) => setHoursMode(e.target.value as HoursMode)}>
+                {(Object.keys(HOURS_MODE_LABELS) as HoursMode[]).map(m => <option key={m} value={m}>{HOURS_MODE_LABELS[m]}</option>)}
+              </select>
+            </div>
+          </div>
+          {!validRange && <div className="mt-4 text-sm text-destructive">La date de fin doit suivre la date de début.</div>}
+          {error && <div className="mt-4 text-sm text-destructive-foreground bg-destructive/15 rounded px-3 py-2">{error}</div>}
+        </div>
+      </header>
+
+      <section className="container py-6 grid grid-cols-2 md:grid-cols-5 gap-4" aria-label="Synthèse">
+        {[
+          { label: 'Total', value: formatHours(total), list: tasks },
+          { label: 'Facturable', value: formatHours(billableHours), list: billable },
+          { label: 'Non facturable', value: formatHours(nonBillableHours), list: nonBillable },
+          { label: 'Part facturable', value: `${ratio} %`, list: billable },
+          { label: 'À facturer', value: formatHours(toBillHours), list: billable.filter(t => !t.billed) },
+        ].map(card => (
+          <button key={card.label} type="button" className="border rounded-md p-4 text-left hover:bg-accent/40" onClick={() => openDrill(card.label, card.list)}>
+            <div className="text-sm text-muted-foreground">{card.label}</div>
+            <div className="text-2xl font-semibold">{card.value}</div>
+          </button>
+        ))}
+      </section>
+
+      <section className="container pb-6 grid grid-cols-1 lg:grid-cols-2 gap-6" aria-label="Graphiques">
+        <div className="border rounded-md p-4 space-y-3">
+          <div className="flex items-center justify-between gap-3">
+            <h2>Heures par {DIMENSION_LABELS[dimension].toLowerCase()}</h2>
+            <select className="h-9 border rounded-md px-2 text-sm" value={dimension} onChange={(e) => setDimension(e.target.value as Dimension)} aria-label="Regroupement">
+              {(Object.keys(DIMENSION_LABELS) as Dimension[]).map(d => <option key={d} value={d}>{DIMENSION_LABELS[d]}</option>)}
+            </select>
+          </div>
+          {groups.length === 0 ? <div className="text-sm text-muted-foreground">Aucune heure sur la période.</div> : (
+            <ChartContainer config={chartConfig} className="aspect-auto w-full" style={{ height: Math.max(160, groups.length * 32) }}>
+              <BarChart data={groups} layout="vertical" margin={{ left: 8, right: 16 }}>
+                <CartesianGrid horizontal={false} />
+                <XAxis type="number" tickFormatter={(h: number) => formatHours(h)} />
+                <YAxis type="category" dataKey="key" width={160} tickLine={false} />
+                <ChartTooltip content={<ChartTooltipContent formatter={(v) => formatHours(Number(v))} />} />
+                <Bar dataKey="hours" name="Heures" radius={4} className="cursor-pointer" onClick={(_, i) => openDrill(groups[i].key, groups[i].tasks)}>
+                  {groups.map(g => <Cell key={g.key} fill={barColor(g.key)} />)}
+                </Bar>
+              </BarChart>
+            </ChartContainer>
+          )}
+        </div>
+
+        <div className="border rounded-md p-4 space-y-3">
+          <h2>Facturable / non facturable</h2>
+          {total === 0 ? <div className="text-sm text-muted-foreground">Aucune heure sur la période.</div> : (
+            <ChartContainer config={chartConfig} className="aspect-auto h-64 w-full">
+              <PieChart>
+                <ChartTooltip content={<ChartTooltipContent nameKey="key" formatter={(v) => formatHours(Number(v))} />} />
+                <Pie data={split} dataKey="hours" nameKey="name" innerRadius={50} className="cursor-pointer" onClick={(_, i) => openDrill(split[i].name, split[i].tasks)}>
+                  {split.map(s => <Cell key={s.key} fill={COLORS[s.key as keyof typeof COLORS]} />)}
+                </Pie>
+                <ChartLegend content={<ChartLegendContent nameKey="key" />} />
+              </PieChart>
+            </ChartContainer>
+          )}
+        </div>
+
+        <div className="border rounded-md p-4 space-y-3">
+          <h2>Facturées / à facturer par client</h2>
+          {byClient.length === 0 ? <div className="text-sm text-muted-foreground">Aucune heure facturable sur la période.</div> : (
+            <ChartContainer config={chartConfig} className="aspect-auto h-64 w-full">
+              <BarChart data={byClient}>
+                <CartesianGrid vertical={false} />
+                <XAxis dataKey="key" tickLine={false} />
+                <YAxis tickFormatter={(h: number) => formatHours(h)} />
+                <ChartTooltip content={<ChartTooltipContent formatter={(v, name) => `${chartConfig[name as keyof typeof chartConfig]?.label ?? name} : ${formatHours(Number(v))}`} />} />
+                <ChartLegend content={<ChartLegendContent />} />
+                <Bar dataKey="billed" stackId="a" fill={COLORS.billed} className="cursor-pointer"
+                  onClick={(_, i) => openDrill(`${byClient[i].key} — facturées`, byClient[i].tasks.filter(t => t.billed))} />
+                <Bar dataKey="toBill" stackId="a" fill={COLORS.toBill} radius={[4, 4, 0, 0]} className="cursor-pointer"
+                  onClick={(_, i) => openDrill(`${byClient[i].key} — à facturer`, byClient[i].tasks.filter(t => !t.billed))} />
+              </BarChart>
+            </ChartContainer>
+          )}
+        </div>
+
+        <div className="border rounded-md p-4 space-y-3">
+          <h2>Évolution</h2>
+          {buckets.length === 0 ? <div className="text-sm text-muted-foreground">Période invalide.</div> : (
+            <ChartContainer config={chartConfig} className="aspect-auto h-64 w-full">
+              <BarChart data={buckets}>
+                <CartesianGrid vertical={false} />
+                <XAxis dataKey="label" tickLine={false} />
+                <YAxis tickFormatter={(h: number) => formatHours(h)} />
+                <ChartTooltip content={<ChartTooltipContent formatter={(v, name) => `${chartConfig[name as keyof typeof chartConfig]?.label ?? name} : ${formatHours(Number(v))}`} />} />
+                <ChartLegend content={<ChartLegendContent />} />
+                <Bar dataKey="billable" stackId="a" fill={COLORS.billable} className="cursor-pointer"
+                  onClick={(_, i) => openDrill(`${formatDateFR(buckets[i].fromISO)} → ${formatDateFR(buckets[i].toISO)}`, buckets[i].tasks)} />
+                <Bar dataKey="nonBillable" stackId="a" fill={COLORS.nonBillable} radius={[4, 4, 0, 0]} className="cursor-pointer"
+                  onClick={(_, i) => openDrill(`${formatDateFR(buckets[i].fromISO)} → ${formatDateFR(buckets[i].toISO)}`, buckets[i].tasks)} />
+              </BarChart>
+            </ChartContainer>
+          )}
+        </div>
+      </section>
+
+      {drill && (
+        <section className="container pb-10" aria-label="Détail">
+          <div className="flex items-center justify-between mb-2">
+            <h2>Détail : {drill.title}</h2>
+            <Button variant="ghost" onClick={() => setDrill(null)}>Fermer</Button>
+          </div>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Date</TableHead>
+                <TableHead>Horaire</TableHead>
+                <TableHead>Activité</TableHead>
+                <TableHead>Devis</TableHead>
+                <TableHead>Description</TableHead>
+                <TableHead className="text-right">Heures</TableHead>
+                <TableHead>Facturation</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {drill.tasks.length === 0 && (
+                <TableRow><TableCell colSpan={7} className="text-muted-foreground">Aucune tâche.</TableCell></TableRow>
+              )}
+              {drill.tasks.map(t => (
+                <TableRow key={t.id}>
+                  <TableCell>
+                    <Link to={taskPath(t.id)} className="hover:underline">{formatDateFR(t.dateISO)}</Link>
+                  </TableCell>
+                  <TableCell>{formatTime(t.startHour)} → {formatTime(t.endHour)}</TableCell>
+                  <TableCell>{activityLabel(t)}</TableCell>
+                  <TableCell>{t.quote ?? '—'}</TableCell>
+                  <TableCell className="max-w-xs truncate">{t.description}</TableCell>
+                  <TableCell className="text-right">{formatHours(t.endHour - t.startHour)}</TableCell>
+                  <TableCell>{t.category === 'FACTURABLE' ? (t.billed ? 'Facturée' : 'À facturer') : '—'}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+            <TableFooter>
+              <TableRow>
+                <TableCell colSpan={5}>{drill.tasks.length} tâche(s)</TableCell>
+                <TableCell className="text-right">{formatHours(countHours(drill.tasks, mode))}</TableCell>
+                <TableCell />
+              </TableRow>
+            </TableFooter>
+          </Table>
+        </section>
+      )}
+    </main>
+  );
+}
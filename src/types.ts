@@ -12,4 +12,99 @@ export interface Task {
   type?: string;     // if NON_FACTURABLE
   description?: string;
   billed?: boolean;  // if FACTURABLE
+  invoiceId?: string; // facture émise qui couvre la tâche
+  seriesId?: string;  // occurrence d'une tâche récurrente
+  recurrence?: RecurrenceRule; // règle de la série, recopiée sur chaque occurrence
+}
+
+export type RecurrenceFreq = 'DAILY' | 'WEEKLY' | 'MONTHLY';
+
+export interface RecurrenceRule {
+  freq: RecurrenceFreq;
+  weekDays?: number[];   // WEEKLY : valeurs de Date.getDay()
+  monthWeek?: number;    // MONTHLY : 1 à 4, ou -1 pour le dernier
+  monthWeekDay?: number; // MONTHLY : valeur de Date.getDay()
+  until?: string;        // YYYY-MM-DD inclus
+  count?: number;        // nombre d'occurrences, à défaut de `until`
+}
+
+export interface Client {
+  key: string;          // normalizeClient(name), identifiant stable
+  name: string;         // nom affiché, tel que saisi sur les tâches
+  hourlyRate?: number;  // taux horaire HT par défaut
+  currency: string;     // code ISO 4217 (EUR, CHF...)
+  address?: string;
+  vatNumber?: string;
+  archived: boolean;
+  color: string;        // #rrggbb, fond des blocs dans la grille
+}
+
+export type ClientColorMap = Record<string, { hex: string }>; // key = normalizeClient(name)
+
+export type InvoiceStatus = 'DRAFT' | 'ISSUED';
+
+export interface InvoiceLine {
+  project?: string;
+  quote?: string;
+  hours: number;
+  rate: number;
+  amount: number;
+  taskIds: string[];
+}
+
+export interface Invoice {
+  id: string;
+  number?: string;      // attribué à l'émission uniquement (numérotation sans trou)
+  status: InvoiceStatus;
+  clientKey: string;
+  clientName: string;
+  fromISO: string;      // période couverte, bornes incluses
+  toISO: string;
+  createdISO: string;
+  issuedISO?: string;
+  currency: string;
+  rate: number;         // taux horaire HT appliqué
+  lines: InvoiceLine[];
+  taskIds: string[];
+  totalHours: number;
+  totalAmount: number;  // HT
+}
+
+// Chronomètre en cours, conservé en base pour survivre aux rechargements
+export interface RunningTimer {
+  startedAt: string; // ISO datetime
+  category: Category;
+  client?: string;
+  project?: string;
+  quote?: string;
+  type?: string;
+  description?: string;
+}
+
+// Modèle de tâche réutilisable, appliqué depuis la palette (Ctrl/⌘+K)
+export interface TaskTemplate {
+  id: string;
+  name: string;
+  category: Category;
+  client?: string;
+  project?: string;
+  quote?: string;
+  type?: string;
+  description?: string;
+  duration: number; // heures
+}
+
+export type QuoteStatus = 'DRAFT' | 'ACCEPTED' | 'CLOSED';
+
+// Devis au forfait : les tâches du client portant la même référence consomment son budget
+export interface Quote {
+  id: string;
+  clientKey: string;     // normalizeClient(nom du client)
+  clientName: string;
+  reference: string;     // libellé saisi dans le champ « Devis » des tâches
+  budgetHours?: number;  // heures vendues...
+  budgetAmount?: number; // ...ou montant HT, converti au taux horaire du client
+  validUntil?: string;   // YYYY-MM-DD
+  status: QuoteStatus;
+  createdISO: string;
 }
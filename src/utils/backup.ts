@@ -0,0 +1,168 @@
+import { z } from 'zod';
+import { Client, Invoice, Quote, Task, TaskTemplate } from '@/types';
+import { normalizeSettings } from '@/utils/settings';
+import { RestoreMode, SCHEMA_VERSION, Workspace, normalizeClientRecord, normalizeQuote, normalizeTask, normalizeTemplate } from '@/utils/storage';
+
+// Sauvegarde JSON versionnée de tout l'espace de travail (tâches avec identifiants, clients et
+// couleurs, factures, devis, modèles, réglages). Le fichier est validé par schéma avant toute restauration.
+
+export const BACKUP_FORMAT = 'tt-backup';
+export const BACKUP_VERSION = 1;
+
+const isoDay = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'date AAAA-MM-JJ attendue');
+const category = z.enum(['FACTURABLE', 'NON_FACTURABLE']);
+
+const taskSchema = z.object({
+  id: z.string().min(1),
+  dateISO: isoDay,
+  startHour: z.number().min(0).max(24),
+  endHour: z.number().min(0).max(24),
+  category,
+}).passthrough().refine(t => t.endHour > t.startHour, 'la fin doit suivre le début');
+
+const clientSchema = z.object({
+  name: z.string().min(1),
+  color: z.string().regex(/^#[0-9a-f]{6}$/i, 'couleur #rrggbb attendue').optional(),
+}).passthrough();
+
+const templateSchema = z.object({
+  id: z.string().min(1),
+  name: z.string().min(1),
+  category,
+  duration: z.number().positive().max(24),
+}).passthrough();
+
+const quoteSchema = z.object({
+  id: z.string().min(1),
+  clientName: z.string().min(1),
+  reference: z.string().min(1),
+  budgetHours: z.number().positive().optional(),
+  budgetAmount: z.number().positive().optional(),
+  validUntil: isoDay.optional(),
+  status: z.enum(['DRAFT', 'ACCEPTED', 'CLOSED']),
+}).passthrough();
+
+const invoiceSchema = z.object({
+  id: z.string().min(1),
+  number: z.string().optional(),
+  status: z.enum(['DRAFT', 'ISSUED']),
+  clientKey: z.string().min(1),
+  clientName: z.string().min(1),
+  fromISO: isoDay,
+  toISO: isoDay,
+  createdISO: z.string(),
+  issuedISO: z.string().optional(),
+  currency: z.string(),
+  rate: z.number(),
+  lines: z.array(z.object({
+    project: z.string().optional(),
+    quote: z.string().optional(),
+    hours: z.number(),
+    rate: z.number(),
+    amount: z.number(),
+    taskIds: z.array(z.string()),
+  })),
+  taskIds: z.array(z.string()),
+  totalHours: z.number(),
+  totalAmount: z.number(),
+});
+
+const backupSchema = z.object({
+  format: z.literal(BACKUP_FORMAT),
+  version: z.number().int().min(1).max(BACKUP_VERSION, 'sauvegarde produite par une version plus récente'),
+  exportedAt: z.string(),
+  schemaVersion: z.number().int().optional(),
+  tasks: z.array(taskSchema),
+  clients: z.array(clientSchema),
+  invoices: z.array(invoiceSchema),
+  templates: z.array(templateSchema),
+  quotes: z.array(quoteSchema).default([]), // absent des sauvegardes antérieures aux devis
+  settings: z.record(z.unknown()),
+  invoiceSeq: z.object({ year: z.number().int(), last: z.number().int().min(0) }).optional(),
+});
+
+export function createBackup(ws: Workspace, now = new Date()) {
+  return JSON.stringify({
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    exportedAt: now.toISOString(),
+    schemaVersion: SCHEMA_VERSION,
+    ...ws,
+  }, null, 2);
+}
+
+// Valide puis normalise ; l'erreur levée liste un problème par ligne (chemin : message)
+export function parseBackup(text: string): Workspace & { exportedAt: string } {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    throw new Error('Fichier JSON illisible.');
+  }
+  const res = backupSchema.safeParse(raw);
+  if (!res.success) {
+    throw new Error(res.error.issues.slice(0, 10).map(i => `${i.path.join('.') || 'racine'} : ${i.message}`).join('\n'));
+  }
+  const b = res.data;
+  return {
+    exportedAt: b.exportedAt,
+    tasks: b.tasks.map(normalizeTask).filter((t): t is Task => !!t),
+    clients: b.clients.map(normalizeClientRecord).filter((c): c is Client => !!c),
+    invoices: b.invoices as Invoice[],
+    templates: b.templates.map(normalizeTemplate).filter((t): t is TaskTemplate => !!t),
+    quotes: b.quotes.map(normalizeQuote).filter((q): q is Quote => !!q),
+    settings: normalizeSettings(b.settings),
+    invoiceSeq: b.invoiceSeq as Workspace['invoiceSeq'],
+  };
+}
+
+export interface EntityDiff {
+  added: number;
+  updated: number;
+  unchanged: number;
+  removed: number;
+}
+
+export const ENTITY_LABELS = {
+  tasks: 'Tâches',
+  clients: 'Clients',
+  invoices: 'Factures',
+  templates: 'Modèles',
+  quotes: 'Devis',
+} as const;
+
+type Entity = keyof typeof ENTITY_LABELS;
+
+// Sérialisation à clés triées, pour comparer deux enregistrements indépendamment de l'ordre des champs
+const stable = (v: unknown): string =>
+  Array.isArray(v) ? `[${v.map(stable).join(',')}]`
+    : v && typeof v === 'object'
+      ? `{${Object.keys(v).filter(k => (v as Record<string, unknown>)[k] !== undefined).sort().map(k => `${k}:${stable((v as Record<string, unknown>)[k])}`).join(',')}}`
+      : JSON.stringify(v);
+
+function diffById<T>(current: T[], incoming: T[], idOf: (x: T) => string, mode: RestoreMode): EntityDiff {
+  const byId = new Map(current.map(x => [idOf(x), stable(x)]));
+  const incomingIds = new Set(incoming.map(idOf));
+  const diff: EntityDiff = { added: 0, updated: 0, unchanged: 0, removed: 0 };
+  incoming.forEach(x => {
+    const before = byId.get(idOf(x));
+    if (before === undefined) diff.added++;
+    else if (before === stable(x)) diff.unchanged++;
+    else diff.updated++;
+  });
+  if (mode === 'replace') diff.removed = current.filter(x => !incomingIds.has(idOf(x))).length;
+  return diff;
+}
+
+export function diffWorkspace(current: Workspace, incoming: Workspace, mode: RestoreMode) {
+  const entities: Record<Entity, EntityDiff> = {
+    tasks: diffById(current.tasks, incoming.tasks, t => t.id, mode),
+    clients: diffById(current.clients, incoming.clients, c => c.key, mode),
+    invoices: diffById(current.invoices, incoming.invoices, i => i.id, mode),
+    templates: diffById(current.templates, incoming.templates, t => t.id, mode),
+    quotes: diffById(current.quotes, incoming.quotes, q => q.id, mode),
+  };
+  // Les réglages ne sont remplacés qu'en mode « remplacer »
+  const settingsChanged = mode === 'replace' && stable(current.settings) !== stable(incoming.settings);
+  return { entities, settingsChanged };
+}
@@ -0,0 +1,45 @@
+import { Client } from '@/types';
+import { normalizeClient, getDefaultColorForClient } from '@/utils/color';
+
+export const DEFAULT_CURRENCY = 'EUR';
+export const CURRENCIES = ['EUR', 'CHF', 'USD', 'GBP', 'CAD'];
+
+export const createClient = (name: string, overrides: Partial<Client> = {}): Client => ({
+  key: normalizeClient(name),
+  name: name.trim(),
+  currency: DEFAULT_CURRENCY,
+  archived: false,
+  color: getDefaultColorForClient(name),
+  ...overrides,
+});
+
+export const findClient = (clients: Client[], name?: string) => {
+  if (!name) return undefined;
+  const key = normalizeClient(name);
+  return clients.find((c) => c.key === key);
+};
+
+export const getClientHex = (clients: Client[], name?: string) => {
+  if (!name) return undefined;
+  return findClient(clients, name)?.color || getDefaultColorForClient(name);
+};
+
+// Registre initial : un client par nom rencontré sur les tâches, plus les couleurs connues.
+export const seedClients = (names: string[], colors: Record<string, string>): Client[] => {
+  const byKey = new Map<string, Client>();
+  names.forEach((name) => {
+    const key = normalizeClient(name || '');
+    if (key && !byKey.has(key)) byKey.set(key, createClient(name));
+  });
+  Object.entries(colors).forEach(([key, hex]) => {
+    const existing = byKey.get(key);
+    byKey.set(key, existing ? { ...existing, color: hex } : createClient(key, { color: hex }));
+  });
+  return Array.from(byKey.values());
+};
+
+export const sortClients = (clients: Client[]) =>
+  clients.slice().sort((a, b) => a.name.localeCompare(b.name, 'fr', { sensitivity: 'base' }));
+
+export const formatMoney = (amount: number, currency = DEFAULT_CURRENCY) =>
+  new Intl.NumberFormat('fr-FR', { style: 'currency', currency }).format(amount);
@@ -0,0 +1,264 @@
+import { Category, Task } from '@/types';
+import { isoDate } from '@/utils/date';
+import { Settings, dayRangeLabel, isOnGrid } from '@/utils/settings';
+import { newTaskId } from '@/utils/tasks';
+
+// Lecture de CSV quelconques : encodage, séparateur, correspondance des colonnes avec les champs de `Task`.
+
+export type CSVEncoding = 'utf-8' | 'utf-16le' | 'windows-1252';
+export const ENCODINGS: CSVEncoding[] = ['utf-8', 'utf-16le', 'windows-1252'];
+
+export const DELIMITERS: { value: string; label: string }[] = [
+  { value: ';', label: 'Point-virgule (;)' },
+  { value: ',', label: 'Virgule (,)' },
+  { value: '\t', label: 'Tabulation' },
+  { value: '|', label: 'Barre verticale (|)' },
+];
+
+export type ImportField =
+  | 'ignore' | 'date' | 'start' | 'end' | 'duration' | 'category'
+  | 'client' | 'project' | 'quote' | 'type' | 'description' | 'billed';
+
+export const FIELD_LABELS: Record<ImportField, string> = {
+  ignore: '— Ignorer —',
+  date: 'Date',
+  start: 'Heure de début',
+  end: 'Heure de fin',
+  duration: 'Durée',
+  category: 'Catégorie',
+  client: 'Client',
+  project: 'Projet',
+  quote: 'Devis',
+  type: 'Type',
+  description: 'Description',
+  billed: 'Facturée',
+};
+
+// En-têtes reconnus (sans accents, minuscules), dont ceux de notre propre export
+const FIELD_SYNONYMS: Record<Exclude<ImportField, 'ignore'>, string[]> = {
+  date: ['date', 'jour', 'day', 'start date'],
+  start: ['heure_debut', 'debut', 'heure debut', 'start', 'start time', 'from'],
+  end: ['heure_fin', 'fin', 'heure fin', 'end', 'end time', 'to'],
+  duration: ['duree_h', 'duree', 'heures', 'duration', 'hours', 'duration (decimal)'],
+  category: ['categorie', 'category', 'billable'],
+  client: ['client', 'customer'],
+  project: ['projet', 'project'],
+  quote: ['devis', 'quote', 'estimate'],
+  type: ['type', 'activite', 'activity', 'task'],
+  description: ['description', 'commentaire', 'notes', 'note'],
+  billed: ['facturee', 'facture', 'billed', 'invoiced'],
+};
+
+export const fold = (s: string) => s.normalize('NFD').replace(/[\u0300-\u036f]/g, '').trim().toLowerCase();
+
+// BOM d'abord, puis UTF-8 strict, à défaut Windows-1252 (exports Excel)
+export function detectEncoding(bytes: Uint8Array): CSVEncoding {
+  if (bytes[0] === 0xff && bytes[1] === 0xfe) return 'utf-16le';
+  if (bytes[0] === 0xef && bytes[1] === 0xbb && bytes[2] === 0xbf) return 'utf-8';
+  try {
+    new TextDecoder('utf-8', { fatal: true }).decode(bytes);
+    return 'utf-8';
+  } catch {
+    return 'windows-1252';
+  }
+}
+
+export const decodeBytes = (bytes: Uint8Array, encoding: CSVEncoding) =>
+  new TextDecoder(encoding).decode(bytes).replace(/^\uFEFF/, '');
+
+export function parseCSV(text: string, delimiter: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  for (let i = 0; i < text.length; i++) {
+    const c = text[i];
+    if (inQuotes) {
+      if (c === '"' && text[i + 1] === '"') { field += '"'; i++; }
+      else if (c === '"') inQuotes = false;
+      else field += c;
+    } else if (c === '"') {
+      inQuotes = true;
+    } else if (c === delimiter) {
+      row.push(field); field = '';
+    } else if (c === '\n' || c === '\r') {
+      if (c === '\r' && text[i + 1] === '\n') i++;
+      row.push(field); field = '';
+      if (row.some(f => f.trim())) rows.push(row);
+      row = [];
+    } else {
+      field += c;
+    }
+  }
+  row.push(field);
+  if (row.some(f => f.trim())) rows.push(row);
+  return rows;
+}
+
+// Séparateur donnant le même nombre (> 1) de colonnes sur les premières lignes
+export function detectDelimiter(text: string): string {
+  const sample = text.split(/\r?\n/).filter(l => l.trim()).slice(0, 10).join('\n');
+  let best = ';';
+  let bestScore = 0;
+  DELIMITERS.forEach(({ value }) => {
+    const widths = parseCSV(sample, value).map(r => r.length);
+    if (widths.length === 0 || widths[0] < 2) return;
+    const consistent = widths.filter(w => w === widths[0]).length;
+    const score = consistent * 100 + widths[0];
+    if (score > bestScore) { best = value; bestScore = score; }
+  });
+  return best;
+}
+
+export function guessMapping(headers: string[]): ImportField[] {
+  const used = new Set<ImportField>();
+  return headers.map(h => {
+    const key = fold(h);
+    const field = (Object.keys(FIELD_SYNONYMS) as Exclude<ImportField, 'ignore'>[])
+      .find(f => !used.has(f) && FIELD_SYNONYMS[f].includes(key));
+    if (!field) return 'ignore';
+    used.add(field);
+    return field;
+  });
+}
+
+// 2025-03-05, 05/03/2025, 05-03-2025, 05.03.2025, 05/03/25 ; `dayFirst` à faux pour les exports américains (03/05/2025)
+export function parseDateCell(raw: string, dayFirst = true): string | null {
+  const s = raw.trim();
+  let y: number, m: number, d: number;
+  let match = s.match(/^(\d{4})-(\d{1,2})-(\d{1,2})(?:[T\s].*)?$/);
+  if (match) {
+    [y, m, d] = [Number(match[1]), Number(match[2]), Number(match[3])];
+  } else {
+    match = s.match(/^(\d{1,2})[/.-](\d{1,2})[/.-](\d{2}|\d{4})$/);
+    if (!match) return null;
+    [d, m, y] = [Number(match[1]), Number(match[2]), Number(match[3])];
+    if (!dayFirst) [d, m] = [m, d];
+    if (y < 100) y += 2000;
+  }
+  const date = new Date(y, m - 1, d);
+  return date.getMonth() === m - 1 && date.getDate() === d ? isoDate(date) : null;
+}
+
+// 9h30, 9h, 09:30, 09:30:00, 2025-03-05 09:30 ; renvoie une heure décimale
+export function parseTimeCell(raw: string): number | null {
+  const s = raw.trim().toLowerCase();
+  const match = s.match(/(?:^|[T\s])(\d{1,2})(?:h(\d{2})?|:(\d{2})(?::(\d{2}))?)$/) ?? s.match(/^(\d{1,2})()()()$/);
+  if (!match) return null;
+  const h = Number(match[1]);
+  const min = Number(match[2] || match[3] || 0);
+  if (h > 24 || min > 59 || Number(match[4] || 0) !== 0 || (h === 24 && min > 0)) return null;
+  return h + min / 60;
+}
+
+// 1,5 — 1.5 — 1h30 — 01:30 — 90min ; renvoie des heures
+export function parseDurationCell(raw: string): number | null {
+  const s = raw.trim().toLowerCase();
+  if (/^\d+([.,]\d+)?$/.test(s)) return Number(s.replace(',', '.'));
+  let match = s.match(/^(\d+)\s?min$/);
+  if (match) return Number(match[1]) / 60;
+  match = s.match(/^(\d+)(?:h(\d{2})?|:(\d{2})(?::(\d{2}))?)$/);
+  if (match) return Number(match[1]) + Number(match[2] || match[3] || 0) / 60 + Number(match[4] || 0) / 3600;
+  return null;
+}
+
+export function parseBoolCell(raw: string): boolean | null {
+  const s = fold(raw);
+  if (['oui', 'o', 'yes', 'y', 'true', 'vrai', '1', 'x'].includes(s)) return true;
+  if (['non', 'n', 'no', 'false', 'faux', '0', ''].includes(s)) return false;
+  return null;
+}
+
+function parseCategoryCell(raw: string): Category | null {
+  const s = fold(raw).replace(/[\s-]/g, '_');
+  if (['facturable', 'billable', 'oui', 'yes', 'true', '1'].includes(s)) return 'FACTURABLE';
+  if (['non_facturable', 'non_billable', 'nonbillable', 'non', 'no', 'false', '0'].includes(s)) return 'NON_FACTURABLE';
+  return null;
+}
+
+export interface ImportRow {
+  line: number;      // numéro de ligne dans le fichier
+  cells: string[];
+  task: Task | null;
+  errors: string[];
+  note?: string;     // ajustement signalé dans l'aperçu (découpage, arrondi)
+}
+
+// Une ligne → une tâche ; toutes les erreurs de la ligne sont rassemblées
+export function rowToTask(cells: string[], line: number, mapping: ImportField[], settings: Settings): ImportRow {
+  const errors: string[] = [];
+  const get = (f: ImportField) => {
+    const i = mapping.indexOf(f);
+    return i >= 0 ? (cells[i] ?? '').trim() : '';
+  };
+  const has = (f: ImportField) => mapping.includes(f);
+
+  const dateISO = parseDateCell(get('date'));
+  if (!dateISO) errors.push(get('date') ? `Date illisible « ${get('date')} »` : 'Date manquante');
+
+  const start = parseTimeCell(get('start'));
+  if (start === null) errors.push(get('start') ? `Heure de début illisible « ${get('start')} »` : 'Heure de début manquante');
+  let end: number | null = null;
+  if (has('end') && get('end')) {
+    end = parseTimeCell(get('end'));
+    if (end === null) errors.push(`Heure de fin illisible « ${get('end')} »`);
+  } else if (has('duration') && get('duration')) {
+    const duration = parseDurationCell(get('duration'));
+    if (duration === null || duration <= 0) errors.push(`Durée illisible « ${get('duration')} »`);
+    else if (start !== null) end = start + duration;
+  } else {
+    errors.push('Heure de fin ou durée manquante');
+  }
+  if (start !== null && end !== null) {
+    if (end <= start) errors.push('La fin doit suivre le début');
+    else if (!isOnGrid(start, settings) || !isOnGrid(end, settings)) errors.push(`Horaire hors granularité (${settings.slotMinutes} min)`);
+    else if (start < settings.startHour || end > settings.endHour) errors.push(`Hors de la plage ${dayRangeLabel(settings)}`);
+  }
+
+  const client = get('client') || undefined;
+  const type = get('type') || undefined;
+  // Sans colonne catégorie : facturable dès qu'un client est renseigné
+  let category: Category | null = client ? 'FACTURABLE' : 'NON_FACTURABLE';
+  if (has('category') && get('category')) {
+    category = parseCategoryCell(get('category'));
+    if (!category) errors.push(`Catégorie inconnue « ${get('category')} »`);
+  }
+  if (category === 'FACTURABLE' && !client) errors.push('Client manquant pour une tâche facturable');
+  if (category === 'NON_FACTURABLE' && !type) errors.push('Type manquant pour une tâche non facturable');
+
+  let billed = false;
+  if (category === 'FACTURABLE' && has('billed')) {
+    const b = parseBoolCell(get('billed'));
+    if (b === null) errors.push(`Valeur « facturée » illisible « ${get('billed')} »`);
+    else billed = b;
+  }
+
+  if (errors.length > 0 || !dateISO || start === null || end === null || !category) return { line, cells, task: null, errors };
+  const billable = category === 'FACTURABLE';
+  return {
+    line,
+    cells,
+    errors,
+    task: {
+      id: newTaskId(),
+      dateISO,
+      startHour: start,
+      endHour: end,
+      category,
+      client: billable ? client : undefined,
+      project: billable ? get('project') || undefined : undefined,
+      quote: billable ? get('quote') || undefined : undefined,
+      type: billable ? undefined : type,
+      description: get('description') || undefined,
+      billed: billable ? billed : undefined,
+    },
+  };
+}
+
+export function missingRequiredFields(mapping: ImportField[]) {
+  const missing: string[] = [];
+  if (!mapping.includes('date')) missing.push(FIELD_LABELS.date);
+  if (!mapping.includes('start')) missing.push(FIELD_LABELS.start);
+  if (!mapping.includes('end') && !mapping.includes('duration')) missing.push(`${FIELD_LABELS.end} ou ${FIELD_LABELS.duration}`);
+  return missing;
+}
@@ -0,0 +1,55 @@
+export function pad(n: number) { return n < 10 ? `0${n}` : `${n}`; }
+
+export function formatTime(hour: number): string {
+  const h = Math.floor(hour);
+  const m = Math.round((hour % 1) * 60);
+  return `${pad(h)}:${pad(m)}`;
+}
+
+export function isoDate(d: Date) {
+  return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}`;
+}
+
+export function parseISODate(iso: string) {
+  const [y, m, d] = iso.split('-').map(Number);
+  return new Date(y, m - 1, d);
+}
+
+export function addDays(d: Date, n: number) { const x = new Date(d); x.setDate(x.getDate() + n); return x; }
+
+export function getMonday(date = new Date()) {
+  const d = new Date(date);
+  const diff = (d.getDay() + 6) % 7; // 0 if already Monday
+  d.setDate(d.getDate() - diff);
+  d.setHours(0, 0, 0, 0);
+  return d;
+}
+
+export function startOfMonth(d = new Date()) { return new Date(d.getFullYear(), d.getMonth(), 1); }
+export function endOfMonth(d = new Date()) { return new Date(d.getFullYear(), d.getMonth() + 1, 0); }
+
+// 05/03/2025
+export function formatDateFR(iso: string) {
+  const [y, m, d] = iso.split('-');
+  return `${d}/${m}/${y}`;
+}
+
+export function formatHours(h: number) {
+  return `${Number.isInteger(h) ? h : h.toFixed(2).replace(/0$/, '').replace('.', ',')}h`;
+}
+
+// Semaine ISO 8601 (la semaine 1 contient le 4 janvier) : « 2025-W14 »
+export function isoWeekKey(date: Date) {
+  const thursday = addDays(getMonday(date), 3);
+  const year = thursday.getFullYear();
+  const dayOfYear = Math.round((thursday.getTime() - new Date(year, 0, 1).getTime()) / 86400000);
+  return `${year}-W${pad(Math.floor(dayOfYear / 7) + 1)}`;
+}
+
+// Lundi de la semaine ISO, ou null si la clé est invalide (semaine 53 inexistante comprise)
+export function parseISOWeek(key: string) {
+  const m = /^(\d{4})-W(\d{2})$/.exec(key);
+  if (!m) return null;
+  const monday = addDays(getMonday(new Date(Number(m[1]), 0, 4)), (Number(m[2]) - 1) * 7);
+  return isoWeekKey(monday) === key ? monday : null;
+}
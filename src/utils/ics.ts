@@ -0,0 +1,298 @@
+import { Task } from '@/types';
+import { addDays, isoDate, pad, parseISODate } from '@/utils/date';
+import { Settings, dayRangeLabel, snapHour } from '@/utils/settings';
+import { activityLabel } from '@/utils/totals';
+
+// iCalendar (RFC 5545) : export des tâches en VEVENT, lecture des VEVENT d'un agenda.
+// Les heures des tâches sont exportées en heure locale « flottante », sans fuseau.
+
+const PRODID = '-//Time Tracking//Agenda hebdomadaire//FR';
+export const UID_DOMAIN = 'time-tracking';
+
+const escapeText = (s: string) => s.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+const unescapeText = (s: string) => s.replace(/\\([\\;,nN])/g, (_, c) => (c === 'n' || c === 'N' ? '\n' : c));
+
+// Lignes de 75 octets au plus, suite précédée d'une espace
+function foldLine(line: string) {
+  const bytes = new TextEncoder();
+  const out: string[] = [];
+  let current = '';
+  for (const ch of line) {
+    if (bytes.encode(current + ch).length > (out.length === 0 ? 75 : 74)) {
+      out.push(current);
+      current = '';
+    }
+    current += ch;
+  }
+  out.push(current);
+  return out.join('\r\n ');
+}
+
+const localStamp = (dateISO: string, hour: number) => {
+  const minutes = Math.round(hour * 60);
+  return `${dateISO.replace(/-/g, '')}T${pad(Math.floor(minutes / 60))}${pad(minutes % 60)}00`;
+};
+
+const utcStamp = (d: Date) =>
+  `${d.getUTCFullYear()}${pad(d.getUTCMonth() + 1)}${pad(d.getUTCDate())}T${pad(d.getUTCHours())}${pad(d.getUTCMinutes())}${pad(d.getUTCSeconds())}Z`;
+
+export function tasksToICS(tasks: Task[], now = new Date()) {
+  const lines = ['BEGIN:VCALENDAR', 'VERSION:2.0', `PRODID:${PRODID}`, 'CALSCALE:GREGORIAN'];
+  tasks
+    .slice()
+    .sort((a, b) => a.dateISO.localeCompare(b.dateISO) || a.startHour - b.startHour)
+    .forEach(t => {
+      // 24:00 devient minuit le lendemain
+      const end = t.endHour >= 24 ? localStamp(isoDate(addDays(parseISODate(t.dateISO), 1)), 0) : localStamp(t.dateISO, t.endHour);
+      const details = [t.quote && `Devis : ${t.quote}`, t.description].filter(Boolean).join('\n');
+      lines.push(
+        'BEGIN:VEVENT',
+        `UID:${t.id}@${UID_DOMAIN}`,
+        `DTSTAMP:${utcStamp(now)}`,
+        `DTSTART:${localStamp(t.dateISO, t.startHour)}`,
+        `DTEND:${end}`,
+        `SUMMARY:${escapeText(activityLabel(t))}`,
+        ...(details ? [`DESCRIPTION:${escapeText(details)}`] : []),
+        `CATEGORIES:${t.category === 'FACTURABLE' ? 'Facturable' : 'Non facturable'}`,
+        'END:VEVENT',
+      );
+    });
+  lines.push('END:VCALENDAR');
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
+
+// ---- Lecture ----
+
+interface Prop {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+}
+
+interface WallTime {
+  y: number; m: number; d: number; h: number; min: number; s: number;
+  tz: 'UTC' | 'LOCAL' | string; // LOCAL : heure flottante
+  allDay: boolean;
+}
+
+export interface ICSEvent {
+  uid: string;
+  summary: string;
+  description?: string;
+  location?: string;
+  start: Date;
+  end: Date;
+}
+
+function parseProps(text: string): Prop[] {
+  return text
+    .replace(/\r?\n[ \t]/g, '')
+    .split(/\r?\n/)
+    .filter(Boolean)
+    .map(line => {
+      // Le premier « : » hors guillemets sépare nom/paramètres et valeur
+      let inQuotes = false;
+      let colon = -1;
+      for (let i = 0; i < line.length && colon < 0; i++) {
+        if (line[i] === '"') inQuotes = !inQuotes;
+        else if (line[i] === ':' && !inQuotes) colon = i;
+      }
+      const head = colon >= 0 ? line.slice(0, colon) : line;
+      const [name, ...rawParams] = head.split(';');
+      const params: Record<string, string> = {};
+      rawParams.forEach(p => {
+        const eq = p.indexOf('=');
+        if (eq > 0) params[p.slice(0, eq).toUpperCase()] = p.slice(eq + 1).replace(/^"|"$/g, '');
+      });
+      return { name: name.toUpperCase(), params, value: colon >= 0 ? line.slice(colon + 1) : '' };
+    });
+}
+
+function parseWallTime(prop: Prop): WallTime | null {
+  const m = prop.value.match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/);
+  if (!m) return null;
+  return {
+    y: Number(m[1]), m: Number(m[2]), d: Number(m[3]),
+    h: Number(m[4] ?? 0), min: Number(m[5] ?? 0), s: Number(m[6] ?? 0),
+    tz: m[7] ? 'UTC' : prop.params.TZID ?? 'LOCAL',
+    allDay: !m[4],
+  };
+}
+
+// Décalage (ms) du fuseau `tz` à l'instant donné ; null si le fuseau est inconnu du navigateur
+function tzOffset(instant: number, tz: string): number | null {
+  try {
+    const parts = new Intl.DateTimeFormat('en-US', {
+      timeZone: tz, hourCycle: 'h23', year: 'numeric', month: '2-digit', day: '2-digit', hour: '2-digit', minute: '2-digit', second: '2-digit',
+    }).formatToParts(new Date(instant));
+    const get = (type: string) => Number(parts.find(p => p.type === type)?.value);
+    return Date.UTC(get('year'), get('month') - 1, get('day'), get('hour'), get('minute'), get('second')) - instant;
+  } catch {
+    return null;
+  }
+}
+
+function toDate(w: WallTime): Date {
+  if (w.tz === 'LOCAL') return new Date(w.y, w.m - 1, w.d, w.h, w.min, w.s);
+  const wall = Date.UTC(w.y, w.m - 1, w.d, w.h, w.min, w.s);
+  if (w.tz === 'UTC') return new Date(wall);
+  const offset = tzOffset(wall, w.tz);
+  if (offset === null) return new Date(w.y, w.m - 1, w.d, w.h, w.min, w.s);
+  // Deuxième passe pour les changements d'heure
+  return new Date(wall - (tzOffset(wall - offset, w.tz) ?? offset));
+}
+
+// P1D, PT1H30M, -PT15M…
+function parseDuration(value: string): number | null {
+  const m = value.match(/^([+-])?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/);
+  if (!m) return null;
+  const [w, d, h, min, s] = m.slice(2).map(x => Number(x ?? 0));
+  return (m[1] === '-' ? -1 : 1) * ((((w * 7 + d) * 24 + h) * 60 + min) * 60 + s) * 1000;
+}
+
+const BYDAY = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+const MAX_SCAN_DAYS = 20 * 366;
+
+// Dates (jour du mur, dans le fuseau de l'événement) produites par une RRULE, jusqu'à `lastISO` inclus
+function expandRule(rrule: string, first: WallTime, lastISO: string): string[] {
+  const rule: Record<string, string> = {};
+  rrule.split(';').forEach(part => {
+    const [k, v] = part.split('=');
+    if (k && v) rule[k.toUpperCase()] = v.toUpperCase();
+  });
+  const interval = Math.max(1, Number(rule.INTERVAL) || 1);
+  const count = rule.COUNT ? Number(rule.COUNT) : Infinity;
+  const untilMatch = rule.UNTIL?.match(/^(\d{4})(\d{2})(\d{2})/);
+  const until = untilMatch ? `${untilMatch[1]}-${untilMatch[2]}-${untilMatch[3]}` : null;
+  const byDay = rule.BYDAY?.split(',').map(x => {
+    const m = x.match(/^([+-]?\d+)?(SU|MO|TU|WE|TH|FR|SA)$/);
+    return m ? { nth: m[1] ? Number(m[1]) : 0, day: BYDAY.indexOf(m[2]) } : null;
+  }).filter((x): x is { nth: number; day: number } => !!x);
+  const byMonthDay = rule.BYMONTHDAY?.split(',').map(Number);
+
+  const start = new Date(first.y, first.m - 1, first.d);
+  const startMonday = addDays(start, -((start.getDay() + 6) % 7));
+  const matches = (d: Date) => {
+    switch (rule.FREQ) {
+      case 'DAILY':
+        return Math.round((d.getTime() - start.getTime()) / 86400000) % interval === 0;
+      case 'WEEKLY': {
+        const weeks = Math.floor(Math.round((d.getTime() - startMonday.getTime()) / 86400000) / 7);
+        return weeks % interval === 0 && (byDay?.length ? byDay.some(b => b.day === d.getDay()) : d.getDay() === start.getDay());
+      }
+      case 'MONTHLY': {
+        const months = (d.getFullYear() - start.getFullYear()) * 12 + d.getMonth() - start.getMonth();
+        if (months % interval !== 0) return false;
+        if (byDay?.length) {
+          const nth = Math.ceil(d.getDate() / 7);
+          const fromEnd = -Math.ceil((new Date(d.getFullYear(), d.getMonth() + 1, 0).getDate() - d.getDate() + 1) / 7);
+          return byDay.some(b => b.day === d.getDay() && (b.nth === 0 || b.nth === nth || b.nth === fromEnd));
+        }
+        return (byMonthDay ?? [start.getDate()]).includes(d.getDate());
+      }
+      case 'YEARLY':
+        return (d.getFullYear() - start.getFullYear()) % interval === 0 && d.getMonth() === start.getMonth() && d.getDate() === start.getDate();
+      default:
+        return false;
+    }
+  };
+
+  const out: string[] = [];
+  for (let i = 0; i < MAX_SCAN_DAYS && out.length < count; i++) {
+    const d = addDays(start, i);
+    const iso = isoDate(d);
+    if (iso > lastISO || (until && iso > until)) break;
+    // La première occurrence est toujours DTSTART
+    if (i === 0 || matches(d)) out.push(iso);
+  }
+  return out;
+}
+
+const wallDateISO = (w: WallTime) => `${w.y}-${pad(w.m)}-${pad(w.d)}`;
+
+// Événements minutés dont le début tombe entre `fromISO` et `toISO` (inclus), récurrences développées.
+// Les événements « journée entière » sont seulement comptés.
+export function parseICS(text: string, fromISO: string, toISO: string) {
+  const blocks: Prop[][] = [];
+  let current: Prop[] | null = null;
+  parseProps(text).forEach(prop => {
+    const component = prop.value.toUpperCase();
+    if (prop.name === 'BEGIN' && component === 'VEVENT') current = [];
+    else if (prop.name === 'END' && component === 'VEVENT' && current) { blocks.push(current); current = null; }
+    else current?.push(prop);
+  });
+
+  const events: ICSEvent[] = [];
+  // Occurrences modifiées (RECURRENCE-ID) : uid|jour d'origine → remplacement, ou null si annulée
+  const overrides = new Map<string, ICSEvent | null>();
+  let allDay = 0;
+  const inRange = (e: ICSEvent) => isoDate(e.start) >= fromISO && isoDate(e.start) <= toISO;
+
+  const series = blocks.flatMap(block => {
+    const get = (name: string) => block.find(p => p.name === name);
+    const start = get('DTSTART') ? parseWallTime(get('DTSTART')!) : null;
+    if (!start) return [];
+    if (start.allDay) { allDay++; return []; }
+
+    const end = get('DTEND') ? parseWallTime(get('DTEND')!) : null;
+    const durationMs = end ? toDate(end).getTime() - toDate(start).getTime() : parseDuration(get('DURATION')?.value ?? '') ?? 3600000;
+    const summary = unescapeText(get('SUMMARY')?.value ?? '').trim();
+    const base = {
+      uid: get('UID')?.value ?? `${wallDateISO(start)}-${summary}`,
+      summary,
+      description: get('DESCRIPTION') && unescapeText(get('DESCRIPTION')!.value),
+      location: get('LOCATION') && unescapeText(get('LOCATION')!.value),
+    };
+    const cancelled = get('STATUS')?.value.toUpperCase() === 'CANCELLED';
+    const at = (w: WallTime): ICSEvent => {
+      const s = toDate(w);
+      return { ...base, start: s, end: new Date(s.getTime() + durationMs) };
+    };
+
+    const recurrenceId = get('RECURRENCE-ID') ? parseWallTime(get('RECURRENCE-ID')!) : null;
+    if (recurrenceId) {
+      overrides.set(`${base.uid}|${wallDateISO(recurrenceId)}`, cancelled ? null : at(start));
+      return [];
+    }
+    if (cancelled) return [];
+    const rrule = get('RRULE')?.value;
+    if (!rrule) return [{ uid: base.uid, occurrences: [{ day: wallDateISO(start), event: at(start) }] }];
+
+    const exdates = new Set(block.filter(p => p.name === 'EXDATE').flatMap(p =>
+      p.value.split(',').map(v => parseWallTime({ ...p, value: v })).filter((w): w is WallTime => !!w).map(wallDateISO)));
+    // Marge d'un jour pour les fuseaux décalés
+    const days = expandRule(rrule, start, isoDate(addDays(parseISODate(toISO), 1))).filter(d => !exdates.has(d));
+    return [{
+      uid: base.uid,
+      occurrences: days.map(day => {
+        const [y, m, d] = day.split('-').map(Number);
+        return { day, event: at({ ...start, y, m, d }) };
+      }),
+    }];
+  });
+
+  series.forEach(({ uid, occurrences }) => occurrences.forEach(({ day, event }) => {
+    const key = `${uid}|${day}`;
+    const replaced = overrides.has(key) ? overrides.get(key) : event;
+    overrides.delete(key);
+    if (replaced && inRange(replaced)) events.push(replaced);
+  }));
+  // Remplacements dont l'occurrence d'origine est hors de la période
+  overrides.forEach(e => { if (e && inRange(e)) events.push(e); });
+
+  events.sort((a, b) => a.start.getTime() - b.start.getTime());
+  return { events, allDay };
+}
+
+// Créneau de la grille correspondant à un événement, arrondi à la granularité
+export function eventSlot(e: ICSEvent, settings: Settings): { dateISO: string; startHour: number; endHour: number } | { error: string } {
+  const dateISO = isoDate(e.start);
+  const hourOf = (d: Date) => d.getHours() + d.getMinutes() / 60 + d.getSeconds() / 3600;
+  const endsAtMidnight = isoDate(e.end) === isoDate(addDays(e.start, 1)) && hourOf(e.end) === 0;
+  if (isoDate(e.end) !== dateISO && !endsAtMidnight) return { error: 'Passe minuit' };
+  const startHour = snapHour(hourOf(e.start), settings);
+  const endHour = snapHour(endsAtMidnight ? 24 : hourOf(e.end), settings);
+  if (endHour <= startHour) return { error: `Plus court qu'un créneau de ${settings.slotMinutes} min` };
+  if (startHour < settings.startHour || endHour > settings.endHour) return { error: `Hors de la plage ${dayRangeLabel(settings)}` };
+  return { dateISO, startHour, endHour };
+}
@@ -0,0 +1,94 @@
+import { Task } from '@/types';
+import { formatTime } from '@/utils/date';
+import { findConflicts } from '@/utils/overlap';
+import { Settings } from '@/utils/settings';
+
+// Résolution ligne par ligne des conflits d'un import (CSV ou autre outil), avant écriture.
+// Les lignes sont traitées dans l'ordre du fichier : une ligne acceptée compte pour les suivantes.
+
+export type Resolution = 'skip' | 'replace' | 'keep' | 'shift';
+
+export const RESOLUTION_LABELS: Record<Resolution, string> = {
+  skip: 'Ignorer la ligne',
+  replace: 'Remplacer l\'existant',
+  keep: 'Garder les deux',
+  shift: 'Décaler au créneau libre suivant',
+};
+
+export type RowOutcome =
+  | { status: 'new'; task: Task }
+  | { status: 'duplicate'; existing: Task }
+  | { status: 'conflict'; task: Task; conflicts: Task[]; resolution: Resolution; result: Task | null; replaced: Task[]; note?: string };
+
+// Même créneau et mêmes champs : la ligne est déjà présente (ré-import de notre propre export)
+const sameTask = (a: Task, b: Task) =>
+  a.dateISO === b.dateISO && a.startHour === b.startHour && a.endHour === b.endHour && a.category === b.category &&
+  (a.client ?? '') === (b.client ?? '') && (a.project ?? '') === (b.project ?? '') && (a.quote ?? '') === (b.quote ?? '') &&
+  (a.type ?? '') === (b.type ?? '') && (a.description ?? '') === (b.description ?? '');
+
+export const describeSlot = (t: Task) => `${formatTime(t.startHour)}–${formatTime(t.endHour)}`;
+
+// Premier créneau de même durée, à partir du début demandé, qui ne chevauche rien
+function nextFreeSlot(task: Task, occupied: Task[], settings: Settings): Task | null {
+  const step = settings.slotMinutes / 60;
+  const duration = task.endHour - task.startHour;
+  for (let start = task.startHour; start + duration <= settings.endHour + 1e-9; start += step) {
+    const candidate = { ...task, startHour: start, endHour: start + duration };
+    if (findConflicts(candidate, occupied).length === 0) return candidate;
+  }
+  return null;
+}
+
+export function planImport(rows: Task[], existing: Task[], resolutionOf: (index: number) => Resolution, settings: Settings) {
+  let occupied = existing.slice();
+  const seen: Task[] = [];
+  const replaced = new Map<string, Task>();
+  const after: Task[] = [];
+
+  const outcomes: RowOutcome[] = rows.map((task, index) => {
+    const twin = existing.find(t => !replaced.has(t.id) && sameTask(t, task)) ?? seen.find(t => sameTask(t, task));
+    if (twin) return { status: 'duplicate', existing: twin };
+    seen.push(task);
+
+    const conflicts = findConflicts(task, occupied);
+    if (conflicts.length === 0) {
+      occupied.push(task);
+      after.push(task);
+      return { status: 'new', task };
+    }
+
+    const resolution = resolutionOf(index);
+    const outcome = { status: 'conflict' as const, task, conflicts, resolution, result: null as Task | null, replaced: [] as Task[], note: undefined as string | undefined };
+    if (resolution === 'keep') {
+      if (!settings.allowOverlap) {
+        outcome.note = 'Chevauchements désactivés dans les paramètres';
+      } else {
+        outcome.result = task;
+      }
+    } else if (resolution === 'replace') {
+      // Une tâche facturée n'est jamais remplacée, une autre ligne du fichier non plus
+      if (conflicts.some(c => c.billed)) {
+        outcome.note = 'Recouvre une tâche facturée';
+      } else if (conflicts.some(c => after.includes(c))) {
+        outcome.note = 'Recouvre une autre ligne du fichier';
+      } else {
+        outcome.result = task;
+        outcome.replaced = conflicts;
+      }
+    } else if (resolution === 'shift') {
+      outcome.result = nextFreeSlot(task, occupied, settings);
+      if (!outcome.result) outcome.note = 'Aucun créneau libre ce jour-là';
+    }
+
+    if (outcome.result) {
+      const removed = new Set(outcome.replaced.map(t => t.id));
+      outcome.replaced.forEach(t => replaced.set(t.id, t));
+      occupied = occupied.filter(t => !removed.has(t.id));
+      occupied.push(outcome.result);
+      after.push(outcome.result);
+    }
+    return outcome;
+  });
+
+  return { outcomes, before: Array.from(replaced.values()), after };
+}
@@ -0,0 +1,86 @@
+import { Client, Invoice, InvoiceLine, Task } from '@/types';
+import { normalizeClient } from '@/utils/color';
+import { formatTime } from '@/utils/date';
+import { newTaskId } from '@/utils/tasks';
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+export const formatInvoiceNumber = (year: number, seq: number) => `F-${year}-${String(seq).padStart(4, '0')}`;
+
+// Une tâche portée par une facture émise garde sa catégorie, sa date et ses heures, et reste sur la facture.
+// `after` absent : suppression.
+export function invoiceLockError(before: Task, after?: Task): string | null {
+  if (!before.invoiceId) return null;
+  const slot = `${before.dateISO} ${formatTime(before.startHour)} → ${formatTime(before.endHour)}`;
+  if (!after) return `${slot} : figure sur une facture, suppression impossible.`;
+  const unchanged = after.invoiceId === before.invoiceId && after.category === before.category &&
+    after.dateISO === before.dateISO && after.startHour === before.startHour && after.endHour === before.endHour;
+  return unchanged ? null : `${slot} : figure sur une facture, catégorie, date et heures verrouillées.`;
+}
+
+// Tâches FACTURABLE non facturées du client sur la période (bornes incluses).
+export function selectUnbilledTasks(tasks: Task[], clientKey: string, fromISO: string, toISO: string) {
+  return tasks
+    .filter(t =>
+      t.category === 'FACTURABLE' &&
+      t.billed !== true &&
+      !!t.client && normalizeClient(t.client) === clientKey &&
+      t.dateISO >= fromISO && t.dateISO <= toISO)
+    .sort((a, b) => a.dateISO.localeCompare(b.dateISO) || a.startHour - b.startHour);
+}
+
+// Une ligne par couple projet / devis, triée par projet puis devis.
+export function groupInvoiceLines(tasks: Task[], rate: number): InvoiceLine[] {
+  const groups = new Map<string, InvoiceLine>();
+  tasks.forEach(t => {
+    const key = `${t.project ?? ''}\u0000${t.quote ?? ''}`;
+    const line = groups.get(key) ?? { project: t.project, quote: t.quote, hours: 0, rate, amount: 0, taskIds: [] };
+    line.hours += t.endHour - t.startHour;
+    line.taskIds.push(t.id);
+    groups.set(key, line);
+  });
+  return Array.from(groups.values())
+    .map(l => ({ ...l, amount: round2(l.hours * rate) }))
+    .sort((a, b) => (a.project ?? '').localeCompare(b.project ?? '') || (a.quote ?? '').localeCompare(b.quote ?? ''));
+}
+
+// Recalcule lignes et totaux d'une facture à partir de ses tâches.
+export function withInvoiceTasks(invoice: Invoice, tasks: Task[], rate = invoice.rate): Invoice {
+  const lines = groupInvoiceLines(tasks, rate);
+  return {
+    ...invoice,
+    rate,
+    lines,
+    taskIds: tasks.map(t => t.id),
+    totalHours: lines.reduce((s, l) => s + l.hours, 0),
+    totalAmount: round2(lines.reduce((s, l) => s + l.amount, 0)),
+  };
+}
+
+export function buildInvoiceDraft(client: Client, tasks: Task[], fromISO: string, toISO: string, rate = client.hourlyRate ?? 0): Invoice {
+  const draft: Invoice = {
+    id: newTaskId(),
+    status: 'DRAFT',
+    clientKey: client.key,
+    clientName: client.name,
+    fromISO,
+    toISO,
+    createdISO: new Date().toISOString(),
+    currency: client.currency,
+    rate,
+    lines: [],
+    taskIds: [],
+    totalHours: 0,
+    totalAmount: 0,
+  };
+  return withInvoiceTasks(draft, selectUnbilledTasks(tasks, client.key, fromISO, toISO), rate);
+}
+
+// Vérifie qu'un brouillon peut encore être émis : ses tâches existent et ne sont pas facturées entre-temps.
+export function staleInvoiceTasks(invoice: Invoice, tasks: Task[]): string[] {
+  const byId = new Map(tasks.map(t => [t.id, t]));
+  return invoice.taskIds.filter(id => {
+    const t = byId.get(id);
+    return !t || t.billed === true;
+  });
+}
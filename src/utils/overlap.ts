@@ -0,0 +1,60 @@
+import { Task } from '@/types';
+
+export function overlaps(a: Task, b: Task) {
+  return a.dateISO === b.dateISO && a.startHour < b.endHour && b.startHour < a.endHour && a.id !== b.id;
+}
+
+export const findConflicts = (task: Task, tasks: Task[]) => tasks.filter(t => overlaps(task, t));
+
+export interface Lane {
+  lane: number;   // colonne occupée, à partir de 0
+  lanes: number;  // nombre de colonnes du groupe de chevauchement
+}
+
+// Disposition en colonnes d'une journée, comme un agenda : chaque groupe de tâches qui se
+// chevauchent (de proche en proche) est partagé en autant de colonnes que nécessaire.
+export function layoutLanes(dayTasks: Task[]) {
+  const sorted = dayTasks.slice().sort((a, b) => a.startHour - b.startHour || b.endHour - a.endHour);
+  const out = new Map<string, Lane>();
+  let group: Task[] = [];
+  let laneEnds: number[] = [];
+  let groupEnd = -Infinity;
+
+  const flush = () => {
+    group.forEach(t => { out.set(t.id, { lane: out.get(t.id)!.lane, lanes: laneEnds.length }); });
+    group = [];
+    laneEnds = [];
+  };
+
+  sorted.forEach(t => {
+    if (t.startHour >= groupEnd) {
+      flush();
+      groupEnd = -Infinity;
+    }
+    let lane = laneEnds.findIndex(end => end <= t.startHour);
+    if (lane === -1) {
+      lane = laneEnds.length;
+      laneEnds.push(t.endHour);
+    } else {
+      laneEnds[lane] = t.endHour;
+    }
+    out.set(t.id, { lane, lanes: 1 });
+    group.push(t);
+    groupEnd = Math.max(groupEnd, t.endHour);
+  });
+  flush();
+  return out;
+}
+
+// Conflits d'un lot de tâches modifiées/créées, entre elles et avec le reste (hors `replacedIds`).
+// Chaque paire n'est signalée qu'une fois.
+export function findBatchConflicts(batch: Task[], tasks: Task[], replacedIds: Set<string>) {
+  const batchIds = new Set(batch.map(t => t.id));
+  const others = tasks.filter(t => !replacedIds.has(t.id) && !batchIds.has(t.id));
+  const pairs: [Task, Task][] = [];
+  batch.forEach((t, i) => {
+    others.forEach(o => { if (overlaps(t, o)) pairs.push([t, o]); });
+    batch.slice(i + 1).forEach(o => { if (overlaps(t, o)) pairs.push([t, o]); });
+  });
+  return pairs;
+}
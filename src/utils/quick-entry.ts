@@ -0,0 +1,145 @@
+import { Task } from '@/types';
+import { normalizeClient } from '@/utils/color';
+import { addDays, isoDate } from '@/utils/date';
+import { Settings, dayRangeLabel, isOnGrid } from '@/utils/settings';
+import { newTaskId } from '@/utils/tasks';
+
+// Saisie rapide en une ligne, par exemple :
+//   mar 9h-11h30 ACME / Refonte DV-2025-004 "atelier UX"
+//   ven 14:00 2h Formation
+// Jour (lun…dim, auj., demain ou jj/mm), horaire (début-fin ou début + durée), puis
+// « Client / Projet [Devis] » pour du facturable, ou un type pour du non facturable.
+
+export interface QuickEntryContext {
+  weekStart: Date; // lundi de la semaine affichée
+  settings: Settings;
+  clients: string[];
+  types: string[];
+  projectsByClient: Record<string, string[]>;
+  today?: Date;
+}
+
+export interface QuickEntryResult {
+  task: Task | null;
+  errors: string[];   // bloquants
+  warnings: string[]; // valeurs inconnues, signalées avant l'enregistrement
+}
+
+const DAY_NAMES = ['dimanche', 'lundi', 'mardi', 'mercredi', 'jeudi', 'vendredi', 'samedi']; // index = Date.getDay()
+const TIME = String.raw`(\d{1,2})(?:h(\d{2})?|:(\d{2}))`;
+const TIME_RE = new RegExp(`^${TIME}$`, 'i');
+const RANGE_RE = new RegExp(`^${TIME}-${TIME}$`, 'i');
+const DURATION_RE = /^(?:(\d{1,2})h(\d{2})?|(\d{1,3})\s?min)$/i;
+const DATE_RE = /^(\d{1,2})\/(\d{1,2})(?:\/(\d{4}))?$/;
+const QUOTE_RE = /^[a-z]{1,6}-\d[\w-]*$/i; // DV-2025-004
+
+const hourOf = (h?: string, m1?: string, m2?: string) => Number(h) + Number(m1 ?? m2 ?? 0) / 60;
+
+function parseDay(token: string, ctx: QuickEntryContext): string | null {
+  const t = token.toLowerCase().replace(/\.$/, '');
+  const today = ctx.today ?? new Date();
+  if (t === 'auj' || t === "aujourd'hui") return isoDate(today);
+  if (t === 'demain') return isoDate(addDays(today, 1));
+  const date = t.match(DATE_RE);
+  if (date) {
+    const year = date[3] ? Number(date[3]) : ctx.weekStart.getFullYear();
+    const d = new Date(year, Number(date[2]) - 1, Number(date[1]));
+    return d.getDate() === Number(date[1]) ? isoDate(d) : null;
+  }
+  // lun, mar., mercredi… : au moins trois lettres
+  const day = t.length >= 3 ? DAY_NAMES.findIndex(name => name.startsWith(t)) : -1;
+  return day === -1 ? null : isoDate(addDays(ctx.weekStart, (day + 6) % 7));
+}
+
+export function parseQuickEntry(line: string, ctx: QuickEntryContext): QuickEntryResult {
+  const errors: string[] = [];
+  const warnings: string[] = [];
+
+  // Description entre guillemets, n'importe où dans la ligne
+  let description: string | undefined;
+  const rest = line.replace(/"([^"]*)"|«\s*([^»]*?)\s*»/, (_, a, b) => {
+    description = (a ?? b).trim() || undefined;
+    return ' ';
+  });
+
+  let dateISO: string | null = null;
+  let start: number | null = null;
+  let end: number | null = null;
+  let duration: number | null = null;
+  const words: string[] = [];
+
+  for (const token of rest.split(/\s+/).filter(Boolean)) {
+    const day = !dateISO && words.length === 0 ? parseDay(token, ctx) : null;
+    const range = start === null ? token.match(RANGE_RE) : null;
+    const time = start === null ? token.match(TIME_RE) : null;
+    const dur = start !== null && end === null && duration === null ? token.match(DURATION_RE) : null;
+    if (day) {
+      dateISO = day;
+    } else if (range) {
+      start = hourOf(range[1], range[2], range[3]);
+      end = hourOf(range[4], range[5], range[6]);
+    } else if (time) {
+      start = hourOf(time[1], time[2], time[3]);
+    } else if (dur) {
+      duration = dur[3] ? Number(dur[3]) / 60 : hourOf(dur[1], dur[2]);
+    } else {
+      words.push(token);
+    }
+  }
+
+  if (!dateISO) {
+    const today = isoDate(ctx.today ?? new Date());
+    if (today >= isoDate(ctx.weekStart) && today <= isoDate(addDays(ctx.weekStart, 6))) dateISO = today;
+    else errors.push('Jour manquant (lun, mar… ou jj/mm).');
+  }
+  if (start === null) {
+    errors.push('Horaire manquant (9h-11h30, 14:00 2h…).');
+  } else {
+    if (end === null) end = start + (duration ?? 1);
+    if (!isOnGrid(start, ctx.settings) || !isOnGrid(end, ctx.settings)) {
+      errors.push(`Horaire hors granularité (${ctx.settings.slotMinutes} min).`);
+    } else if (end <= start || start < ctx.settings.startHour || end > ctx.settings.endHour) {
+      errors.push(`Plage horaire invalide (${dayRangeLabel(ctx.settings)}).`);
+    }
+  }
+
+  // Devis : premier mot au format XX-nnn
+  const quoteIdx = words.findIndex(w => QUOTE_RE.test(w));
+  const quote = quoteIdx >= 0 ? words.splice(quoteIdx, 1)[0] : undefined;
+  const text = words.join(' ');
+
+  const knownClient = (name: string) => ctx.clients.find(c => normalizeClient(c) === normalizeClient(name));
+  const knownType = (name: string) => ctx.types.find(t => t.toLowerCase() === name.toLowerCase());
+
+  let fields: Pick<Task, 'category' | 'client' | 'project' | 'quote' | 'type'>;
+  const slash = text.indexOf('/');
+  if (slash >= 0 || (text && knownClient(text) && !knownType(text))) {
+    const rawClient = (slash >= 0 ? text.slice(0, slash) : text).trim();
+    const project = slash >= 0 ? text.slice(slash + 1).trim() || undefined : undefined;
+    const client = rawClient ? knownClient(rawClient) ?? rawClient : undefined;
+    if (!client) errors.push('Client manquant avant « / ».');
+    else if (!knownClient(client)) warnings.push(`Client inconnu : « ${client} » sera créé.`);
+    else if (project && !(ctx.projectsByClient[client] ?? []).includes(project)) warnings.push(`Nouveau projet pour ${client} : « ${project} ».`);
+    fields = { category: 'FACTURABLE', client, project, quote };
+  } else {
+    if (!text) errors.push('Client (« Client / Projet ») ou type manquant.');
+    else if (!knownType(text)) warnings.push(`Type inconnu : « ${text} ».`);
+    if (quote) warnings.push('Un devis ne s\'applique qu\'aux tâches facturables : ignoré.');
+    fields = { category: 'NON_FACTURABLE', type: knownType(text) ?? (text || undefined) };
+  }
+
+  if (errors.length > 0 || !dateISO || start === null || end === null) return { task: null, errors, warnings };
+  return {
+    task: {
+      id: newTaskId(),
+      dateISO,
+      startHour: start,
+      endHour: end,
+      ...fields,
+      description,
+      billed: fields.category === 'FACTURABLE' ? false : undefined,
+    },
+    errors,
+    warnings,
+  };
+}
@@ -0,0 +1,91 @@
+import { Client, Quote, QuoteStatus, Task } from '@/types';
+import { normalizeClient } from '@/utils/color';
+import { formatHours } from '@/utils/date';
+import { sumHours, taskHours } from '@/utils/totals';
+
+// Devis au forfait : rattachement des tâches, budget en heures et courbe de consommation.
+
+export const QUOTE_STATUS_LABELS: Record<QuoteStatus, string> = {
+  DRAFT: 'Brouillon',
+  ACCEPTED: 'Accepté',
+  CLOSED: 'Clôturé',
+};
+
+export const sortQuotes = (list: Quote[]) =>
+  list.slice().sort((a, b) => a.clientName.localeCompare(b.clientName, 'fr') || a.reference.localeCompare(b.reference, 'fr'));
+
+// Une tâche consomme un devis si elle porte sa référence, chez le même client (casse ignorée)
+export const taskMatchesQuote = (q: Quote, t: Task) =>
+  t.category === 'FACTURABLE' && !!t.client && !!t.quote
+  && normalizeClient(t.client) === q.clientKey
+  && normalizeClient(t.quote) === normalizeClient(q.reference);
+
+export const findQuote = (quotes: Quote[], client?: string, reference?: string) =>
+  client && reference
+    ? quotes.find(q => q.clientKey === normalizeClient(client) && normalizeClient(q.reference) === normalizeClient(reference))
+    : undefined;
+
+// Budget en heures ; un montant est converti au taux horaire du client, faute de quoi il n'y a pas de budget
+export function quoteBudgetHours(q: Quote, client?: Client) {
+  if (q.budgetHours) return q.budgetHours;
+  if (q.budgetAmount && client?.hourlyRate) return q.budgetAmount / client.hourlyRate;
+  return undefined;
+}
+
+export interface QuoteUsage {
+  budget?: number;
+  consumed: number;
+  remaining?: number;
+  percent?: number;
+  tasks: Task[];
+}
+
+export function quoteUsage(q: Quote, tasks: Task[], client?: Client): QuoteUsage {
+  const list = tasks.filter(t => taskMatchesQuote(q, t));
+  const budget = quoteBudgetHours(q, client);
+  const consumed = sumHours(list);
+  return {
+    budget,
+    consumed,
+    remaining: budget !== undefined ? budget - consumed : undefined,
+    percent: budget ? Math.round((consumed / budget) * 100) : undefined,
+    tasks: list,
+  };
+}
+
+export interface BurnDownPoint {
+  dateISO: string;
+  consumed: number;
+  remaining?: number;
+}
+
+// Cumul jour par jour des heures consommées, et reste à consommer si le devis a un budget.
+// La courbe part de `startISO` (création du devis) quand il précède la première tâche.
+export function burnDown(usage: QuoteUsage, startISO?: string): BurnDownPoint[] {
+  const byDay = new Map<string, number>();
+  usage.tasks.forEach(t => byDay.set(t.dateISO, (byDay.get(t.dateISO) ?? 0) + taskHours(t)));
+  const days = Array.from(byDay.keys()).sort();
+  if (startISO && (days.length === 0 || startISO < days[0])) {
+    days.unshift(startISO);
+    byDay.set(startISO, 0);
+  }
+  let consumed = 0;
+  return days.map(dateISO => {
+    consumed += byDay.get(dateISO)!;
+    return { dateISO, consumed, remaining: usage.budget !== undefined ? usage.budget - consumed : undefined };
+  });
+}
+
+// Avertissement à la saisie : devis clôturé, ou budget dépassé avec la tâche (nouvelle ou modifiée)
+export function quoteBudgetWarning(task: Task, quotes: Quote[], tasks: Task[], clients: Client[]): string | null {
+  if (task.category !== 'FACTURABLE') return null;
+  const q = findQuote(quotes, task.client, task.quote);
+  if (!q) return null;
+  if (q.status === 'CLOSED') return `Le devis ${q.reference} est clôturé.`;
+  const client = clients.find(c => c.key === q.clientKey);
+  const usage = quoteUsage(q, tasks.filter(t => t.id !== task.id), client);
+  if (usage.budget === undefined) return null;
+  const after = usage.consumed + taskHours(task);
+  if (after <= usage.budget + 1e-9) return null;
+  return `Le devis ${q.reference} dépasserait son budget : ${formatHours(after)} pour ${formatHours(usage.budget)} vendues.`;
+}
@@ -0,0 +1,175 @@
+import { RecurrenceFreq, RecurrenceRule, Task } from '@/types';
+import { addDays, formatDateFR, isoDate, parseISODate } from '@/utils/date';
+import { WEEKDAY_LABELS, WEEKDAY_ORDER } from '@/utils/settings';
+import { newTaskId, shiftDateISO } from '@/utils/tasks';
+
+// Les occurrences d'une série sont des tâches ordinaires (facturables, annulables, exportables)
+// qui partagent un `seriesId` et une copie de la règle. Une série est toujours bornée.
+export const MAX_OCCURRENCES = 366;
+const MAX_SPAN_DAYS = 5 * 366;
+
+export type SeriesScope = 'ONE' | 'FOLLOWING' | 'ALL';
+
+export const FREQ_LABELS: Record<RecurrenceFreq, string> = {
+  DAILY: 'Chaque jour',
+  WEEKLY: 'Chaque semaine',
+  MONTHLY: 'Chaque mois',
+};
+
+export const SCOPE_LABELS: Record<SeriesScope, string> = {
+  ONE: 'Cette occurrence',
+  FOLLOWING: 'Celle-ci et les suivantes',
+  ALL: 'Toute la série',
+};
+
+export const MONTH_WEEK_LABELS: Record<number, string> = { 1: '1er', 2: '2e', 3: '3e', 4: '4e', [-1]: 'dernier' };
+
+// Rang du jour dans le mois : 1 à 5 ; `last` si c'est le dernier de ce jour de semaine
+const monthWeekOf = (d: Date) => ({ nth: Math.ceil(d.getDate() / 7), last: addDays(d, 7).getMonth() !== d.getMonth() });
+
+export function defaultRule(dateISO: string): RecurrenceRule {
+  const d = parseISODate(dateISO);
+  const { nth, last } = monthWeekOf(d);
+  return { freq: 'WEEKLY', weekDays: [d.getDay()], monthWeek: last || nth > 4 ? -1 : nth, monthWeekDay: d.getDay(), count: 10 };
+}
+
+// Ne garde que les champs utiles à la fréquence choisie
+export function cleanRule(rule: RecurrenceRule): RecurrenceRule {
+  return {
+    freq: rule.freq,
+    weekDays: rule.freq === 'WEEKLY' ? WEEKDAY_ORDER.filter(d => rule.weekDays?.includes(d)) : undefined,
+    monthWeek: rule.freq === 'MONTHLY' ? rule.monthWeek : undefined,
+    monthWeekDay: rule.freq === 'MONTHLY' ? rule.monthWeekDay : undefined,
+    until: rule.until,
+    count: rule.until ? undefined : rule.count,
+  };
+}
+
+export function normalizeRecurrence(raw: unknown): RecurrenceRule | undefined {
+  if (!raw || typeof raw !== 'object') return undefined;
+  const r = raw as Record<string, unknown>;
+  if (r.freq !== 'DAILY' && r.freq !== 'WEEKLY' && r.freq !== 'MONTHLY') return undefined;
+  const day = (v: unknown) => (Number.isInteger(v) && (v as number) >= 0 && (v as number) <= 6 ? (v as number) : undefined);
+  return cleanRule({
+    freq: r.freq,
+    weekDays: Array.isArray(r.weekDays) ? r.weekDays.map(day).filter((d): d is number => d !== undefined) : [],
+    monthWeek: [1, 2, 3, 4, -1].includes(r.monthWeek as number) ? (r.monthWeek as number) : 1,
+    monthWeekDay: day(r.monthWeekDay) ?? 1,
+    until: typeof r.until === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(r.until) ? r.until : undefined,
+    count: Number.isInteger(r.count) && (r.count as number) > 0 ? Math.min(r.count as number, MAX_OCCURRENCES) : undefined,
+  });
+}
+
+export function validateRule(rule: RecurrenceRule, startISO: string): string | null {
+  if (rule.freq === 'WEEKLY' && !rule.weekDays?.length) return 'Choisissez au moins un jour de répétition.';
+  if (rule.until) {
+    if (rule.until < startISO) return 'La date de fin de répétition précède la première occurrence.';
+  } else if (!rule.count || rule.count < 1 || rule.count > MAX_OCCURRENCES) {
+    return `Indiquez une date de fin ou un nombre d'occurrences (1 à ${MAX_OCCURRENCES}).`;
+  }
+  return null;
+}
+
+function matches(rule: RecurrenceRule, d: Date) {
+  if (rule.freq === 'DAILY') return true;
+  if (rule.freq === 'WEEKLY') return !!rule.weekDays?.includes(d.getDay());
+  if (d.getDay() !== rule.monthWeekDay) return false;
+  const { nth, last } = monthWeekOf(d);
+  return rule.monthWeek === -1 ? last : nth === rule.monthWeek;
+}
+
+// Dates des occurrences à partir de `startISO` (inclus), bornées par la règle et par MAX_OCCURRENCES
+export function occurrenceDates(rule: RecurrenceRule, startISO: string): string[] {
+  const start = parseISODate(startISO);
+  const limit = Math.min(rule.until ? MAX_OCCURRENCES : rule.count ?? 0, MAX_OCCURRENCES);
+  const out: string[] = [];
+  for (let i = 0; out.length < limit && i < MAX_SPAN_DAYS; i++) {
+    const d = addDays(start, i);
+    const iso = isoDate(d);
+    if (rule.until && iso > rule.until) break;
+    if (matches(rule, d)) out.push(iso);
+  }
+  return out;
+}
+
+export function describeRule(rule: RecurrenceRule) {
+  let base: string = FREQ_LABELS[rule.freq];
+  if (rule.freq === 'WEEKLY') {
+    base += ` : ${(rule.weekDays ?? []).map(d => WEEKDAY_LABELS[d].slice(0, 3).toLowerCase()).join(', ')}`;
+  } else if (rule.freq === 'MONTHLY') {
+    base = `Le ${MONTH_WEEK_LABELS[rule.monthWeek ?? 1]} ${WEEKDAY_LABELS[rule.monthWeekDay ?? 1].toLowerCase()} du mois`;
+  }
+  return rule.until ? `${base}, jusqu'au ${formatDateFR(rule.until)}` : `${base}, ${rule.count} fois`;
+}
+
+// Occurrences générées pour les dates de la règle ; les dates déjà tenues par une occurrence
+// conservée (facturée) sont sautées, et les identifiants remplacés sont réutilisés date pour date.
+function generate(template: Task, rule: RecurrenceRule, fromISO: string, seriesId: string, replaced: Task[], kept: Task[]): Task[] {
+  const keptDates = new Set(kept.map(t => t.dateISO));
+  const idByDate = new Map(replaced.map(t => [t.dateISO, t.id]));
+  return occurrenceDates(rule, fromISO)
+    .filter(d => !keptDates.has(d))
+    .map(d => ({
+      ...template,
+      id: idByDate.get(d) ?? newTaskId(),
+      dateISO: d,
+      seriesId,
+      recurrence: rule,
+      billed: template.category === 'FACTURABLE' ? false : undefined,
+      invoiceId: undefined,
+    }));
+}
+
+// Modifiée seule (déplacée, redimensionnée, retouchée), une occurrence sort de sa série
+export const detachOccurrence = (t: Task): Task => ({ ...t, seriesId: undefined, recurrence: undefined });
+
+export const seriesMembers = (tasks: Task[], seriesId: string) =>
+  tasks.filter(t => t.seriesId === seriesId).sort((a, b) => a.dateISO.localeCompare(b.dateISO));
+
+// « Celle-ci et les suivantes » : les occurrences antérieures gardent la série, règle close la veille
+function closeEarlier(members: Task[], fromISO: string) {
+  const until = shiftDateISO(fromISO, -1);
+  const before = members.filter(t => t.dateISO < fromISO);
+  const after = before.map(t => ({ ...t, recurrence: t.recurrence && { ...t.recurrence, until, count: undefined } }));
+  return { before, after };
+}
+
+// Changements à appliquer pour enregistrer `edited` (avec ou sans règle) selon la portée choisie.
+// Les occurrences facturées ne sont jamais réécrites ni supprimées.
+export function planSeriesSave(tasks: Task[], original: Task | undefined, edited: Task, scope: SeriesScope) {
+  const rule = edited.recurrence;
+
+  if (!original?.seriesId || scope === 'ONE') {
+    if (!rule || original?.seriesId) {
+      return { before: original ? [original] : [], after: [detachOccurrence(edited)] };
+    }
+    const replaced = original && !original.billed ? [original] : [];
+    const kept = original?.billed ? [original] : [];
+    return { before: replaced, after: generate(edited, rule, edited.dateISO, newTaskId(), replaced, kept) };
+  }
+
+  const members = seriesMembers(tasks, original.seriesId);
+  const inScope = scope === 'ALL' ? members : members.filter(t => t.dateISO >= original.dateISO);
+  const replaced = inScope.filter(t => !t.billed);
+  const kept = inScope.filter(t => t.billed);
+  const earlier = scope === 'FOLLOWING' ? closeEarlier(members, original.dateISO) : { before: [], after: [] };
+  const before = [...replaced, ...earlier.before];
+
+  if (!rule) {
+    // Répétition retirée : seule l'occurrence éditée subsiste dans la portée
+    if (original.billed) before.push(original);
+    return { before, after: [...earlier.after, { ...edited, seriesId: undefined, recurrence: undefined }] };
+  }
+  const fromISO = scope === 'ALL' ? members[0].dateISO : edited.dateISO;
+  const seriesId = scope === 'ALL' ? original.seriesId : newTaskId();
+  return { before, after: [...earlier.after, ...generate(edited, rule, fromISO, seriesId, replaced, kept)] };
+}
+
+export function planSeriesDelete(tasks: Task[], task: Task, scope: SeriesScope) {
+  if (!task.seriesId || scope === 'ONE') return { before: [task], after: [] as Task[] };
+  const members = seriesMembers(tasks, task.seriesId);
+  const removed = members.filter(t => t.id === task.id || (!t.billed && (scope === 'ALL' || t.dateISO >= task.dateISO)));
+  if (scope === 'ALL') return { before: removed, after: [] as Task[] };
+  const earlier = closeEarlier(members, task.dateISO);
+  return { before: [...removed, ...earlier.before], after: earlier.after };
+}
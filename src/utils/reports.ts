@@ -0,0 +1,120 @@
+import { Task } from '@/types';
+import { addDays, formatDateFR, getMonday, isoDate, isoWeekKey, parseISODate } from '@/utils/date';
+import { HoursMode } from '@/utils/settings';
+import { countHours } from '@/utils/totals';
+
+// Agrégats du tableau de bord : période, regroupements et série temporelle.
+
+export type ReportPeriod = 'WEEK' | 'MONTH' | 'QUARTER' | 'CUSTOM';
+
+export const PERIOD_LABELS: Record<ReportPeriod, string> = {
+  WEEK: 'Semaine',
+  MONTH: 'Mois',
+  QUARTER: 'Trimestre',
+  CUSTOM: 'Personnalisée',
+};
+
+export interface DateRange {
+  fromISO: string;
+  toISO: string;
+}
+
+// Période contenant `anchor` (hors période personnalisée)
+export function periodRange(period: Exclude<ReportPeriod, 'CUSTOM'>, anchor: Date): DateRange {
+  if (period === 'WEEK') {
+    const monday = getMonday(anchor);
+    return { fromISO: isoDate(monday), toISO: isoDate(addDays(monday, 6)) };
+  }
+  const months = period === 'MONTH' ? 1 : 3;
+  const firstMonth = period === 'MONTH' ? anchor.getMonth() : Math.floor(anchor.getMonth() / 3) * 3;
+  return {
+    fromISO: isoDate(new Date(anchor.getFullYear(), firstMonth, 1)),
+    toISO: isoDate(new Date(anchor.getFullYear(), firstMonth + months, 0)),
+  };
+}
+
+export function shiftPeriod(period: Exclude<ReportPeriod, 'CUSTOM'>, anchor: Date, direction: 1 | -1) {
+  if (period === 'WEEK') return addDays(anchor, 7 * direction);
+  return new Date(anchor.getFullYear(), anchor.getMonth() + direction * (period === 'MONTH' ? 1 : 3), 1);
+}
+
+export function periodLabel(period: ReportPeriod, range: DateRange) {
+  const from = parseISODate(range.fromISO);
+  if (period === 'WEEK') return `Semaine ${isoWeekKey(from).slice(6)} · ${formatDateFR(range.fromISO)} → ${formatDateFR(range.toISO)}`;
+  if (period === 'MONTH') return from.toLocaleDateString('fr-FR', { month: 'long', year: 'numeric' });
+  if (period === 'QUARTER') return `T${Math.floor(from.getMonth() / 3) + 1} ${from.getFullYear()}`;
+  return `${formatDateFR(range.fromISO)} → ${formatDateFR(range.toISO)}`;
+}
+
+export type Dimension = 'client' | 'project' | 'quote' | 'type';
+
+export const DIMENSION_LABELS: Record<Dimension, string> = {
+  client: 'Client',
+  project: 'Projet',
+  quote: 'Devis',
+  type: 'Type (non facturable)',
+};
+
+// Clé de regroupement ; undefined = tâche hors du regroupement (ex. non facturable pour « client »)
+export function dimensionKey(dimension: Dimension, t: Task): string | undefined {
+  if (dimension === 'type') return t.category === 'NON_FACTURABLE' ? t.type || 'Sans type' : undefined;
+  if (t.category !== 'FACTURABLE') return undefined;
+  const client = t.client || 'Sans client';
+  if (dimension === 'client') return client;
+  if (dimension === 'project') return `${client} — ${t.project || 'Sans projet'}`;
+  return t.quote ? `${client} — ${t.quote}` : undefined;
+}
+
+export interface Group {
+  key: string;
+  hours: number;
+  tasks: Task[];
+}
+
+// Groupes triés par heures décroissantes ; les heures suivent le mode de comptage choisi
+export function groupTasks(tasks: Task[], keyOf: (t: Task) => string | undefined, mode: HoursMode): Group[] {
+  const map = new Map<string, Task[]>();
+  tasks.forEach(t => {
+    const key = keyOf(t);
+    if (key !== undefined) map.set(key, [...(map.get(key) ?? []), t]);
+  });
+  return Array.from(map.entries())
+    .map(([key, list]) => ({ key, hours: countHours(list, mode), tasks: list }))
+    .sort((a, b) => b.hours - a.hours || a.key.localeCompare(b.key, 'fr'));
+}
+
+export interface Bucket extends DateRange {
+  label: string;
+  billable: number;
+  nonBillable: number;
+  tasks: Task[];
+}
+
+// Série temporelle : par jour jusqu'à un mois, par semaine jusqu'à six mois, par mois au-delà
+export function trendBuckets(tasks: Task[], range: DateRange, mode: HoursMode): Bucket[] {
+  const from = parseISODate(range.fromISO);
+  const to = parseISODate(range.toISO);
+  const days = Math.round((to.getTime() - from.getTime()) / 86400000) + 1;
+  const unit = days <= 31 ? 'day' : days <= 183 ? 'week' : 'month';
+
+  const buckets: Bucket[] = [];
+  let start = unit === 'week' ? getMonday(from) : unit === 'month' ? new Date(from.getFullYear(), from.getMonth(), 1) : from;
+  while (start <= to) {
+    const end = unit === 'day' ? start : unit === 'week' ? addDays(start, 6) : new Date(start.getFullYear(), start.getMonth() + 1, 0);
+    const fromISO = isoDate(start) < range.fromISO ? range.fromISO : isoDate(start);
+    const toISO = isoDate(end) > range.toISO ? range.toISO : isoDate(end);
+    const list = tasks.filter(t => t.dateISO >= fromISO && t.dateISO <= toISO);
+    buckets.push({
+      fromISO,
+      toISO,
+      label: unit === 'day'
+        ? start.toLocaleDateString('fr-FR', { weekday: 'short', day: 'numeric' })
+        : unit === 'week' ? isoWeekKey(start).slice(5) : start.toLocaleDateString('fr-FR', { month: 'short', year: '2-digit' }),
+      billable: countHours(list.filter(t => t.category === 'FACTURABLE'), mode),
+      nonBillable: countHours(list.filter(t => t.category === 'NON_FACTURABLE'), mode),
+      tasks: list,
+    });
+    start = unit === 'day' ? addDays(start, 1) : unit === 'week' ? addDays(start, 7) : new Date(start.getFullYear(), start.getMonth() + 1, 1);
+  }
+  return buckets;
+}
@@ -0,0 +1,66 @@
+import { Category } from '@/types';
+import { isoDate, isoWeekKey, parseISODate, parseISOWeek } from '@/utils/date';
+import { CalendarView } from '@/utils/settings';
+
+// Adresses partageables de la page principale : vue et période dans le chemin, filtres dans la requête.
+//   /semaine/2025-W14   /jour/2025-04-03   /mois/2025-04   /agenda/2025-04   /tache/:id
+
+export type CalendarRoute =
+  | { kind: 'home' }
+  | { kind: 'calendar'; view: CalendarView; date: Date }
+  | { kind: 'task'; id: string };
+
+const VIEW_SEGMENTS: Record<CalendarView, string> = {
+  WEEK: 'semaine',
+  DAY: 'jour',
+  MONTH: 'mois',
+  AGENDA: 'agenda',
+};
+
+export function calendarPath(view: CalendarView, date: Date) {
+  const period = view === 'WEEK' ? isoWeekKey(date) : view === 'DAY' ? isoDate(date) : isoDate(date).slice(0, 7);
+  return `/${VIEW_SEGMENTS[view]}/${period}`;
+}
+
+export const taskPath = (id: string) => `/tache/${encodeURIComponent(id)}`;
+
+function parsePeriod(view: CalendarView, period: string) {
+  if (view === 'WEEK') return parseISOWeek(period);
+  const iso = view === 'DAY' ? period : `${period}-01`;
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(iso)) return null;
+  const date = parseISODate(iso);
+  return isoDate(date) === iso ? date : null;
+}
+
+// null : adresse reconnue par le routeur mais période invalide
+export function parseCalendarPath(pathname: string): CalendarRoute | null {
+  const [, segment = '', param = ''] = pathname.split('/');
+  if (!segment) return { kind: 'home' };
+  if (segment === 'tache') return param ? { kind: 'task', id: decodeURIComponent(param) } : null;
+  const view = (Object.keys(VIEW_SEGMENTS) as CalendarView[]).find(v => VIEW_SEGMENTS[v] === segment);
+  const date = view && parsePeriod(view, param);
+  return view && date ? { kind: 'calendar', view, date } : null;
+}
+
+export interface TaskFilters {
+  category: 'ALL' | Category;
+  client: string;
+  type: string;
+}
+
+export function filtersFromSearch(params: URLSearchParams): TaskFilters {
+  const category = params.get('categorie');
+  return {
+    category: category === 'FACTURABLE' || category === 'NON_FACTURABLE' ? category : 'ALL',
+    client: params.get('client') ?? '',
+    type: params.get('type') ?? '',
+  };
+}
+
+export function filtersToSearch(filters: TaskFilters) {
+  const params = new URLSearchParams();
+  if (filters.client) params.set('client', filters.client);
+  if (filters.category !== 'ALL') params.set('categorie', filters.category);
+  if (filters.type) params.set('type', filters.type);
+  return params;
+}
@@ -0,0 +1,110 @@
+import { addDays, formatTime, isoDate } from '@/utils/date';
+
+export type SlotMinutes = 15 | 30 | 60;
+
+// Comptage des heures quand des tâches se chevauchent : somme des durées ou temps réel (horloge)
+export type HoursMode = 'SUM' | 'WALL';
+
+// Vue du calendrier sur la page principale
+export type CalendarView = 'WEEK' | 'DAY' | 'MONTH' | 'AGENDA';
+
+export interface Settings {
+  startHour: number;       // début de journée, heure pleine
+  endHour: number;         // fin de journée (exclusive), heure pleine
+  slotMinutes: SlotMinutes; // granularité de saisie
+  weekDays: number[];      // jours visibles, valeurs de Date.getDay() (0 = dimanche)
+  allowOverlap: boolean;   // tâches simultanées autorisées (signalées) plutôt que refusées
+  hoursMode: HoursMode;    // comptage par défaut des totaux
+  view: CalendarView;      // dernière vue choisie
+}
+
+export const DEFAULT_SETTINGS: Settings = {
+  startHour: 7,
+  endHour: 20,
+  slotMinutes: 30,
+  weekDays: [1, 2, 3, 4, 5, 6],
+  allowOverlap: false,
+  hoursMode: 'SUM',
+  view: 'WEEK',
+};
+
+export const SLOT_OPTIONS: SlotMinutes[] = [15, 30, 60];
+
+export const VIEW_LABELS: Record<CalendarView, string> = {
+  DAY: 'Jour',
+  WEEK: 'Semaine',
+  MONTH: 'Mois',
+  AGENDA: 'Agenda',
+};
+
+export const HOURS_MODE_LABELS: Record<HoursMode, string> = {
+  SUM: 'Somme des tâches',
+  WALL: 'Temps réel (horloge)',
+};
+
+// Ordre d'affichage : lundi → dimanche
+export const WEEKDAY_ORDER = [1, 2, 3, 4, 5, 6, 0];
+export const WEEKDAY_LABELS = ['Dimanche', 'Lundi', 'Mardi', 'Mercredi', 'Jeudi', 'Vendredi', 'Samedi'];
+
+export function normalizeSettings(raw: unknown): Settings {
+  const r = (raw && typeof raw === 'object' ? raw : {}) as Record<string, unknown>;
+  const int = (v: unknown, min: number, max: number, fallback: number) => {
+    const n = Number(v);
+    return Number.isInteger(n) && n >= min && n <= max ? n : fallback;
+  };
+  const startHour = int(r.startHour, 0, 23, DEFAULT_SETTINGS.startHour);
+  let endHour = int(r.endHour, 1, 24, DEFAULT_SETTINGS.endHour);
+  if (endHour <= startHour) endHour = Math.min(24, startHour + 1);
+  const slotMinutes = SLOT_OPTIONS.includes(r.slotMinutes as SlotMinutes) ? (r.slotMinutes as SlotMinutes) : DEFAULT_SETTINGS.slotMinutes;
+  const days = Array.isArray(r.weekDays) ? r.weekDays.filter((d): d is number => Number.isInteger(d) && d >= 0 && d <= 6) : [];
+  const weekDays = WEEKDAY_ORDER.filter(d => days.includes(d));
+  return {
+    startHour,
+    endHour,
+    slotMinutes,
+    weekDays: weekDays.length > 0 ? weekDays : DEFAULT_SETTINGS.weekDays,
+    allowOverlap: r.allowOverlap === true,
+    hoursMode: r.hoursMode === 'WALL' ? 'WALL' : 'SUM',
+    view: r.view && Object.keys(VIEW_LABELS).includes(r.view as string) ? (r.view as CalendarView) : DEFAULT_SETTINGS.view,
+  };
+}
+
+// Pas de la grille en heures (0.25, 0.5 ou 1)
+export const slotStep = (s: Settings) => s.slotMinutes / 60;
+
+export function timeSlots(s: Settings) {
+  const step = slotStep(s);
+  const out: number[] = [];
+  for (let h = s.startHour; h < s.endHour; h += step) out.push(h);
+  return out;
+}
+
+export const snapHour = (hour: number, s: Settings) => {
+  const step = slotStep(s);
+  return Math.round(hour / step) * step;
+};
+
+// Plage affichée d'une tâche : ramenée dans la journée de travail (au moins un créneau), bords coupés signalés
+export function visibleSpan(startHour: number, endHour: number, s: Settings) {
+  const step = slotStep(s);
+  const start = Math.min(Math.max(startHour, s.startHour), s.endHour - step);
+  const end = Math.max(Math.min(endHour, s.endHour), start + step);
+  return { start, end, clippedStart: startHour < s.startHour, clippedEnd: endHour > s.endHour };
+}
+
+export const isOnGrid = (hour: number, s: Settings) => Math.abs(hour - snapHour(hour, s)) < 1e-9;
+
+// Dates visibles de la semaine commençant au lundi `weekStart`
+export const visibleWeekDates = (weekStart: Date, s: Settings) =>
+  s.weekDays.map(d => addDays(weekStart, (d + 6) % 7));
+
+export const visibleWeekDatesISO = (weekStart: Date, s: Settings) => visibleWeekDates(weekStart, s).map(isoDate);
+
+export const dayRangeLabel = (s: Settings) => `${formatTime(s.startHour)} → ${formatTime(s.endHour)}`;
+
+export function weekDaysLabel(s: Settings) {
+  const days = s.weekDays;
+  const contiguous = days.every((d, i) => i === 0 || WEEKDAY_ORDER.indexOf(d) === WEEKDAY_ORDER.indexOf(days[i - 1]) + 1);
+  if (contiguous && days.length > 1) return `${WEEKDAY_LABELS[days[0]]} → ${WEEKDAY_LABELS[days[days.length - 1]]}`;
+  return days.map(d => WEEKDAY_LABELS[d].slice(0, 3)).join(', ');
+}
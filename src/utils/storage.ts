@@ -0,0 +1,482 @@
+import { Task, Category, Client, Invoice, Quote, QuoteStatus, RunningTimer, TaskTemplate } from '@/types';
+import { normalizeClient } from '@/utils/color';
+import { seedClients, DEFAULT_CURRENCY } from '@/utils/clients';
+import { formatInvoiceNumber } from '@/utils/invoices';
+import { Settings, normalizeSettings } from '@/utils/settings';
+import { normalizeRecurrence } from '@/utils/recurrence';
+
+// Persistance IndexedDB. Chaque montée de version passe par `migrations`,
+// dans l'ordre : migrations[v] fait passer le schéma de v à v + 1.
+const DB_NAME = 'tt';
+export const SCHEMA_VERSION = 5;
+
+const LEGACY_TASKS_KEY = 'tt.tasks';
+const LEGACY_COLORS_KEY = 'tt.clientColors';
+
+const STORE_TASKS = 'tasks';
+const STORE_CLIENT_COLORS = 'clientColors'; // supprimé en v2
+const STORE_CLIENTS = 'clients';
+const STORE_INVOICES = 'invoices';
+const STORE_TEMPLATES = 'templates';
+const STORE_QUOTES = 'quotes';
+const STORE_META = 'meta';
+
+type Migration = (db: IDBDatabase, tx: IDBTransaction) => void;
+
+const migrations: Migration[] = [
+  // 0 → 1 : tâches indexées par date, client et projet ; couleurs clients ; méta
+  (db) => {
+    const tasks = db.createObjectStore(STORE_TASKS, { keyPath: 'id' });
+    tasks.createIndex('dateISO', 'dateISO');
+    tasks.createIndex('client', 'client');
+    tasks.createIndex('project', 'project');
+    db.createObjectStore(STORE_CLIENT_COLORS); // clé = client normalisé
+    db.createObjectStore(STORE_META);
+  },
+  // 1 → 2 : registre clients, qui remplace la table de couleurs
+  (db, tx) => {
+    const clients = db.createObjectStore(STORE_CLIENTS, { keyPath: 'key' });
+    clients.createIndex('name', 'name');
+    const colorStore = tx.objectStore(STORE_CLIENT_COLORS);
+    const colorKeys = colorStore.getAllKeys();
+    const colorValues = colorStore.getAll();
+    const taskClients = tx.objectStore(STORE_TASKS).getAll();
+    taskClients.onsuccess = () => {
+      const colors: Record<string, string> = {};
+      colorKeys.result.forEach((k, i) => { colors[String(k)] = colorValues.result[i]?.hex; });
+      const names = taskClients.result.map((t: Task) => t.client).filter(Boolean);
+      seedClients(names, colors).forEach((c) => clients.put(c));
+      db.deleteObjectStore(STORE_CLIENT_COLORS);
+    };
+  },
+  // 2 → 3 : factures ; le compteur de numérotation vit dans `meta`
+  (db) => {
+    const invoices = db.createObjectStore(STORE_INVOICES, { keyPath: 'id' });
+    invoices.createIndex('clientKey', 'clientKey');
+    invoices.createIndex('number', 'number');
+  },
+  // 3 → 4 : modèles de tâches
+  (db) => {
+    db.createObjectStore(STORE_TEMPLATES, { keyPath: 'id' });
+  },
+  // 4 → 5 : devis au forfait
+  (db) => {
+    const quotes = db.createObjectStore(STORE_QUOTES, { keyPath: 'id' });
+    quotes.createIndex('clientKey', 'clientKey');
+  },
+];
+
+function promisify<T>(req: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+function txDone(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error ?? new Error('Transaction annulée'));
+  });
+}
+
+const isCategory = (v: unknown): v is Category => v === 'FACTURABLE' || v === 'NON_FACTURABLE';
+const optString = (v: unknown) => (typeof v === 'string' && v ? v : undefined);
+
+// Relit un enregistrement brut (ancien format, import...) en `Task` valide.
+// Les champs inconnus sont ignorés, les champs manquants reçoivent leur valeur par défaut.
+export function normalizeTask(raw: unknown): Task | null {
+  if (!raw || typeof raw !== 'object') return null;
+  const r = raw as Record<string, unknown>;
+  if (typeof r.id !== 'string' || !r.id) return null;
+  if (typeof r.dateISO !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(r.dateISO)) return null;
+  const startHour = Number(r.startHour);
+  const endHour = Number(r.endHour);
+  if (!Number.isFinite(startHour) || !Number.isFinite(endHour) || endHour <= startHour) return null;
+  const category: Category = isCategory(r.category) ? r.category : 'FACTURABLE';
+  const billable = category === 'FACTURABLE';
+  return {
+    id: r.id,
+    dateISO: r.dateISO,
+    startHour,
+    endHour,
+    category,
+    client: billable ? optString(r.client) : undefined,
+    project: billable ? optString(r.project) : undefined,
+    quote: billable ? optString(r.quote) : undefined,
+    type: billable ? undefined : optString(r.type),
+    description: optString(r.description),
+    billed: billable ? r.billed === true : undefined,
+    invoiceId: billable && r.billed === true ? optString(r.invoiceId) : undefined,
+    seriesId: optString(r.seriesId),
+    recurrence: optString(r.seriesId) ? normalizeRecurrence(r.recurrence) : undefined,
+  };
+}
+
+// Reprise unique des anciennes clés localStorage, dans la même transaction que le drapeau.
+async function importLegacyLocalStorage(db: IDBDatabase) {
+  const tx = db.transaction([STORE_TASKS, STORE_CLIENTS, STORE_META], 'readwrite');
+  const done = txDone(tx);
+  const meta = tx.objectStore(STORE_META);
+  const imported = await promisify(meta.get('legacyImported'));
+  if (imported) {
+    tx.abort();
+    await done.catch(() => undefined);
+    return;
+  }
+
+  let tasks: Task[] = [];
+  try {
+    const parsed = JSON.parse(localStorage.getItem(LEGACY_TASKS_KEY) || '[]');
+    if (Array.isArray(parsed)) {
+      tasks = parsed.map(normalizeTask).filter((t): t is Task => !!t);
+      tasks.forEach((t) => tx.objectStore(STORE_TASKS).put(t));
+    }
+  } catch (e) {
+    console.warn('Reprise de tt.tasks impossible:', e);
+  }
+  const colors: Record<string, string> = {};
+  try {
+    const parsed = JSON.parse(localStorage.getItem(LEGACY_COLORS_KEY) || '{}');
+    if (parsed && typeof parsed === 'object') {
+      Object.entries(parsed as Record<string, { hex?: unknown }>).forEach(([k, v]) => {
+        if (typeof v?.hex === 'string' && /^#([0-9a-f]{6})$/i.test(v.hex)) colors[normalizeClient(k)] = v.hex;
+      });
+    }
+  } catch (e) {
+    console.warn('Reprise de tt.clientColors impossible:', e);
+  }
+  seedClients(tasks.map((t) => t.client).filter(Boolean), colors)
+    .forEach((c) => tx.objectStore(STORE_CLIENTS).put(c));
+  meta.put(new Date().toISOString(), 'legacyImported');
+  await done;
+
+  localStorage.removeItem(LEGACY_TASKS_KEY);
+  localStorage.removeItem(LEGACY_COLORS_KEY);
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDB(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error('IndexedDB indisponible dans ce navigateur'));
+        return;
+      }
+      const req = indexedDB.open(DB_NAME, SCHEMA_VERSION);
+      req.onupgradeneeded = (e) => {
+        const db = req.result;
+        const tx = req.transaction!;
+        for (let v = e.oldVersion; v < SCHEMA_VERSION; v++) migrations[v](db, tx);
+      };
+      req.onsuccess = () => resolve(req.result);
+      req.onerror = () => reject(req.error);
+      req.onblocked = () => reject(new Error('Base bloquée par un autre onglet, fermez-le puis rechargez.'));
+    }).then(async (db) => {
+      await importLegacyLocalStorage(db);
+      return db;
+    });
+    dbPromise.catch(() => { dbPromise = null; });
+  }
+  return dbPromise;
+}
+
+export async function loadTasks(): Promise<Task[]> {
+  const db = await openDB();
+  const raw = await promisify(db.transaction(STORE_TASKS).objectStore(STORE_TASKS).getAll());
+  return raw.map(normalizeTask).filter((t): t is Task => !!t);
+}
+
+// Bornes incluses, au format YYYY-MM-DD (utilise l'index dateISO).
+export async function loadTasksInRange(fromISO: string, toISO: string): Promise<Task[]> {
+  const db = await openDB();
+  const index = db.transaction(STORE_TASKS).objectStore(STORE_TASKS).index('dateISO');
+  const raw = await promisify(index.getAll(IDBKeyRange.bound(fromISO, toISO)));
+  return raw.map(normalizeTask).filter((t): t is Task => !!t);
+}
+
+export async function saveTaskChanges(put: Task[], deleteIds: string[]): Promise<void> {
+  if (put.length === 0 && deleteIds.length === 0) return;
+  const db = await openDB();
+  const tx = db.transaction(STORE_TASKS, 'readwrite');
+  const done = txDone(tx);
+  const store = tx.objectStore(STORE_TASKS);
+  put.forEach((t) => store.put(t));
+  deleteIds.forEach((id) => store.delete(id));
+  await done;
+}
+
+export function normalizeClientRecord(raw: unknown): Client | null {
+  if (!raw || typeof raw !== 'object') return null;
+  const r = raw as Record<string, unknown>;
+  const name = optString(r.name);
+  if (!name) return null;
+  const rate = Number(r.hourlyRate);
+  return {
+    key: normalizeClient(name),
+    name,
+    hourlyRate: r.hourlyRate !== undefined && r.hourlyRate !== null && Number.isFinite(rate) ? rate : undefined,
+    currency: optString(r.currency) ?? DEFAULT_CURRENCY,
+    address: optString(r.address),
+    vatNumber: optString(r.vatNumber),
+    archived: r.archived === true,
+    color: typeof r.color === 'string' && /^#([0-9a-f]{6})$/i.test(r.color) ? r.color : '#e6f7ef',
+  };
+}
+
+export async function loadClients(): Promise<Client[]> {
+  const db = await openDB();
+  const raw = await promisify(db.transaction(STORE_CLIENTS).objectStore(STORE_CLIENTS).getAll());
+  return raw.map(normalizeClientRecord).filter((c): c is Client => !!c);
+}
+
+export async function saveClientChanges(put: Client[], deleteKeys: string[] = []): Promise<void> {
+  if (put.length === 0 && deleteKeys.length === 0) return;
+  const db = await openDB();
+  const tx = db.transaction(STORE_CLIENTS, 'readwrite');
+  const done = txDone(tx);
+  const store = tx.objectStore(STORE_CLIENTS);
+  deleteKeys.forEach((k) => store.delete(k));
+  put.forEach((c) => store.put(c));
+  await done;
+}
+
+export function normalizeTemplate(raw: unknown): TaskTemplate | null {
+  if (!raw || typeof raw !== 'object') return null;
+  const r = raw as Record<string, unknown>;
+  const id = optString(r.id);
+  const name = optString(r.name);
+  const duration = Number(r.duration);
+  if (!id || !name || !Number.isFinite(duration) || duration <= 0 || duration > 24) return null;
+  const category: Category = isCategory(r.category) ? r.category : 'FACTURABLE';
+  const billable = category === 'FACTURABLE';
+  return {
+    id,
+    name,
+    category,
+    client: billable ? optString(r.client) : undefined,
+    project: billable ? optString(r.project) : undefined,
+    quote: billable ? optString(r.quote) : undefined,
+    type: billable ? undefined : optString(r.type),
+    description: optString(r.description),
+    duration,
+  };
+}
+
+export async function loadTemplates(): Promise<TaskTemplate[]> {
+  const db = await openDB();
+  const raw = await promisify(db.transaction(STORE_TEMPLATES).objectStore(STORE_TEMPLATES).getAll());
+  return raw.map(normalizeTemplate).filter((t): t is TaskTemplate => !!t);
+}
+
+export async function saveTemplateChanges(put: TaskTemplate[], deleteIds: string[] = []): Promise<void> {
+  if (put.length === 0 && deleteIds.length === 0) return;
+  const db = await openDB();
+  const tx = db.transaction(STORE_TEMPLATES, 'readwrite');
+  const done = txDone(tx);
+  const store = tx.objectStore(STORE_TEMPLATES);
+  deleteIds.forEach((id) => store.delete(id));
+  put.forEach((t) => store.put(t));
+  await done;
+}
+
+const QUOTE_STATUSES: QuoteStatus[] = ['DRAFT', 'ACCEPTED', 'CLOSED'];
+
+export function normalizeQuote(raw: unknown): Quote | null {
+  if (!raw || typeof raw !== 'object') return null;
+  const r = raw as Record<string, unknown>;
+  const id = optString(r.id);
+  const clientName = optString(r.clientName);
+  const reference = optString(r.reference);
+  if (!id || !clientName || !reference) return null;
+  const positive = (v: unknown) => {
+    const n = Number(v);
+    return v !== undefined && v !== null && Number.isFinite(n) && n > 0 ? n : undefined;
+  };
+  const validUntil = optString(r.validUntil);
+  return {
+    id,
+    clientKey: normalizeClient(clientName),
+    clientName,
+    reference,
+    budgetHours: positive(r.budgetHours),
+    budgetAmount: positive(r.budgetAmount),
+    validUntil: validUntil && /^\d{4}-\d{2}-\d{2}$/.test(validUntil) ? validUntil : undefined,
+    status: QUOTE_STATUSES.includes(r.status as QuoteStatus) ? (r.status as QuoteStatus) : 'DRAFT',
+    createdISO: optString(r.createdISO) ?? new Date().toISOString(),
+  };
+}
+
+export async function loadQuotes(): Promise<Quote[]> {
+  const db = await openDB();
+  const raw = await promisify(db.transaction(STORE_QUOTES).objectStore(STORE_QUOTES).getAll());
+  return raw.map(normalizeQuote).filter((q): q is Quote => !!q);
+}
+
+export async function saveQuoteChanges(put: Quote[], deleteIds: string[] = []): Promise<void> {
+  if (put.length === 0 && deleteIds.length === 0) return;
+  const db = await openDB();
+  const tx = db.transaction(STORE_QUOTES, 'readwrite');
+  const done = txDone(tx);
+  const store = tx.objectStore(STORE_QUOTES);
+  deleteIds.forEach((id) => store.delete(id));
+  put.forEach((q) => store.put(q));
+  await done;
+}
+
+// Renommage d'un client : tâches réécrites, devis et factures rattachés à la nouvelle clé, dans une seule transaction.
+// Une facture émise garde le nom imprimé à l'émission.
+export async function renameClientReferences(previousKey: string, client: Client, tasks: Task[]): Promise<void> {
+  const db = await openDB();
+  const tx = db.transaction([STORE_TASKS, STORE_QUOTES, STORE_INVOICES], 'readwrite');
+  const done = txDone(tx);
+  tasks.forEach((t) => tx.objectStore(STORE_TASKS).put(t));
+  const quotes: Quote[] = await promisify(tx.objectStore(STORE_QUOTES).getAll());
+  quotes
+    .filter((q) => q.clientKey === previousKey)
+    .forEach((q) => tx.objectStore(STORE_QUOTES).put({ ...q, clientKey: client.key, clientName: client.name }));
+  const invoices: Invoice[] = await promisify(tx.objectStore(STORE_INVOICES).getAll());
+  invoices
+    .filter((inv) => inv.clientKey === previousKey)
+    .forEach((inv) => tx.objectStore(STORE_INVOICES).put({
+      ...inv,
+      clientKey: client.key,
+      clientName: inv.status === 'DRAFT' ? client.name : inv.clientName,
+    }));
+  await done;
+}
+
+export async function loadInvoices(): Promise<Invoice[]> {
+  const db = await openDB();
+  const list: Invoice[] = await promisify(db.transaction(STORE_INVOICES).objectStore(STORE_INVOICES).getAll());
+  return list.sort((a, b) => b.createdISO.localeCompare(a.createdISO));
+}
+
+export async function saveInvoice(invoice: Invoice): Promise<void> {
+  const db = await openDB();
+  const tx = db.transaction(STORE_INVOICES, 'readwrite');
+  const done = txDone(tx);
+  tx.objectStore(STORE_INVOICES).put(invoice);
+  await done;
+}
+
+export async function deleteInvoice(id: string): Promise<void> {
+  const db = await openDB();
+  const tx = db.transaction(STORE_INVOICES, 'readwrite');
+  const done = txDone(tx);
+  tx.objectStore(STORE_INVOICES).delete(id);
+  await done;
+}
+
+// Émission : numéro suivant de l'année, facture et tâches facturées écrits dans une seule transaction.
+export async function issueInvoice(invoice: Invoice, tasks: Task[]): Promise<{ invoice: Invoice; tasks: Task[] }> {
+  const db = await openDB();
+  const tx = db.transaction([STORE_INVOICES, STORE_TASKS, STORE_META], 'readwrite');
+  const done = txDone(tx);
+  const meta = tx.objectStore(STORE_META);
+  const now = new Date();
+  const year = now.getFullYear();
+  const seq: { year: number; last: number } | undefined = await promisify(meta.get('invoiceSeq'));
+  const next = seq && seq.year === year ? seq.last + 1 : 1;
+  meta.put({ year, last: next }, 'invoiceSeq');
+
+  const issued: Invoice = { ...invoice, status: 'ISSUED', number: formatInvoiceNumber(year, next), issuedISO: now.toISOString() };
+  const billedTasks = tasks.map(t => ({ ...t, billed: true, invoiceId: issued.id }));
+  tx.objectStore(STORE_INVOICES).put(issued);
+  billedTasks.forEach(t => tx.objectStore(STORE_TASKS).put(t));
+  await done;
+  return { invoice: issued, tasks: billedTasks };
+}
+
+export async function loadSettings(): Promise<Settings> {
+  const db = await openDB();
+  return normalizeSettings(await promisify(db.transaction(STORE_META).objectStore(STORE_META).get('settings')));
+}
+
+export async function saveSettings(settings: Settings): Promise<void> {
+  const db = await openDB();
+  const tx = db.transaction(STORE_META, 'readwrite');
+  const done = txDone(tx);
+  tx.objectStore(STORE_META).put(settings, 'settings');
+  await done;
+}
+
+export async function loadTimer(): Promise<RunningTimer | null> {
+  const db = await openDB();
+  const timer = await promisify(db.transaction(STORE_META).objectStore(STORE_META).get('timer'));
+  return timer && typeof timer.startedAt === 'string' && isCategory(timer.category) ? timer : null;
+}
+
+export async function saveTimer(timer: RunningTimer | null): Promise<void> {
+  const db = await openDB();
+  const tx = db.transaction(STORE_META, 'readwrite');
+  const done = txDone(tx);
+  if (timer) tx.objectStore(STORE_META).put(timer, 'timer');
+  else tx.objectStore(STORE_META).delete('timer');
+  await done;
+}
+
+// Espace de travail complet, pour la sauvegarde et la restauration
+export interface Workspace {
+  tasks: Task[];
+  clients: Client[];
+  invoices: Invoice[];
+  templates: TaskTemplate[];
+  quotes: Quote[];
+  settings: Settings;
+  invoiceSeq?: { year: number; last: number };
+}
+
+export type RestoreMode = 'replace' | 'merge';
+
+export async function loadWorkspace(): Promise<Workspace> {
+  const db = await openDB();
+  const tx = db.transaction([STORE_TASKS, STORE_CLIENTS, STORE_INVOICES, STORE_TEMPLATES, STORE_QUOTES, STORE_META]);
+  const [tasks, clients, invoices, templates, quotes, settings, invoiceSeq] = await Promise.all([
+    promisify(tx.objectStore(STORE_TASKS).getAll()),
+    promisify(tx.objectStore(STORE_CLIENTS).getAll()),
+    promisify(tx.objectStore(STORE_INVOICES).getAll()),
+    promisify(tx.objectStore(STORE_TEMPLATES).getAll()),
+    promisify(tx.objectStore(STORE_QUOTES).getAll()),
+    promisify(tx.objectStore(STORE_META).get('settings')),
+    promisify(tx.objectStore(STORE_META).get('invoiceSeq')),
+  ]);
+  return {
+    tasks: tasks.map(normalizeTask).filter((t): t is Task => !!t),
+    clients: clients.map(normalizeClientRecord).filter((c): c is Client => !!c),
+    invoices,
+    templates: templates.map(normalizeTemplate).filter((t): t is TaskTemplate => !!t),
+    quotes: quotes.map(normalizeQuote).filter((q): q is Quote => !!q),
+    settings: normalizeSettings(settings),
+    invoiceSeq,
+  };
+}
+
+// « replace » vide les tables avant d'écrire ; « merge » écrase par identifiant et garde le reste,
+// réglages compris. Le compteur de factures ne recule jamais lors d'une fusion.
+export async function restoreWorkspace(ws: Workspace, mode: RestoreMode): Promise<void> {
+  const db = await openDB();
+  const stores = [STORE_TASKS, STORE_CLIENTS, STORE_INVOICES, STORE_TEMPLATES, STORE_QUOTES];
+  const tx = db.transaction([...stores, STORE_META], 'readwrite');
+  const done = txDone(tx);
+  const meta = tx.objectStore(STORE_META);
+  if (mode === 'replace') stores.forEach((s) => tx.objectStore(s).clear());
+  ws.tasks.forEach((t) => tx.objectStore(STORE_TASKS).put(t));
+  ws.clients.forEach((c) => tx.objectStore(STORE_CLIENTS).put(c));
+  ws.invoices.forEach((i) => tx.objectStore(STORE_INVOICES).put(i));
+  ws.templates.forEach((t) => tx.objectStore(STORE_TEMPLATES).put(t));
+  ws.quotes.forEach((q) => tx.objectStore(STORE_QUOTES).put(q));
+  if (mode === 'replace') {
+    meta.put(ws.settings, 'settings');
+    if (ws.invoiceSeq) meta.put(ws.invoiceSeq, 'invoiceSeq');
+    else meta.delete('invoiceSeq');
+  } else if (ws.invoiceSeq) {
+    const current: { year: number; last: number } | undefined = await promisify(meta.get('invoiceSeq'));
+    const incoming = ws.invoiceSeq;
+    const newer = !current || incoming.year > current.year || (incoming.year === current.year && incoming.last > current.last);
+    if (newer) meta.put(incoming, 'invoiceSeq');
+  }
+  await done;
+}
@@ -0,0 +1,91 @@
+import { Task } from '@/types';
+import { getMonday, isoDate, parseISODate } from '@/utils/date';
+import { sumHours, taskHours } from '@/utils/totals';
+import { CellValue, Sheet } from '@/utils/xlsx';
+
+// Classeur comptable : tâches brutes, tableau croisé par semaine, puis un récapitulatif par client.
+
+const NON_BILLABLE = 'Non facturable';
+
+const byDateThenStart = (a: Task, b: Task) => a.dateISO.localeCompare(b.dateISO) || a.startHour - b.startHour;
+
+function tasksSheet(tasks: Task[]): Sheet {
+  return {
+    name: 'Tâches',
+    widths: [12, 8, 8, 10, 15, 22, 22, 16, 18, 40, 10],
+    rows: [
+      ['Date', 'Début', 'Fin', 'Durée (h)', 'Catégorie', 'Client', 'Projet', 'Devis', 'Type', 'Description', 'Facturée'],
+      ...tasks.map((t): CellValue[] => [
+        { date: t.dateISO },
+        { time: t.startHour },
+        { time: t.endHour },
+        { hours: taskHours(t) },
+        t.category === 'FACTURABLE' ? 'Facturable' : NON_BILLABLE,
+        t.client,
+        t.project,
+        t.quote,
+        t.type,
+        t.description,
+        t.category === 'FACTURABLE' ? !!t.billed : null,
+      ]),
+    ],
+  };
+}
+
+function weeklySheet(tasks: Task[]): Sheet {
+  const columnOf = (t: Task) => (t.category === 'FACTURABLE' ? t.client || 'Sans client' : NON_BILLABLE);
+  const columns = Array.from(new Set(tasks.filter(t => t.category === 'FACTURABLE').map(columnOf))).sort((a, b) => a.localeCompare(b, 'fr'));
+  if (tasks.some(t => t.category === 'NON_FACTURABLE')) columns.push(NON_BILLABLE);
+  const weekOf = (t: Task) => isoDate(getMonday(parseISODate(t.dateISO)));
+  const weeks = Array.from(new Set(tasks.map(weekOf))).sort();
+
+  const hoursFor = (list: Task[]): CellValue[] => [...columns.map(c => ({ hours: sumHours(list.filter(t => columnOf(t) === c)) })), { hours: sumHours(list) }];
+  const rows: CellValue[][] = [
+    ['Semaine du', ...columns, 'Total'],
+    ...weeks.map(w => [{ date: w }, ...hoursFor(tasks.filter(t => weekOf(t) === w))]),
+    ['Total', ...hoursFor(tasks)],
+  ];
+  return { name: 'Par semaine', rows, headerRows: [0, rows.length - 1], widths: [12, ...columns.map(() => 16), 10] };
+}
+
+function clientSheet(client: string, tasks: Task[]): Sheet {
+  const groups = new Map<string, Task[]>();
+  tasks.forEach(t => {
+    const key = `${t.project ?? ''}\u0000${t.quote ?? ''}`;
+    groups.set(key, [...(groups.get(key) ?? []), t]);
+  });
+  const line = (list: Task[]): CellValue[] => [
+    { hours: sumHours(list) },
+    { hours: sumHours(list.filter(t => t.billed)) },
+    { hours: sumHours(list.filter(t => !t.billed)) },
+  ];
+  const rows: CellValue[][] = [
+    [`Client : ${client}`],
+    [],
+    ['Projet', 'Devis', 'Heures', 'Facturées', 'À facturer'],
+    ...Array.from(groups.entries())
+      .sort(([a], [b]) => a.localeCompare(b, 'fr'))
+      .map(([key, list]) => {
+        const [project, quote] = key.split('\u0000');
+        return [project || 'Sans projet', quote, ...line(list)];
+      }),
+    ['Total', null, ...line(tasks)],
+  ];
+  return { name: client, rows, headerRows: [0, 2, rows.length - 1], widths: [28, 18, 10, 10, 10] };
+}
+
+export function tasksWorkbook(tasks: Task[]): Sheet[] {
+  const sorted = tasks.slice().sort(byDateThenStart);
+  const byClient = new Map<string, Task[]>();
+  sorted.filter(t => t.category === 'FACTURABLE').forEach(t => {
+    const client = t.client || 'Sans client';
+    byClient.set(client, [...(byClient.get(client) ?? []), t]);
+  });
+  return [
+    tasksSheet(sorted),
+    weeklySheet(sorted),
+    ...Array.from(byClient.entries())
+      .sort(([a], [b]) => a.localeCompare(b, 'fr'))
+      .map(([client, list]) => clientSheet(client, list)),
+  ];
+}
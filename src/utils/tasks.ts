@@ -0,0 +1,18 @@
+import { Task } from '@/types';
+import { addDays, isoDate, parseISODate } from '@/utils/date';
+
+export const newTaskId = () =>
+  typeof crypto !== 'undefined' && 'randomUUID' in crypto ? crypto.randomUUID() : `${Date.now()}_${Math.random().toString(36).slice(2)}`;
+
+export const shiftDateISO = (dateISO: string, days: number) => isoDate(addDays(parseISODate(dateISO), days));
+
+// Copie d'une tâche à une autre date : nouvel identifiant, jamais facturée, hors série
+export const copyTask = (t: Task, dateISO: string): Task => ({
+  ...t,
+  id: newTaskId(),
+  dateISO,
+  billed: t.category === 'FACTURABLE' ? false : undefined,
+  invoiceId: undefined,
+  seriesId: undefined,
+  recurrence: undefined,
+});
@@ -0,0 +1,47 @@
+import { Task, TaskTemplate } from '@/types';
+import { normalizeTemplate } from '@/utils/storage';
+import { newTaskId } from '@/utils/tasks';
+
+export const sortTemplates = (list: TaskTemplate[]) => list.slice().sort((a, b) => a.name.localeCompare(b.name, 'fr'));
+
+export const templateFromTask = (t: Omit<Task, 'id' | 'dateISO'>, name: string): TaskTemplate => ({
+  id: newTaskId(),
+  name,
+  category: t.category,
+  client: t.client,
+  project: t.project,
+  quote: t.quote,
+  type: t.type,
+  description: t.description,
+  duration: t.endHour - t.startHour,
+});
+
+export const taskFromTemplate = (tpl: TaskTemplate, dateISO: string, startHour: number): Task => ({
+  id: newTaskId(),
+  dateISO,
+  startHour,
+  endHour: startHour + tpl.duration,
+  category: tpl.category,
+  client: tpl.client,
+  project: tpl.project,
+  quote: tpl.quote,
+  type: tpl.type,
+  description: tpl.description,
+  billed: tpl.category === 'FACTURABLE' ? false : undefined,
+});
+
+// Libellé secondaire dans la palette et la liste
+export const templateSummary = (tpl: TaskTemplate) =>
+  [tpl.category === 'FACTURABLE' ? [tpl.client, tpl.project, tpl.quote].filter(Boolean).join(' — ') : tpl.type, tpl.description]
+    .filter(Boolean)
+    .join(' · ');
+
+export const exportTemplatesJSON = (list: TaskTemplate[]) => JSON.stringify(sortTemplates(list), null, 2);
+
+// Import : un tableau de modèles ; les entrées invalides sont ignorées, les identifiants connus sont remplacés
+export function parseTemplatesJSON(text: string): TaskTemplate[] {
+  const parsed = JSON.parse(text);
+  if (!Array.isArray(parsed)) throw new Error('Le fichier doit contenir une liste de modèles.');
+  return parsed.map((raw) => normalizeTemplate(raw && typeof raw === 'object' && !('id' in raw) ? { ...raw, id: newTaskId() } : raw))
+    .filter((t): t is TaskTemplate => !!t);
+}
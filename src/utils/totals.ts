@@ -0,0 +1,67 @@
+import { Task } from '@/types';
+import { HoursMode } from '@/utils/settings';
+
+export const taskHours = (t: Task) => t.endHour - t.startHour;
+
+export const sumHours = (tasks: Task[]) => tasks.reduce((s, t) => s + taskHours(t), 0);
+
+// Temps d'horloge : les plages qui se chevauchent le même jour ne comptent qu'une fois.
+export function wallClockHours(tasks: Task[]) {
+  const sorted = tasks.slice().sort((a, b) => a.dateISO.localeCompare(b.dateISO) || a.startHour - b.startHour);
+  let total = 0;
+  let day = '';
+  let end = -Infinity;
+  sorted.forEach(t => {
+    if (t.dateISO !== day) {
+      day = t.dateISO;
+      end = -Infinity;
+    }
+    if (t.endHour > end) {
+      total += t.endHour - Math.max(t.startHour, end);
+      end = t.endHour;
+    }
+  });
+  return total;
+}
+
+export const countHours = (tasks: Task[], mode: HoursMode) => (mode === 'WALL' ? wallClockHours(tasks) : sumHours(tasks));
+
+export interface HoursBreakdown {
+  total: number;
+  billable: number;
+  nonBillable: number;
+  unbilled: number; // facturable pas encore facturé
+}
+
+export function hoursBreakdown(tasks: Task[], mode: HoursMode): HoursBreakdown {
+  const billable = tasks.filter(t => t.category === 'FACTURABLE');
+  return {
+    total: countHours(tasks, mode),
+    billable: countHours(billable, mode),
+    nonBillable: countHours(tasks.filter(t => t.category === 'NON_FACTURABLE'), mode),
+    unbilled: countHours(billable.filter(t => !t.billed), mode),
+  };
+}
+
+// Part du facturable ; en temps réel, le total peut être inférieur à facturable + non facturable
+export const billablePercent = (b: HoursBreakdown) =>
+  b.billable + b.nonBillable > 0 ? Math.round((b.billable / (b.billable + b.nonBillable)) * 100) : 0;
+
+// Heures regroupées par clé, triées par libellé ; les tâches sans clé sont ignorées.
+export function totalsBy(tasks: Task[], keyOf: (t: Task) => string | undefined) {
+  const map = new Map<string, number>();
+  tasks.forEach(t => {
+    const key = keyOf(t);
+    if (!key) return;
+    map.set(key, (map.get(key) ?? 0) + taskHours(t));
+  });
+  return Array.from(map.entries())
+    .map(([key, hours]) => ({ key, hours }))
+    .sort((a, b) => a.key.localeCompare(b.key, 'fr'));
+}
+
+// Libellé « Client — Projet » pour le facturable, type pour le non facturable
+export const activityLabel = (t: Task) =>
+  t.category === 'FACTURABLE'
+    ? [t.client, t.project].filter(Boolean).join(' — ') || 'Sans client'
+    : t.type || 'Sans type';
@@ -0,0 +1,177 @@
+import { Task } from '@/types';
+import { formatHours } from '@/utils/date';
+import { ImportRow, fold, parseBoolCell, parseDateCell, parseDurationCell } from '@/utils/csv';
+import { Settings, dayRangeLabel, snapHour } from '@/utils/settings';
+import { newTaskId, shiftDateISO } from '@/utils/tasks';
+
+// Exports détaillés des autres outils (Toggl Track, Clockify, Harvest) convertis en lignes d'import :
+// une entrée qui passe minuit ou déborde de la plage horaire est découpée.
+
+export type ImportFormat = 'generic' | 'toggl' | 'clockify' | 'harvest';
+type TrackerFormat = Exclude<ImportFormat, 'generic'>;
+
+export const FORMAT_LABELS: Record<ImportFormat, string> = {
+  generic: 'CSV libre (correspondance des colonnes)',
+  toggl: 'Toggl Track — export détaillé',
+  clockify: 'Clockify — rapport détaillé',
+  harvest: 'Harvest — rapport détaillé',
+};
+
+type Column =
+  | 'client' | 'project' | 'task' | 'description' | 'billable' | 'invoiced' | 'code'
+  | 'date' | 'hours' | 'startDate' | 'startTime' | 'endDate' | 'endTime';
+
+// En-têtes des exports, une fois repliés (minuscules, sans accents)
+const COLUMNS: Record<TrackerFormat, Partial<Record<Column, string>>> = {
+  toggl: {
+    client: 'client', project: 'project', task: 'task', description: 'description', billable: 'billable',
+    startDate: 'start date', startTime: 'start time', endDate: 'end date', endTime: 'end time',
+  },
+  clockify: {
+    client: 'client', project: 'project', task: 'task', description: 'description', billable: 'billable',
+    startDate: 'start date', startTime: 'start time', endDate: 'end date', endTime: 'end time',
+  },
+  harvest: {
+    client: 'client', project: 'project', code: 'project code', task: 'task', description: 'notes',
+    date: 'date', hours: 'hours', billable: 'billable?', invoiced: 'invoiced?',
+  },
+};
+
+const REQUIRED: Record<TrackerFormat, Column[]> = {
+  toggl: ['startDate', 'startTime', 'endDate', 'endTime'],
+  clockify: ['startDate', 'startTime', 'endDate', 'endTime'],
+  harvest: ['date', 'hours'],
+};
+
+export function detectFormat(headers: string[]): ImportFormat {
+  const h = headers.map(fold);
+  if (h.includes('hours') && h.includes('notes') && h.includes('billable?')) return 'harvest';
+  if (h.includes('start date') && h.includes('end time')) {
+    return h.some(x => x.startsWith('duration (')) ? 'clockify' : 'toggl';
+  }
+  return 'generic';
+}
+
+export function missingColumns(format: TrackerFormat, headers: string[]) {
+  const h = headers.map(fold);
+  return REQUIRED[format].map(c => COLUMNS[format][c] as string).filter(name => !h.includes(name));
+}
+
+// 14:05, 14:05:33, 2:05 PM, 02:05:33 pm ; renvoie une heure décimale (secondes comprises)
+function parseClock(raw: string): number | null {
+  const m = raw.trim().toLowerCase().match(/^(\d{1,2}):(\d{2})(?::(\d{2}))?\s*(am|pm)?$/);
+  if (!m) return null;
+  let h = Number(m[1]);
+  if (m[4]) {
+    if (h < 1 || h > 12) return null;
+    h = (h % 12) + (m[4] === 'pm' ? 12 : 0);
+  }
+  const min = Number(m[2]);
+  const sec = Number(m[3] ?? 0);
+  return h > 24 || min > 59 || sec > 59 ? null : h + min / 60 + sec / 3600;
+}
+
+const dayDiff = (fromISO: string, toISO: string) =>
+  Math.round((Date.parse(`${toISO}T12:00:00Z`) - Date.parse(`${fromISO}T12:00:00Z`)) / 86400000);
+
+interface Entry {
+  dateISO: string;
+  start: number; // heures depuis minuit du jour `dateISO` ; `end` peut dépasser 24
+  end: number;
+  fields: Omit<Task, 'id' | 'dateISO' | 'startHour' | 'endHour'>;
+}
+
+// Découpe à minuit, puis rognage sur la plage horaire ; la partie hors plage reste visible en erreur
+function splitEntry(entry: Entry, line: number, cells: string[], settings: Settings): ImportRow[] {
+  const rows: ImportRow[] = [];
+  const firstDay = Math.floor(entry.start / 24);
+  for (let day = firstDay; day * 24 < entry.end; day++) {
+    const from = Math.max(entry.start, day * 24) - day * 24;
+    const to = Math.min(entry.end, (day + 1) * 24) - day * 24;
+    const dateISO = shiftDateISO(entry.dateISO, day);
+    const inside = Math.max(0, Math.min(to, settings.endHour) - Math.max(from, settings.startHour));
+    if (inside > 0) {
+      const startHour = snapHour(Math.max(from, settings.startHour), settings);
+      const endHour = snapHour(Math.min(to, settings.endHour), settings);
+      if (endHour > startHour) {
+        const rounded = Math.abs(startHour - Math.max(from, settings.startHour)) > 1e-6 || Math.abs(endHour - Math.min(to, settings.endHour)) > 1e-6;
+        rows.push({
+          line, cells, errors: [],
+          task: { id: newTaskId(), dateISO, startHour, endHour, ...entry.fields },
+          note: rounded ? `Arrondi au créneau de ${settings.slotMinutes} min` : undefined,
+        });
+      } else {
+        rows.push({ line, cells, task: null, errors: [`Durée inférieure à un créneau de ${settings.slotMinutes} min`] });
+      }
+    }
+    if (to - from - inside > 1e-6) {
+      rows.push({ line, cells, task: null, errors: [`${dateISO} : ${formatHours(to - from - inside)} hors de la plage ${dayRangeLabel(settings)}, non importée(s)`] });
+    }
+  }
+  if (rows.length > 1) rows.forEach((r, i) => { r.note = [`Partie ${i + 1}/${rows.length}`, r.note].filter(Boolean).join(' · '); });
+  return rows;
+}
+
+export function trackerRows(format: TrackerFormat, headers: string[], data: string[][], firstLine: number, settings: Settings): ImportRow[] {
+  const folded = headers.map(fold);
+  const index = (c: Column) => (COLUMNS[format][c] ? folded.indexOf(COLUMNS[format][c] as string) : -1);
+  const get = (cells: string[], c: Column) => {
+    const i = index(c);
+    return i >= 0 ? (cells[i] ?? '').trim() : '';
+  };
+
+  // Clockify suit le format de date de l'espace de travail, américain par défaut
+  const dayFirst = format !== 'clockify' || data.some(r => /^(1[3-9]|2\d|3[01])[/.-]/.test(get(r, 'startDate')));
+  // Harvest n'exporte que des durées : les entrées d'une journée s'enchaînent depuis le début de plage
+  const cursor = new Map<string, number>();
+
+  return data.flatMap((cells, i): ImportRow[] => {
+    const line = firstLine + i;
+    const errors: string[] = [];
+    let dateISO: string | null;
+    let start: number | null;
+    let end: number | null = null;
+
+    if (format === 'harvest') {
+      dateISO = parseDateCell(get(cells, 'date'));
+      const hours = parseDurationCell(get(cells, 'hours'));
+      if (!dateISO) errors.push(`Date illisible « ${get(cells, 'date')} »`);
+      if (hours === null || hours <= 0) errors.push(`Durée illisible « ${get(cells, 'hours')} »`);
+      start = dateISO ? cursor.get(dateISO) ?? settings.startHour : null;
+      if (dateISO && start !== null && hours) {
+        end = start + hours;
+        cursor.set(dateISO, end);
+      }
+    } else {
+      dateISO = parseDateCell(get(cells, 'startDate'), dayFirst);
+      const endISO = parseDateCell(get(cells, 'endDate'), dayFirst);
+      start = parseClock(get(cells, 'startTime'));
+      const endClock = parseClock(get(cells, 'endTime'));
+      if (!dateISO || !endISO) errors.push(`Date illisible « ${get(cells, dateISO ? 'endDate' : 'startDate')} »`);
+      if (start === null || endClock === null) errors.push(`Heure illisible « ${get(cells, start === null ? 'startTime' : 'endTime')} »`);
+      if (dateISO && endISO && endClock !== null) end = endClock + 24 * dayDiff(dateISO, endISO);
+    }
+    if (start !== null && end !== null && end <= start) errors.push('La fin doit suivre le début');
+
+    const billable = parseBoolCell(get(cells, 'billable')) ?? false;
+    const client = get(cells, 'client') || undefined;
+    const project = get(cells, 'project') || undefined;
+    const task = get(cells, 'task') || undefined;
+    const notes = get(cells, 'description') || undefined;
+    if (billable && !client) errors.push('Client manquant pour une tâche facturable');
+    if (!billable && !project && !task) errors.push('Projet ou tâche manquant pour une entrée non facturable');
+
+    if (errors.length > 0 || !dateISO || start === null || end === null) return [{ line, cells, task: null, errors }];
+    const fields: Entry['fields'] = billable
+      ? {
+        category: 'FACTURABLE',
+        client,
+        project,
+        quote: get(cells, 'code') || undefined,
+        description: [task, notes].filter(Boolean).join(' — ') || undefined,
+        billed: parseBoolCell(get(cells, 'invoiced')) ?? false,
+      }
+      : { category: 'NON_FACTURABLE', type: project ?? task, description: project && task ? [task, notes].filter(Boolean).join(' — ') : notes };
+    return splitEntry({ dateISO, start, end, fields }, line, cells, settings);
+  });
+}